@@ -1,250 +1,867 @@
-import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-
-export const dynamic = "force-dynamic";
-export const revalidate = 0;
-
-type Store = Record<string, Record<string, string>>;
-
-// IMPORTANT: these env names must match Netlify + .env.local
-const SUPABASE_URL = process.env.SUPABASE_URL!;
-const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-
-if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-  throw new Error(
-    "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables"
-  );
-}
-
-const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-
-const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
-const TIME_RE = /^\d{2}:\d{2}$/;
-
-const jsonNoStore = (data: any, status = 200) =>
-  NextResponse.json(data, {
-    status,
-    headers: {
-      "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
-      Pragma: "no-cache",
-      Expires: "0",
-    },
-  });
-
-// -----------------------------------------------------------------------------
-// GET  /api/appointments
-// NOTE: Supabase select() defaults to 1000 rows. If you have >1000 appointments,
-// you MUST paginate/range, otherwise some days/times will randomly "disappear".
-// -----------------------------------------------------------------------------
-// Returns full calendar as: { "2026-03-06": { "08:00": "Name", ... }, ... }
-export async function GET() {
-  try {
-    const store: Store = {};
-
-    const PAGE = 1000;
-    let from = 0;
-
-    while (true) {
-      const { data, error } = await supabase
-        .from("appointments")
-        .select("day,time,name")
-        // stable ordering so paging is deterministic
-        .order("day", { ascending: true })
-        .order("time", { ascending: true })
-        .range(from, from + PAGE - 1);
-
-      if (error) {
-        console.error("GET /api/appointments error:", error);
-        return jsonNoStore({}, 200);
-      }
-
-      const rows = (data || []) as any[];
-      for (const row of rows) {
-        const day = (row.day ?? "") as string;
-        const time = (row.time ?? "") as string;
-        const name = (row.name ?? "") as string;
-
-        if (!day || !time) continue;
-        if (!store[day]) store[day] = {};
-        store[day][time] = name || "";
-      }
-
-      if (rows.length < PAGE) break;
-      from += PAGE;
-      // safety stop (prevents infinite loop if something weird happens)
-      if (from > 50000) break;
-    }
-
-    return jsonNoStore(store, 200);
-  } catch (e) {
-    console.error("GET /api/appointments exception:", e);
-    return jsonNoStore({}, 200);
-  }
-}
-
-// -----------------------------------------------------------------------------
-// PATCH /api/appointments  (SAFE: single-slot operations, no wipe possible)
-// Body examples:
-//  { op: "set", day: "2026-03-06", time: "10:30", name: "Ivan" }
-//  { op: "clear", day: "2026-03-06", time: "10:30" }
-// -----------------------------------------------------------------------------
-export async function PATCH(req: NextRequest) {
-  try {
-    const body = await req.json().catch(() => null);
-
-    if (!body || typeof body !== "object") {
-      return jsonNoStore({ error: "Invalid payload" }, 400);
-    }
-
-    const op = (body as any).op as string;
-    const day = (body as any).day as string;
-    const time = (body as any).time as string;
-    const nameRaw = (body as any).name as string | undefined;
-
-    if (!op || !day || !time) {
-      return jsonNoStore({ error: "Missing op/day/time" }, 400);
-    }
-
-    if (!DAY_RE.test(day) || !TIME_RE.test(time)) {
-      return jsonNoStore({ error: "Invalid day/time format" }, 400);
-    }
-
-    if (op === "clear") {
-      const { error: delErr } = await supabase
-        .from("appointments")
-        .delete()
-        .eq("day", day)
-        .eq("time", time);
-
-      if (delErr) {
-        console.error("PATCH clear error:", delErr);
-        return jsonNoStore({ error: "Failed to clear slot" }, 500);
-      }
-
-      return jsonNoStore({ ok: true }, 200);
-    }
-
-    if (op === "set") {
-      const name = (nameRaw ?? "").trim();
-
-      // empty name = treat as clear
-      if (name === "") {
-        const { error: delErr } = await supabase
-          .from("appointments")
-          .delete()
-          .eq("day", day)
-          .eq("time", time);
-
-        if (delErr) {
-          console.error("PATCH set->clear error:", delErr);
-          return jsonNoStore({ error: "Failed to clear slot" }, 500);
-        }
-
-        return jsonNoStore({ ok: true }, 200);
-      }
-
-      // Requires unique constraint/index on (day,time)
-      const { error: upsertErr } = await supabase
-        .from("appointments")
-        .upsert([{ day, time, name }], { onConflict: "day,time" });
-
-      if (upsertErr) {
-        console.warn("PATCH set upsert failed, falling back to delete+insert:", upsertErr);
-
-        const { error: delErr } = await supabase
-          .from("appointments")
-          .delete()
-          .eq("day", day)
-          .eq("time", time);
-
-        if (delErr) {
-          console.error("PATCH set fallback delete error:", delErr);
-          return jsonNoStore({ error: "Failed to set slot (fallback delete)" }, 500);
-        }
-
-        const { error: insErr } = await supabase
-          .from("appointments")
-          .insert([{ day, time, name }]);
-
-        if (insErr) {
-          console.error("PATCH set fallback insert error:", insErr);
-          return jsonNoStore({ error: "Failed to set slot (fallback insert)" }, 500);
-        }
-      }
-
-      return jsonNoStore({ ok: true }, 200);
-    }
-
-    return jsonNoStore({ error: "Unknown op" }, 400);
-  } catch (e) {
-    console.error("PATCH /api/appointments exception:", e);
-    return jsonNoStore({ error: "Exception while patching" }, 500);
-  }
-}
-
-// -----------------------------------------------------------------------------
-// POST /api/appointments  (DANGEROUS BULK OVERWRITE)
-// Protected: old clients can't wipe the table.
-// Required body:
-//   { _dangerouslyOverwriteAll: true, store: { ...fullStore } }
-// -----------------------------------------------------------------------------
-export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json().catch(() => null);
-
-    if (!body || typeof body !== "object") {
-      return jsonNoStore({ error: "Invalid payload" }, 400);
-    }
-
-    const allow = (body as any)._dangerouslyOverwriteAll === true;
-    const store = (body as any).store as Store | undefined;
-
-    if (!allow || !store || typeof store !== "object") {
-      return jsonNoStore(
-        {
-          error: "Bulk overwrite is disabled. Use PATCH for single-slot updates.",
-        },
-        400
-      );
-    }
-
-    const rows: { day: string; time: string; name: string }[] = [];
-
-    for (const day of Object.keys(store)) {
-      if (!DAY_RE.test(day)) continue;
-      const slots = store[day];
-      if (!slots || typeof slots !== "object") continue;
-
-      for (const time of Object.keys(slots)) {
-        if (!TIME_RE.test(time)) continue;
-        const name = (slots[time] || "").trim();
-        if (name === "") continue;
-        rows.push({ day, time, name });
-      }
-    }
-
-    // Delete ALL rows
-    const { error: delAllErr } = await supabase
-      .from("appointments")
-      .delete()
-      .not("day", "is", null);
-
-    if (delAllErr) {
-      console.error("POST overwrite delete-all error:", delAllErr);
-      return jsonNoStore({ error: "Failed to clear existing data" }, 500);
-    }
-
-    if (rows.length > 0) {
-      const { error: insErr } = await supabase.from("appointments").insert(rows);
-      if (insErr) {
-        console.error("POST overwrite insert error:", insErr);
-        return jsonNoStore({ error: "Failed to insert new data" }, 500);
-      }
-    }
-
-    return jsonNoStore({ ok: true }, 200);
-  } catch (e) {
-    console.error("POST /api/appointments exception:", e);
-    return jsonNoStore({ error: "Exception while overwriting" }, 500);
-  }
-}
+import { NextRequest } from "next/server";
+import { supabase } from "../../../lib/db";
+import { jsonNoStore } from "../../../lib/http";
+import { CONFIRM_TTL_SECONDS, createActionToken, readSession, requireSession, verifyActionToken } from "../../../lib/auth";
+import { barberIds, listBarbers, resolveBarberId } from "../../../lib/barbers";
+import {
+  APPOINTMENT_COLUMNS,
+  Appointment,
+  SlotChange,
+  Store,
+  appointmentRange,
+  appointmentToRow,
+  diffStores,
+  findOverlap,
+  isBlock,
+  isBooked,
+  toAppointment,
+} from "../../../lib/appointments";
+import { ShopSchedule, isWithinHours } from "../../../lib/schedule";
+import { loadSchedule } from "../../../lib/settings";
+import { HistoryChange, actorFrom, recordHistory } from "../../../lib/history";
+import { digestCalendars, loadCalendars, replaceAppointments, takeSnapshot } from "../../../lib/snapshots";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}$/;
+
+// GET ?name= is a case-insensitive substring match
+const NAME_SEARCH_MAX = 100;
+
+// Postgres exclusion_violation (appointments_no_overlap)
+const PG_EXCLUSION_VIOLATION = "23P01";
+
+// Delta sync: tombstones are kept this long (migration 010), and each delta
+// re-reads this much before the cursor
+const TOMBSTONE_DAYS = 90;
+const CURSOR_OVERLAP_MS = 30000;
+
+// Postgres unique_violation (appointments_barber_day_time_key)
+const PG_UNIQUE_VIOLATION = "23505";
+
+// Postgres foreign_key_violation (client_id pointing at no client)
+const PG_FOREIGN_KEY_VIOLATION = "23503";
+
+// Most ops one PATCH { ops } may carry
+const MAX_BATCH_OPS = 100;
+
+// expectedVersion / expectedToVersion; null = don't check
+const toExpectedVersion = (v: unknown) => (Number.isInteger(v) && (v as number) >= 0 ? (v as number) : null);
+
+// One barber's bookings for one day, keyed by start time, with row versions
+async function loadDay(barber: string, day: string) {
+  const { data, error } = await supabase
+    .from("appointments")
+    .select(`time,version,${APPOINTMENT_COLUMNS}`)
+    .eq("barber_id", barber)
+    .eq("day", day);
+
+  if (error) return { day: null, versions: null, error };
+
+  const out: Record<string, Appointment> = {};
+  const versions: Record<string, number> = {};
+  for (const row of (data || []) as any[]) {
+    const appt = toAppointment(row);
+    if (!appt || !row.time) continue;
+    out[row.time as string] = appt;
+    versions[row.time as string] = Number(row.version ?? 0);
+  }
+  return { day: out, versions, error: null };
+}
+
+// 409 for a failed expectedVersion check, carrying what the slot holds now
+async function staleSlot(barber: string, day: string, time: string, extra: Record<string, unknown> = {}) {
+  const { data } = await supabase
+    .from("appointments")
+    .select(`version,${APPOINTMENT_COLUMNS}`)
+    .eq("barber_id", barber)
+    .eq("day", day)
+    .eq("time", time)
+    .maybeSingle();
+
+  return jsonNoStore(
+    {
+      ...extra,
+      error: "Slot changed on another device",
+      current: data ? toAppointment(data) : null,
+      version: data ? Number((data as any).version ?? 0) : 0,
+    },
+    409
+  );
+}
+
+// Why `appt` can't start at day/time among the day's other bookings (`slots`,
+// its own key ignored), or null when it fits. Blocks may cover closed hours.
+function placementRefusal(
+  schedule: ShopSchedule,
+  appt: Appointment,
+  day: string,
+  time: string,
+  slots: Record<string, Appointment>,
+  checkHours = true
+) {
+  if (!isBooked(appt)) return null;
+  if (checkHours && !isBlock(appt) && !isWithinHours(schedule, day, time, appt.duration)) {
+    return { status: 400, body: { error: "Outside opening hours" } };
+  }
+  const hit = findOverlap(slots, time, appointmentRange(time, appt));
+  if (!hit) return null;
+  return {
+    status: 409,
+    body: { error: "Overlaps an existing booking", conflict: { time: hit.time, name: hit.appt.name, duration: hit.appt.duration } },
+  };
+}
+
+// Drag-and-drop: moves the booking at barber/day/time to body.to; with swap,
+// whatever is there goes the other way. Both slots change atomically
+// (move_appointment, migration 014).
+async function moveSlot(req: NextRequest, body: any, swap: boolean, barber: string, day: string, time: string) {
+  const to = body.to;
+  if (!to || typeof to !== "object" || !DAY_RE.test(to.day) || !TIME_RE.test(to.time)) {
+    return jsonNoStore({ error: "Invalid target slot" }, 400);
+  }
+  const toBarber = to.barber == null ? barber : await resolveBarberId(to.barber);
+  if (!toBarber) {
+    return jsonNoStore({ error: "Unknown barber" }, 400);
+  }
+  const toDay = to.day as string;
+  const toTime = to.time as string;
+  const sameDay = toBarber === barber && toDay === day;
+  if (sameDay && toTime === time) {
+    return jsonNoStore({ error: "Target is the same slot" }, 400);
+  }
+
+  const expected = toExpectedVersion(body.expectedVersion);
+  const expectedTo = toExpectedVersion(body.expectedToVersion);
+
+  const [src, dst] = await Promise.all([loadDay(barber, day), sameDay ? null : loadDay(toBarber, toDay)]);
+  const srcDay = src.day;
+  const dstDay = sameDay ? srcDay : dst?.day;
+  if (src.error || dst?.error || !srcDay || !dstDay) {
+    console.error("PATCH move load error:", src.error || dst?.error);
+    return jsonNoStore({ error: "Failed to load slots" }, 500);
+  }
+
+  const moving = srcDay[time];
+  if (!moving) {
+    return jsonNoStore({ error: "Nothing to move" }, 409);
+  }
+  const displaced = dstDay[toTime] ?? null;
+  if (displaced && !swap) {
+    return jsonNoStore({ error: "Target slot is taken" }, 409);
+  }
+
+  // Each booking is checked against its new day as it will be after the change
+  const { schedule } = await loadSchedule();
+  if (!schedule) {
+    return jsonNoStore({ error: "Failed to load opening hours" }, 503);
+  }
+
+  const aroundTarget = { ...dstDay };
+  delete aroundTarget[toTime];
+  if (sameDay) {
+    delete aroundTarget[time];
+    if (displaced) aroundTarget[time] = displaced;
+  }
+  const around = { ...srcDay };
+  delete around[time];
+  if (sameDay) around[toTime] = moving;
+
+  const refused =
+    placementRefusal(schedule, moving, toDay, toTime, aroundTarget) ||
+    (displaced && placementRefusal(schedule, displaced, day, time, around));
+  if (refused) return jsonNoStore(refused.body, refused.status);
+
+  const { data, error } = await supabase.rpc("move_appointment", {
+    p_barber: barber,
+    p_day: day,
+    p_time: time,
+    p_to_barber: toBarber,
+    p_to_day: toDay,
+    p_to_time: toTime,
+    p_swap: swap,
+    p_expected: expected,
+    p_expected_to: expectedTo,
+  });
+
+  if (error?.code === PG_EXCLUSION_VIOLATION) {
+    return jsonNoStore({ error: "Overlaps an existing booking" }, 409);
+  }
+  if (error) {
+    console.error("PATCH move error:", error);
+    return jsonNoStore({ error: "Failed to move slot" }, 500);
+  }
+
+  const status = (data as any)?.status;
+  if (status === "taken") return jsonNoStore({ error: "Target slot is taken" }, 409);
+  if (status !== "ok") return jsonNoStore({ error: "Slot changed on another device" }, 409);
+
+  await recordHistory(actorFrom(req), [
+    { barber, day, time, action: "move", old: moving, new: displaced },
+    { barber: toBarber, day: toDay, time: toTime, action: "move", old: displaced, new: moving },
+  ]);
+  return jsonNoStore(
+    { ok: true, version: Number((data as any).from_version ?? 0), toVersion: Number((data as any).to_version ?? 0) },
+    200
+  );
+}
+
+type BatchSlot = { barber: string; day: string; time: string };
+
+type BatchOp = BatchSlot & {
+  op: "set" | "clear" | "move" | "swap";
+  // set; null = clear (empty name)
+  appt: Appointment | null;
+  // move / swap
+  to: BatchSlot | null;
+  expected: number | null;
+  expectedTo: number | null;
+};
+
+// PATCH { ops }: every op is checked against the calendar as the ops before it
+// leave it, then apply_appointment_batch (migration 015) writes all of them or
+// none. A refused op is reported by its index.
+async function batchPatch(req: NextRequest, raw: unknown[]) {
+  if (raw.length === 0 || raw.length > MAX_BATCH_OPS) {
+    return jsonNoStore({ error: `A batch takes 1 to ${MAX_BATCH_OPS} ops` }, 400);
+  }
+
+  const known = await barberIds();
+  const ops: BatchOp[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const o = raw[i] as any;
+    const invalid = (error: string) => jsonNoStore({ error, failed: i }, 400);
+
+    if (!o || typeof o !== "object") return invalid("Invalid payload");
+    if (o.op !== "set" && o.op !== "clear" && o.op !== "move" && o.op !== "swap") return invalid("Unknown op");
+    if (!DAY_RE.test(o.day) || !TIME_RE.test(o.time)) return invalid("Invalid day/time format");
+    const barber = await resolveBarberId(o.barber, known);
+    if (!barber) return invalid("Unknown barber");
+
+    let to: BatchSlot | null = null;
+    if (o.op === "move" || o.op === "swap") {
+      const t = o.to;
+      if (!t || typeof t !== "object" || !DAY_RE.test(t.day) || !TIME_RE.test(t.time)) return invalid("Invalid target slot");
+      const toBarber = t.barber == null ? barber : await resolveBarberId(t.barber, known);
+      if (!toBarber) return invalid("Unknown barber");
+      if (toBarber === barber && t.day === o.day && t.time === o.time) return invalid("Target is the same slot");
+      to = { barber: toBarber, day: t.day, time: t.time };
+    }
+
+    ops.push({
+      op: o.op,
+      barber,
+      day: o.day,
+      time: o.time,
+      appt: o.op === "set" ? toAppointment(o) : null,
+      to,
+      expected: toExpectedVersion(o.expectedVersion),
+      expectedTo: toExpectedVersion(o.expectedToVersion),
+    });
+  }
+
+  // Every day the batch touches, in one read
+  const slots = ops.flatMap((o) => (o.to ? [o, o.to] : [o]));
+  const barbers = Array.from(new Set(slots.map((s) => s.barber)));
+  const dayList = Array.from(new Set(slots.map((s) => s.day)));
+  const [{ schedule }, { data, error: loadErr }] = await Promise.all([
+    loadSchedule(),
+    supabase
+      .from("appointments")
+      .select(`barber_id,day,time,version,${APPOINTMENT_COLUMNS}`)
+      .in("barber_id", barbers)
+      .in("day", dayList),
+  ]);
+  if (!schedule) {
+    return jsonNoStore({ error: "Failed to load opening hours" }, 503);
+  }
+  if (loadErr) {
+    console.error("PATCH batch load error:", loadErr);
+    return jsonNoStore({ error: "Failed to load slots" }, 500);
+  }
+
+  const days: Record<string, Record<string, Appointment>> = {};
+  const versions: Record<string, number> = {};
+  const dayOf = (barber: string, day: string) => {
+    const key = `${barber}|${day}`;
+    if (!days[key]) days[key] = {};
+    return days[key];
+  };
+  for (const row of (data || []) as any[]) {
+    const appt = toAppointment(row);
+    if (!appt || !row.time) continue;
+    dayOf(row.barber_id, row.day)[row.time] = appt;
+    versions[`${row.barber_id}|${row.day}|${row.time}`] = Number(row.version ?? 0);
+  }
+
+  // Slots an earlier op of this batch already wrote: their version is only
+  // known to the database, which checks it again anyway
+  const touched = new Set<string>();
+  const keyOf = (s: BatchSlot) => `${s.barber}|${s.day}|${s.time}`;
+  const isStale = (s: BatchSlot, expected: number | null) =>
+    expected != null && !touched.has(keyOf(s)) && (versions[keyOf(s)] ?? 0) !== expected;
+
+  const changes: HistoryChange[] = [];
+  for (let i = 0; i < ops.length; i++) {
+    const o = ops[i];
+    const from = dayOf(o.barber, o.day);
+
+    if (isStale(o, o.expected)) return staleSlot(o.barber, o.day, o.time, { failed: i });
+    if (o.to && isStale(o.to, o.expectedTo)) return staleSlot(o.to.barber, o.to.day, o.to.time, { failed: i });
+
+    if (!o.to) {
+      const prev = from[o.time] ?? null;
+      if (o.appt) {
+        // Same leniency as a single set for bookings made before the hours changed
+        const grandfathered = isBooked(prev) && o.appt.duration <= prev!.duration;
+        const refused = placementRefusal(schedule, o.appt, o.day, o.time, from, !grandfathered);
+        if (refused) return jsonNoStore({ ...refused.body, failed: i }, refused.status);
+        from[o.time] = o.appt;
+      } else {
+        delete from[o.time];
+      }
+      touched.add(keyOf(o));
+      changes.push({ barber: o.barber, day: o.day, time: o.time, action: o.appt ? "set" : "clear", old: prev, new: o.appt });
+      continue;
+    }
+
+    const to = o.to;
+    const target = dayOf(to.barber, to.day);
+    const moving = from[o.time];
+    if (!moving) return jsonNoStore({ error: "Nothing to move", failed: i }, 409);
+    const displaced = target[to.time] ?? null;
+    if (displaced && o.op === "move") return jsonNoStore({ error: "Target slot is taken", failed: i }, 409);
+
+    delete from[o.time];
+    target[to.time] = moving;
+    if (displaced) from[o.time] = displaced;
+
+    const refused =
+      placementRefusal(schedule, moving, to.day, to.time, target) ||
+      (displaced && placementRefusal(schedule, displaced, o.day, o.time, from));
+    if (refused) return jsonNoStore({ ...refused.body, failed: i }, refused.status);
+
+    touched.add(keyOf(o));
+    touched.add(keyOf(to));
+    changes.push(
+      { barber: o.barber, day: o.day, time: o.time, action: "move", old: moving, new: displaced },
+      { barber: to.barber, day: to.day, time: to.time, action: "move", old: displaced, new: moving }
+    );
+  }
+
+  const slotRow = (s: BatchSlot) => ({ barber_id: s.barber, day: s.day, time: s.time });
+  const { data: applied, error } = await supabase.rpc("apply_appointment_batch", {
+    p_ops: ops.map((o) => ({
+      op: o.op === "set" && !o.appt ? "clear" : o.op,
+      row: o.appt ? { ...slotRow(o), ...appointmentToRow(o.appt) } : slotRow(o),
+      to: o.to ? slotRow(o.to) : null,
+      expected: o.expected,
+      expected_to: o.expectedTo,
+    })),
+  });
+
+  if (error) {
+    console.error("PATCH batch error:", error);
+    return jsonNoStore({ error: "Failed to apply batch, nothing was changed" }, 500);
+  }
+
+  const status = (applied as any)?.status;
+  if (status !== "ok") {
+    const failed = Number((applied as any)?.failed ?? 0);
+    const o = ops[failed];
+    if (status === "taken") return jsonNoStore({ error: "Target slot is taken", failed }, 409);
+    if (status === "overlap") return jsonNoStore({ error: "Overlaps an existing booking", failed }, 409);
+    if (status === "unknown_client") return jsonNoStore({ error: "Unknown client", failed }, 400);
+    return staleSlot(o.barber, o.day, o.time, { failed });
+  }
+
+  await recordHistory(actorFrom(req), changes);
+
+  const results = (((applied as any).results || []) as any[]).map((r, i) =>
+    ops[i].to
+      ? { version: Number(r.version ?? 0), toVersion: Number(r.to_version ?? 0) }
+      : { version: Number(r.version ?? 0) }
+  );
+  return jsonNoStore({ ok: true, results }, 200);
+}
+
+// -----------------------------------------------------------------------------
+// GET  /api/appointments
+// NOTE: Supabase select() defaults to 1000 rows. If you have >1000 appointments,
+// you MUST paginate/range, otherwise some days/times will randomly "disappear".
+// -----------------------------------------------------------------------------
+// Returns every barber's calendar:
+//   { barbers: [{ id, name }],
+//     stores: { "<barberId>": { "2026-03-06": { "08:00": { name, phone, service, price, notes, status } } } },
+//     versions: { "<barberId>": { "2026-03-06": { "08:00": 1234 } } } }
+// `versions` are what PATCH expects back as expectedVersion.
+// With ?barber=<id> the same reply covers just that barber.
+//
+// Every calendar reply also carries `cursor` (server time of the read). Pass it
+// back as ?since=<cursor> to get only what changed since then:
+//   { ..., delta: true, deleted: [{ barber, day, time }], cursor }
+// `stores`/`versions` then hold just the changed slots; merge, don't replace.
+// A `since` older than TOMBSTONE_DAYS gets a full reply (delta: false).
+//
+// Filters (all optional, inclusive, combine with either kind of reply):
+//   ?from=YYYY-MM-DD&to=YYYY-MM-DD   days
+//   ?fromTime=HH:MM&toTime=HH:MM     start times, on every day in range
+//   ?name=ivan                       client name contains (case-insensitive; no blocks)
+//   ?client=12                       bookings linked to that directory client
+// `deleted` is only narrowed by barber, days and times: a removed row has no name left.
+export async function GET(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const params = req.nextUrl.searchParams;
+  const barberParam = params.get("barber");
+  const fromDay = params.get("from");
+  const toDay = params.get("to");
+  const fromTime = params.get("fromTime");
+  const toTime = params.get("toTime");
+  const nameParam = (params.get("name") || "").trim();
+  const clientParam = params.get("client");
+  const sinceParam = params.get("since");
+
+  if ((fromDay && !DAY_RE.test(fromDay)) || (toDay && !DAY_RE.test(toDay))) {
+    return jsonNoStore({ error: "Invalid from/to format" }, 400);
+  }
+  if ((fromTime && !TIME_RE.test(fromTime)) || (toTime && !TIME_RE.test(toTime))) {
+    return jsonNoStore({ error: "Invalid fromTime/toTime format" }, 400);
+  }
+  if ((fromDay && toDay && fromDay > toDay) || (fromTime && toTime && fromTime > toTime)) {
+    return jsonNoStore({ error: "Empty range" }, 400);
+  }
+  if (clientParam && !/^\d+$/.test(clientParam)) {
+    return jsonNoStore({ error: "Invalid client" }, 400);
+  }
+  if (nameParam.length > NAME_SEARCH_MAX) {
+    return jsonNoStore({ error: "Name search too long" }, 400);
+  }
+  // ilike wildcards in the search text are matched literally
+  const namePattern = nameParam ? `%${nameParam.replace(/[\\%_]/g, (c) => `\\${c}`)}%` : null;
+
+  const sinceMs = sinceParam ? Date.parse(sinceParam) : NaN;
+  if (sinceParam && !Number.isFinite(sinceMs)) {
+    return jsonNoStore({ error: "Invalid since cursor" }, 400);
+  }
+  const delta = Number.isFinite(sinceMs) && Date.now() - sinceMs < TOMBSTONE_DAYS * 86400000;
+  // Rows committed late can carry a timestamp a bit before the cursor; re-reading
+  // a short window is harmless since clients merge idempotently.
+  const changedAfter = delta ? new Date(sinceMs - CURSOR_OVERLAP_MS).toISOString() : null;
+  const cursor = new Date().toISOString();
+
+  try {
+    const barber = barberParam ? await resolveBarberId(barberParam) : null;
+    if (barberParam && !barber) {
+      return jsonNoStore({ error: "Unknown barber" }, 400);
+    }
+
+    const barbers = (await listBarbers()).filter((b) => !barber || b.id === barber);
+    const stores: Record<string, Store> = {};
+    const versions: Record<string, Record<string, Record<string, number>>> = {};
+    for (const b of barbers) {
+      stores[b.id] = {};
+      versions[b.id] = {};
+    }
+
+    const PAGE = 1000;
+    let from = 0;
+
+    while (true) {
+      let q = supabase.from("appointments").select(`barber_id,day,time,version,${APPOINTMENT_COLUMNS}`);
+      if (barber) q = q.eq("barber_id", barber);
+      if (fromDay) q = q.gte("day", fromDay);
+      if (toDay) q = q.lte("day", toDay);
+      if (fromTime) q = q.gte("time", fromTime);
+      if (toTime) q = q.lte("time", toTime);
+      // a block's name is its reason, not a client
+      if (namePattern) q = q.ilike("name", namePattern).eq("kind", "booking");
+      if (clientParam) q = q.eq("client_id", Number(clientParam));
+      if (changedAfter) q = q.gt("updated_at", changedAfter);
+
+      const { data, error } = await q
+        // stable ordering so paging is deterministic
+        .order("barber_id", { ascending: true })
+        .order("day", { ascending: true })
+        .order("time", { ascending: true })
+        .range(from, from + PAGE - 1);
+
+      if (error) {
+        console.error("GET /api/appointments error:", error);
+        return jsonNoStore({ barbers, stores: {} }, 200);
+      }
+
+      const rows = (data || []) as any[];
+      for (const row of rows) {
+        const barberId = (row.barber_id ?? "") as string;
+        const day = (row.day ?? "") as string;
+        const time = (row.time ?? "") as string;
+        const appt = toAppointment(row);
+
+        if (!barberId || !day || !time || !appt) continue;
+        if (!stores[barberId]) stores[barberId] = {};
+        if (!versions[barberId]) versions[barberId] = {};
+        const store = stores[barberId];
+        if (!store[day]) store[day] = {};
+        store[day][time] = appt;
+        if (!versions[barberId][day]) versions[barberId][day] = {};
+        versions[barberId][day][time] = Number(row.version ?? 0);
+      }
+
+      if (rows.length < PAGE) break;
+      from += PAGE;
+      // safety stop (prevents infinite loop if something weird happens)
+      if (from > 50000) break;
+    }
+
+    if (!changedAfter) return jsonNoStore({ barbers, stores, versions, cursor, delta: false }, 200);
+
+    let tq = supabase
+      .from("appointment_tombstones")
+      .select("barber_id,day,time")
+      .gt("deleted_at", changedAfter);
+    if (barber) tq = tq.eq("barber_id", barber);
+    if (fromDay) tq = tq.gte("day", fromDay);
+    if (toDay) tq = tq.lte("day", toDay);
+    if (fromTime) tq = tq.gte("time", fromTime);
+    if (toTime) tq = tq.lte("time", toTime);
+    const { data: tombs, error: tombErr } = await tq.limit(10000);
+
+    if (tombErr) {
+      console.error("GET /api/appointments tombstones error:", tombErr);
+      return jsonNoStore({ error: "Failed to load deletions" }, 500);
+    }
+
+    const deleted = ((tombs || []) as any[]).map((t) => ({ barber: t.barber_id as string, day: t.day as string, time: t.time as string }));
+    return jsonNoStore({ barbers, stores, versions, deleted, cursor, delta: true }, 200);
+  } catch (e) {
+    console.error("GET /api/appointments exception:", e);
+    return jsonNoStore({}, 200);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PATCH /api/appointments  (SAFE: slot-level operations, no wipe possible)
+// Body examples:
+//  { op: "set", barber: "bushi", day: "2026-03-06", time: "10:30", name: "Ivan",
+//    phone: "0888...", service: "Fade", price: 25, notes: "", status: "booked", duration: 90,
+//    clientId: 12, expectedVersion: 1234 }
+// `set` replaces the whole record; omitted optional fields are cleared.
+// A booking that would overlap another one of the same barber is rejected with
+//  409 { error, conflict: { time, name, duration } }
+// A booking outside opening hours (see /api/schedule) is rejected with 400.
+// kind: "block" (name = reason) marks time as unavailable; blocks may cover
+// closed hours but not overlap bookings.
+//  { op: "clear", barber: "bushi", day: "2026-03-06", time: "10:30", expectedVersion: 1234 }
+//  { op: "move" | "swap", barber: "bushi", day: "2026-03-06", time: "10:30",
+//    to: { barber?: "niki", day: "2026-03-07", time: "12:00" },
+//    expectedVersion: 1234, expectedToVersion: 0 }
+// `move` needs an empty target; `swap` exchanges the two slots (or just moves
+// into an empty one). Both slots change together or not at all; the same
+// hours/overlap checks apply to each booking at its new place. Success:
+//  { ok: true, version, toVersion }  (version = the source slot, 0 if now empty)
+// `barber` may be omitted by old clients and then means the default barber.
+// expectedVersion (optional; 0 = "the slot was empty") makes the write
+// conditional: if the slot changed since, nothing is written and the reply is
+//  409 { error, current: <appointment | null>, version }
+// Success: { ok: true, version } (0 after a clear).
+//
+// Several ops at once, applied in order, all or none:
+//  { ops: [{ op: "clear", ... }, { op: "set", ... }, { op: "move", ... }] }   (at most MAX_BATCH_OPS)
+// Each op is checked as above against the calendar the ops before it leave.
+//  200 { ok: true, results: [{ version, toVersion? }] }   one per op
+// A refused op changes nothing at all; the reply is the single-op error plus
+// its index, e.g. 409 { error, failed: 2, current, version }.
+// Every change is recorded in /api/history.
+// -----------------------------------------------------------------------------
+export async function PATCH(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  try {
+    const body = await req.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return jsonNoStore({ error: "Invalid payload" }, 400);
+    }
+
+    if (Array.isArray((body as any).ops)) {
+      return await batchPatch(req, (body as any).ops);
+    }
+
+    const op = (body as any).op as string;
+    const day = (body as any).day as string;
+    const time = (body as any).time as string;
+
+    if (!op || !day || !time) {
+      return jsonNoStore({ error: "Missing op/day/time" }, 400);
+    }
+
+    if (!DAY_RE.test(day) || !TIME_RE.test(time)) {
+      return jsonNoStore({ error: "Invalid day/time format" }, 400);
+    }
+
+    if (op !== "set" && op !== "clear" && op !== "move" && op !== "swap") {
+      return jsonNoStore({ error: "Unknown op" }, 400);
+    }
+
+    const barber = await resolveBarberId((body as any).barber);
+    if (!barber) {
+      return jsonNoStore({ error: "Unknown barber" }, 400);
+    }
+
+    if (op === "move" || op === "swap") {
+      return await moveSlot(req, body, op === "swap", barber, day, time);
+    }
+
+    const expected = toExpectedVersion((body as any).expectedVersion);
+
+    // Current day: needed for the overlap check and as the history "old" value
+    const { day: existing, versions, error: loadErr } = await loadDay(barber, day);
+    if (loadErr) {
+      console.error("PATCH load day error:", loadErr);
+      return jsonNoStore({ error: "Failed to load slot" }, 500);
+    }
+    const prev = existing?.[time] ?? null;
+    const actor = actorFrom(req);
+
+    if (expected != null && (versions?.[time] ?? 0) !== expected) {
+      return staleSlot(barber, day, time);
+    }
+
+    // empty name = treat as clear
+    const appt = op === "set" ? toAppointment(body) : null;
+
+    if (!appt) {
+      let del = supabase.from("appointments").delete().eq("barber_id", barber).eq("day", day).eq("time", time);
+      // Re-checked in the statement itself: the row may have changed since loadDay
+      if (expected != null) del = del.eq("version", expected);
+      const { data: deleted, error: delErr } = await del.select("time");
+
+      if (delErr) {
+        console.error("PATCH clear error:", delErr);
+        return jsonNoStore({ error: "Failed to clear slot" }, 500);
+      }
+      if (expected != null && expected > 0 && (deleted || []).length === 0) {
+        return staleSlot(barber, day, time);
+      }
+
+      await recordHistory(actor, [{ barber, day, time, action: "clear", old: prev, new: null }]);
+      return jsonNoStore({ ok: true, version: 0 }, 200);
+    }
+
+    if (isBooked(appt)) {
+      // Editing a booking that was made before the hours changed (status,
+      // notes, ...) is fine as long as it doesn't grow.
+      const grandfathered = isBooked(prev) && appt.duration <= prev!.duration;
+      if (!grandfathered && !isBlock(appt)) {
+        const { schedule } = await loadSchedule();
+        if (!schedule) {
+          return jsonNoStore({ error: "Failed to load opening hours" }, 503);
+        }
+        if (!isWithinHours(schedule, day, time, appt.duration)) {
+          return jsonNoStore({ error: "Outside opening hours" }, 400);
+        }
+      }
+
+      const hit = findOverlap(existing || {}, time, appointmentRange(time, appt));
+      if (hit) {
+        return jsonNoStore(
+          {
+            error: "Overlaps an existing booking",
+            conflict: { time: hit.time, name: hit.appt.name, duration: hit.appt.duration },
+          },
+          409
+        );
+      }
+    }
+
+    const row = { barber_id: barber, day, time, ...appointmentToRow(appt) };
+    let written: { version: number }[] | null = null;
+    let writeErr: { code?: string } | null = null;
+
+    if (expected === 0) {
+      // Slot must still be empty: a plain insert loses against a concurrent one
+      const res = await supabase.from("appointments").insert([row]).select("version");
+      if (res.error?.code === PG_UNIQUE_VIOLATION) return staleSlot(barber, day, time);
+      written = res.data as any;
+      writeErr = res.error;
+    } else if (expected != null) {
+      const res = await supabase
+        .from("appointments")
+        .update(row)
+        .eq("barber_id", barber)
+        .eq("day", day)
+        .eq("time", time)
+        .eq("version", expected)
+        .select("version");
+      if (!res.error && (res.data || []).length === 0) return staleSlot(barber, day, time);
+      written = res.data as any;
+      writeErr = res.error;
+    } else {
+      // Old clients: last write wins.
+      // Requires unique constraint/index on (barber_id,day,time)
+      const res = await supabase.from("appointments").upsert([row], { onConflict: "barber_id,day,time" }).select("version");
+      written = res.data as any;
+      writeErr = res.error;
+
+      if (writeErr && writeErr.code !== PG_EXCLUSION_VIOLATION) {
+        console.warn("PATCH set upsert failed, falling back to delete+insert:", writeErr);
+
+        const { error: delErr } = await supabase
+          .from("appointments")
+          .delete()
+          .eq("barber_id", barber)
+          .eq("day", day)
+          .eq("time", time);
+
+        if (delErr) {
+          console.error("PATCH set fallback delete error:", delErr);
+          return jsonNoStore({ error: "Failed to set slot (fallback delete)" }, 500);
+        }
+
+        const ins = await supabase.from("appointments").insert([row]).select("version");
+        written = ins.data as any;
+        writeErr = ins.error;
+      }
+    }
+
+    if (writeErr?.code === PG_EXCLUSION_VIOLATION) {
+      return jsonNoStore({ error: "Overlaps an existing booking" }, 409);
+    }
+    if (writeErr?.code === PG_FOREIGN_KEY_VIOLATION) {
+      return jsonNoStore({ error: "Unknown client" }, 400);
+    }
+
+    if (writeErr) {
+      console.error("PATCH set error:", writeErr);
+      return jsonNoStore({ error: "Failed to set slot" }, 500);
+    }
+
+    await recordHistory(actor, [{ barber, day, time, action: "set", old: prev, new: appt }]);
+    return jsonNoStore({ ok: true, version: Number(written?.[0]?.version ?? 0) }, 200);
+  } catch (e) {
+    console.error("PATCH /api/appointments exception:", e);
+    return jsonNoStore({ error: "Exception while patching" }, 500);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// POST /api/appointments  (DANGEROUS BULK OVERWRITE)
+// Protected: old clients can't wipe the table.
+// Two steps:
+//  1. { _dangerouslyOverwriteAll: true, barber: "bushi", store: { ...fullStore }, dryRun: true }
+//     -> { diff: { added, changed, removed }, confirmToken }
+//  2. the same body without dryRun, plus the confirmToken
+//     -> { ok: true, snapshotId, diff }
+// The token only matches that exact store, the barber's calendar as it was at
+// the dry run, and this session; it expires after CONFIRM_TTL_SECONDS. If the
+// calendar changed in between (someone booked meanwhile) the commit is refused
+// with 409 and the client has to dry-run again.
+// Only the given barber's calendar is replaced (omitted barber = default
+// barber), all-or-nothing, after a "pre_overwrite" snapshot.
+// -----------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  try {
+    const body = await req.json().catch(() => null);
+
+    if (!body || typeof body !== "object") {
+      return jsonNoStore({ error: "Invalid payload" }, 400);
+    }
+
+    const allow = (body as any)._dangerouslyOverwriteAll === true;
+    const store = (body as any).store as Store | undefined;
+
+    if (!allow || !store || typeof store !== "object") {
+      return jsonNoStore(
+        {
+          error: "Bulk overwrite is disabled. Use PATCH for single-slot updates.",
+        },
+        400
+      );
+    }
+
+    const barber = await resolveBarberId((body as any).barber);
+    if (!barber) {
+      return jsonNoStore({ error: "Unknown barber" }, 400);
+    }
+
+    const incoming: Store = {};
+    for (const day of Object.keys(store)) {
+      if (!DAY_RE.test(day)) continue;
+      const slots = store[day];
+      if (!slots || typeof slots !== "object") continue;
+
+      for (const time of Object.keys(slots)) {
+        if (!TIME_RE.test(time)) continue;
+        // Accepts both records and legacy bare-name strings
+        const appt = toAppointment(slots[time]);
+        if (!appt) continue;
+        if (!incoming[day]) incoming[day] = {};
+        incoming[day][time] = appt;
+      }
+    }
+
+    const scope = { barber, days: null };
+    const { calendars: current, error: loadErr } = await loadCalendars(scope);
+    if (loadErr || !current) {
+      console.error("POST overwrite load error:", loadErr);
+      return jsonNoStore({ error: "Failed to read existing data" }, 500);
+    }
+
+    const next = { [barber]: incoming };
+    const diff = diffStores(current, next);
+    const action = [
+      "overwrite",
+      readSession(req)?.sid ?? "",
+      barber,
+      digestCalendars(current),
+      digestCalendars(next),
+    ].join(":");
+
+    if ((body as any).dryRun === true) {
+      return jsonNoStore({ diff, confirmToken: createActionToken(action, CONFIRM_TTL_SECONDS) }, 200);
+    }
+
+    if (!verifyActionToken((body as any).confirmToken, action)) {
+      return jsonNoStore(
+        { error: "Calendar changed since the dry run (or the confirmation expired). Run the dry run again.", diff },
+        409
+      );
+    }
+
+    // Pre-image, restorable from /api/snapshots
+    const pre = await takeSnapshot("pre_overwrite", `Before bulk overwrite of ${barber}`);
+    if (pre.error) {
+      console.error("POST overwrite snapshot error:", pre.error);
+      return jsonNoStore({ error: "Failed to snapshot existing data" }, 500);
+    }
+
+    // One transaction: a failed insert leaves the old calendar in place
+    const { error: replaceErr } = await replaceAppointments(scope, next);
+    if (replaceErr?.code === PG_EXCLUSION_VIOLATION) {
+      return jsonNoStore({ error: "Bookings in the import overlap each other" }, 409);
+    }
+    if (replaceErr) {
+      console.error("POST overwrite replace error:", replaceErr);
+      return jsonNoStore({ error: "Failed to overwrite, nothing was changed" }, 500);
+    }
+
+    const changes = ([] as SlotChange[]).concat(diff.added, diff.changed, diff.removed);
+    await recordHistory(
+      actorFrom(req),
+      changes.map((c) => ({ barber: c.barber, day: c.day, time: c.time, action: "overwrite", old: c.before, new: c.after }))
+    );
+
+    return jsonNoStore({ ok: true, snapshotId: pre.id, diff }, 200);
+  } catch (e) {
+    console.error("POST /api/appointments exception:", e);
+    return jsonNoStore({ error: "Exception while overwriting" }, 500);
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import { jsonNoStore } from "../../../lib/http";
+import {
+  activeSession,
+  clearPinFailures,
+  clearSessionCookie,
+  clientKey,
+  createSessionToken,
+  lockoutRemaining,
+  pinMatches,
+  readSession,
+  revokeSession,
+  setSessionCookie,
+  takePinAttempt,
+} from "../../../lib/auth";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// -----------------------------------------------------------------------------
+// GET /api/auth  -> { authenticated: boolean, expiresAt: number | null }
+// expiresAt (unix seconds) bounds how long the app may start offline
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const session = await activeSession(req);
+  return jsonNoStore({ authenticated: !!session, expiresAt: session?.exp ?? null }, 200);
+}
+
+// -----------------------------------------------------------------------------
+// POST /api/auth  (login)
+// Body: { pin: "1234" }
+//  200 { ok: true, expiresAt }            + session cookie
+//  401 { error, attemptsLeft }
+//  429 { error, retryAfter }              (locked out)
+// -----------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const pin = typeof (body as any)?.pin === "string" ? ((body as any).pin as string).trim() : "";
+
+    if (!pin) {
+      return jsonNoStore({ error: "Missing pin" }, 400);
+    }
+
+    const key = clientKey(req);
+
+    const attemptsLeft = await takePinAttempt(key);
+    if (attemptsLeft < 0) {
+      return jsonNoStore({ error: "Too many attempts", retryAfter: await lockoutRemaining(key) }, 429);
+    }
+
+    if (!pinMatches(pin)) {
+      if (attemptsLeft === 0) {
+        return jsonNoStore({ error: "Too many attempts", retryAfter: await lockoutRemaining(key) }, 429);
+      }
+      return jsonNoStore({ error: "Wrong PIN", attemptsLeft }, 401);
+    }
+
+    await clearPinFailures(key);
+
+    const { token, session } = createSessionToken();
+    const res = jsonNoStore({ ok: true, expiresAt: session.exp }, 200);
+    setSessionCookie(res, token);
+    return res;
+  } catch (e) {
+    console.error("POST /api/auth exception:", e);
+    return jsonNoStore({ error: "Exception while logging in" }, 500);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE /api/auth  (logout)
+// The session is revoked server-side, so a copy of the cookie stops working too.
+//  500 { error } if it couldn't be revoked (the cookie is cleared anyway)
+// -----------------------------------------------------------------------------
+export async function DELETE(req: NextRequest) {
+  const session = readSession(req);
+  const revoked = session ? await revokeSession(session) : true;
+  const res = revoked ? jsonNoStore({ ok: true }, 200) : jsonNoStore({ error: "Failed to revoke session" }, 500);
+  clearSessionCookie(res);
+  return res;
+}
@@ -0,0 +1,244 @@
+import { NextRequest } from "next/server";
+import { supabase } from "../../../lib/db";
+import { jsonNoStore } from "../../../lib/http";
+import { clientKey } from "../../../lib/auth";
+import { BARBER_RE, listBarbers } from "../../../lib/barbers";
+import { APPOINTMENT_COLUMNS, Appointment, appointmentToRow, toAppointment, timeToMinutes } from "../../../lib/appointments";
+import { ShopSchedule, addDaysISO, freeSlots, zonedNow } from "../../../lib/schedule";
+import { SHOP_TIME_ZONE, loadSchedule } from "../../../lib/settings";
+import { hitRateLimit } from "../../../lib/rateLimit";
+import { actorFrom, recordHistory } from "../../../lib/history";
+import { findOrCreateClientByPhone } from "../../../lib/clients";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Public (no session): clients book themselves from /book.
+// Never return anything but free times — other clients' names/phones stay private.
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}$/;
+const PHONE_RE = /^\+?[0-9 ()\/-]{6,20}$/;
+
+const DAYS_AHEAD = 30;
+// Same-day bookings must leave the shop some notice
+const LEAD_MINUTES = 30;
+
+// Per client IP and per phone number
+const BOOKINGS_PER_IP = { windowSeconds: 3600, max: 5 };
+const BOOKINGS_PER_PHONE = { windowSeconds: 86400, max: 3 };
+
+const PG_UNIQUE_VIOLATION = "23505";
+const PG_EXCLUSION_VIOLATION = "23P01";
+
+type DayMap = Record<string, Record<string, Appointment>>;
+
+// barber -> day -> time -> appointment, for [from, to]
+async function loadRange(from: string, to: string) {
+  const out: Record<string, DayMap> = {};
+  const PAGE = 1000;
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from("appointments")
+      .select(`barber_id,day,time,${APPOINTMENT_COLUMNS}`)
+      .gte("day", from)
+      .lte("day", to)
+      .order("barber_id", { ascending: true })
+      .order("day", { ascending: true })
+      .order("time", { ascending: true })
+      .range(offset, offset + PAGE - 1);
+
+    if (error) return { byBarber: null, error };
+
+    const rows = (data || []) as any[];
+    for (const row of rows) {
+      const appt = toAppointment(row);
+      if (!appt || !row.barber_id || !row.day || !row.time) continue;
+      if (!out[row.barber_id]) out[row.barber_id] = {};
+      const days = out[row.barber_id];
+      if (!days[row.day]) days[row.day] = {};
+      days[row.day][row.time] = appt;
+    }
+
+    if (rows.length < PAGE) break;
+    offset += PAGE;
+    if (offset > 50000) break;
+  }
+  return { byBarber: out, error: null };
+}
+
+// Free start times for one barber/day, minus the ones already too close to now
+function bookableTimes(schedule: ShopSchedule, dayISO: string, day: Record<string, Appointment> | undefined) {
+  const now = zonedNow(SHOP_TIME_ZONE);
+  if (dayISO < now.dayISO) return [];
+  const times = freeSlots(schedule, dayISO, day);
+  if (dayISO > now.dayISO) return times;
+  return times.filter((t) => timeToMinutes(t) >= now.minutes + LEAD_MINUTES);
+}
+
+// -----------------------------------------------------------------------------
+// GET /api/book?from=2026-03-06
+// Returns free start times for the next DAYS_AHEAD days:
+//   { barbers: [{ id, name }], slotMinutes: 30, today: "2026-03-06",
+//     free: { "<barberId>": { "2026-03-06": ["10:00", "10:30"] } } }
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  try {
+    const today = zonedNow(SHOP_TIME_ZONE).dayISO;
+    const fromParam = req.nextUrl.searchParams.get("from") || "";
+    const from = DAY_RE.test(fromParam) && fromParam > today ? fromParam : today;
+    const last = addDaysISO(today, DAYS_AHEAD - 1);
+    if (from > last) {
+      return jsonNoStore({ error: "Too far ahead" }, 400);
+    }
+
+    const [barbers, { schedule }, range] = await Promise.all([listBarbers(), loadSchedule(), loadRange(from, last)]);
+    if (!schedule) {
+      return jsonNoStore({ error: "Failed to load opening hours" }, 503);
+    }
+    if (range.error) {
+      console.error("GET /api/book error:", range.error);
+      return jsonNoStore({ error: "Failed to load availability" }, 500);
+    }
+
+    const free: Record<string, Record<string, string[]>> = {};
+    for (const b of barbers) {
+      const days: Record<string, string[]> = {};
+      for (let d = from; d <= last; d = addDaysISO(d, 1)) {
+        const times = bookableTimes(schedule, d, range.byBarber?.[b.id]?.[d]);
+        if (times.length) days[d] = times;
+      }
+      free[b.id] = days;
+    }
+
+    return jsonNoStore({ barbers, slotMinutes: schedule.slotMinutes, today, free }, 200);
+  } catch (e) {
+    console.error("GET /api/book exception:", e);
+    return jsonNoStore({ error: "Exception while loading availability" }, 500);
+  }
+}
+
+// Claims one slot. The DB does the race handling: the unique (barber_id,day,time)
+// index and the appointments_no_overlap constraint reject a slot someone else
+// took after our availability check. A cancelled record at the same time is
+// only overwritten while it is still cancelled.
+async function claimSlot(barber: string, day: string, time: string, appt: Appointment) {
+  const row = { barber_id: barber, day, time, ...appointmentToRow(appt) };
+
+  const { error: insErr } = await supabase.from("appointments").insert([row]);
+  if (!insErr) return { ok: true, error: null };
+  if (insErr.code === PG_EXCLUSION_VIOLATION) return { ok: false, error: null };
+  if (insErr.code !== PG_UNIQUE_VIOLATION) return { ok: false, error: insErr };
+
+  const { data, error: updErr } = await supabase
+    .from("appointments")
+    .update(row)
+    .eq("barber_id", barber)
+    .eq("day", day)
+    .eq("time", time)
+    .eq("status", "cancelled")
+    .select("time");
+
+  if (updErr?.code === PG_EXCLUSION_VIOLATION) return { ok: false, error: null };
+  if (updErr) return { ok: false, error: updErr };
+  return { ok: (data || []).length > 0, error: null };
+}
+
+// -----------------------------------------------------------------------------
+// POST /api/book
+// Body: { barber?: "bushi", day: "2026-03-06", time: "10:30", name: "Ivan", phone: "0888..." }
+// Omitted barber = first barber free at that time.
+//  200 { ok: true, barber, day, time }
+//  409 { error } slot no longer free   429 { error } too many bookings
+// -----------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return jsonNoStore({ error: "Invalid payload" }, 400);
+    }
+
+    const day = (body as any).day as string;
+    const time = (body as any).time as string;
+    const phone = typeof (body as any).phone === "string" ? ((body as any).phone as string).trim() : "";
+    const barberParam = (body as any).barber;
+
+    if (typeof day !== "string" || typeof time !== "string" || !DAY_RE.test(day) || !TIME_RE.test(time)) {
+      return jsonNoStore({ error: "Invalid day/time format" }, 400);
+    }
+    // Same horizon GET offers
+    if (day > addDaysISO(zonedNow(SHOP_TIME_ZONE).dayISO, DAYS_AHEAD - 1)) {
+      return jsonNoStore({ error: "Too far ahead" }, 400);
+    }
+    if (barberParam != null && barberParam !== "" && (typeof barberParam !== "string" || !BARBER_RE.test(barberParam))) {
+      return jsonNoStore({ error: "Invalid barber" }, 400);
+    }
+    if (!PHONE_RE.test(phone)) {
+      return jsonNoStore({ error: "Invalid phone" }, 400);
+    }
+
+    const { schedule } = await loadSchedule();
+    if (!schedule) {
+      return jsonNoStore({ error: "Failed to load opening hours" }, 503);
+    }
+    const appt = toAppointment({ name: (body as any).name, phone, duration: schedule.slotMinutes, source: "online" });
+    if (!appt) {
+      return jsonNoStore({ error: "Missing name" }, 400);
+    }
+
+    const withinIp = await hitRateLimit(`book:${clientKey(req)}`, BOOKINGS_PER_IP.windowSeconds, BOOKINGS_PER_IP.max);
+    const withinPhone = await hitRateLimit(
+      `book:phone:${phone.replace(/\D/g, "")}`,
+      BOOKINGS_PER_PHONE.windowSeconds,
+      BOOKINGS_PER_PHONE.max
+    );
+    if (!withinIp || !withinPhone) {
+      return jsonNoStore({ error: "Too many bookings" }, 429);
+    }
+
+    const barbers = await listBarbers();
+    const candidates = barberParam ? barbers.filter((b) => b.id === barberParam) : barbers;
+    if (candidates.length === 0) {
+      return jsonNoStore({ error: "Invalid barber" }, 400);
+    }
+
+    const range = await loadRange(day, day);
+    if (range.error) {
+      console.error("POST /api/book load error:", range.error);
+      return jsonNoStore({ error: "Failed to check availability" }, 500);
+    }
+
+    let linked = false;
+    for (const b of candidates) {
+      if (!bookableTimes(schedule, day, range.byBarber?.[b.id]?.[day]).includes(time)) continue;
+
+      // Same phone and name = same person in the client directory. Only looked
+      // up once a slot looks free; a failed lookup still books, just unlinked.
+      if (!linked) {
+        linked = true;
+        const { client, error: clientErr } = await findOrCreateClientByPhone(appt.name, phone);
+        if (clientErr) console.error("POST /api/book client error:", clientErr);
+        if (client) appt.clientId = client.id;
+      }
+
+      const { ok, error } = await claimSlot(b.id, day, time, appt);
+      if (error) {
+        console.error("POST /api/book insert error:", error);
+        return jsonNoStore({ error: "Failed to book" }, 500);
+      }
+      if (ok) {
+        // A cancelled record at that time was replaced
+        const old = range.byBarber?.[b.id]?.[day]?.[time] ?? null;
+        await recordHistory(actorFrom(req), [{ barber: b.id, day, time, action: "book", old, new: appt }]);
+        return jsonNoStore({ ok: true, barber: b.id, day, time }, 200);
+      }
+    }
+
+    return jsonNoStore({ error: "Slot no longer available" }, 409);
+  } catch (e) {
+    console.error("POST /api/book exception:", e);
+    return jsonNoStore({ error: "Exception while booking" }, 500);
+  }
+}
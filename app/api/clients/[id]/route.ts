@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server";
+import { jsonNoStore } from "../../../../lib/http";
+import { requireSession } from "../../../../lib/auth";
+import { clientStats, getClient, loadClientVisits, toClientFields, updateClient } from "../../../../lib/clients";
+import { zonedNow } from "../../../../lib/schedule";
+import { SHOP_TIME_ZONE } from "../../../../lib/settings";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Params = { params: { id: string } };
+
+const toId = (raw: string) => (/^\d+$/.test(raw) ? Number(raw) : null);
+
+// -----------------------------------------------------------------------------
+// GET /api/clients/:id
+// Profile: the client, every linked booking (oldest first) and stats:
+//   { client: { id, name, phone, notes, preferredBarber },
+//     visits: [{ barber, day, time, appointment }],
+//     stats: { visits, upcoming, noShows, cancelled, lastVisit, avgIntervalDays },
+//     today: "2026-03-06" }
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest, { params }: Params) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const id = toId(params.id);
+  if (id == null) return jsonNoStore({ error: "Invalid client id" }, 400);
+
+  const [{ client, error }, { visits, error: visitsErr }] = await Promise.all([getClient(id), loadClientVisits(id)]);
+  if (error || visitsErr) {
+    console.error("GET /api/clients/:id error:", error || visitsErr);
+    return jsonNoStore({ error: "Failed to load client" }, 500);
+  }
+  if (!client) return jsonNoStore({ error: "Client not found" }, 404);
+
+  const today = zonedNow(SHOP_TIME_ZONE).dayISO;
+  return jsonNoStore({ client, visits, stats: clientStats(visits || [], today), today }, 200);
+}
+
+// -----------------------------------------------------------------------------
+// PATCH /api/clients/:id
+// Body: any of { name, phone, notes, preferredBarber } (null/"" clears the optional ones)
+//  200 { ok: true, client }   404 unknown client
+// Bookings keep the name/phone they were made with.
+// -----------------------------------------------------------------------------
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const id = toId(params.id);
+  if (id == null) return jsonNoStore({ error: "Invalid client id" }, 400);
+
+  const body = await req.json().catch(() => null);
+  const fields = toClientFields(body, false);
+  if (!fields || Object.keys(fields).length === 0) return jsonNoStore({ error: "Invalid client" }, 400);
+
+  const { client, error } = await updateClient(id, fields);
+  if (error) {
+    console.error("PATCH /api/clients/:id error:", error);
+    if (error.code === "23503") return jsonNoStore({ error: "Invalid barber" }, 400);
+    return jsonNoStore({ error: "Failed to save client" }, 500);
+  }
+  if (!client) return jsonNoStore({ error: "Client not found" }, 404);
+  return jsonNoStore({ ok: true, client }, 200);
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from "next/server";
+import { jsonNoStore } from "../../../lib/http";
+import { requireSession } from "../../../lib/auth";
+import { insertClient, searchClients, toClientFields } from "../../../lib/clients";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const MAX_LIMIT = 50;
+
+// -----------------------------------------------------------------------------
+// GET /api/clients?q=iva&limit=10
+// Autocomplete / directory search by name or phone digits, most recently updated first:
+//   { clients: [{ id, name, phone, notes, preferredBarber }] }
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const params = req.nextUrl.searchParams;
+  const limitParam = Number(params.get("limit") || 10);
+  const limit = Number.isInteger(limitParam) ? Math.min(MAX_LIMIT, Math.max(1, limitParam)) : 10;
+
+  const { clients, error } = await searchClients(params.get("q") || "", limit);
+  if (error) {
+    console.error("GET /api/clients error:", error);
+    return jsonNoStore({ error: "Failed to search clients" }, 500);
+  }
+  return jsonNoStore({ clients }, 200);
+}
+
+// -----------------------------------------------------------------------------
+// POST /api/clients
+// Body: { name: "Ivan Petrov", phone?: "0888...", notes?: "...", preferredBarber?: "bushi" }
+//  200 { ok: true, client }
+// -----------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => null);
+  const fields = toClientFields(body, true);
+  if (!fields) return jsonNoStore({ error: "Invalid client" }, 400);
+
+  const { client, error } = await insertClient(fields);
+  if (error || !client) {
+    console.error("POST /api/clients error:", error);
+    // unknown preferred barber
+    if (error?.code === "23503") return jsonNoStore({ error: "Invalid barber" }, 400);
+    return jsonNoStore({ error: "Failed to save client" }, 500);
+  }
+  return jsonNoStore({ ok: true, client }, 200);
+}
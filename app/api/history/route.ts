@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { supabase } from "../../../lib/db";
+import { jsonNoStore } from "../../../lib/http";
+import { readSession, requireSession } from "../../../lib/auth";
+import { BARBER_RE } from "../../../lib/barbers";
+import { HistoryEntry, toHistoryEntry } from "../../../lib/history";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}$/;
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// -----------------------------------------------------------------------------
+// GET /api/history?day=2026-03-06[&time=10:30][&barber=bushi][&limit=200]
+// GET /api/history?client=12[&limit=200]   everything a directory client was part of
+// Newest first:
+//   { entries: [{ id, barber, day, time, action, old, new, at, device, mine }] }
+// action: "set" | "clear" | "overwrite" (bulk POST) | "book" (public /book) | "restore" (snapshot)
+//         | "move" (drag-and-drop; one entry for each of the two slots)
+// old/new are appointment records, null = empty slot.
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const params = req.nextUrl.searchParams;
+  const day = params.get("day") || "";
+  const client = params.get("client");
+  const time = params.get("time");
+  const barber = params.get("barber");
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(params.get("limit")) || DEFAULT_LIMIT));
+
+  if (client != null && !/^\d+$/.test(client)) {
+    return jsonNoStore({ error: "Invalid client" }, 400);
+  }
+  if ((client == null && !DAY_RE.test(day)) || (day && !DAY_RE.test(day)) || (time != null && !TIME_RE.test(time))) {
+    return jsonNoStore({ error: "Invalid day/time format" }, 400);
+  }
+  if (barber != null && !BARBER_RE.test(barber)) {
+    return jsonNoStore({ error: "Invalid barber" }, 400);
+  }
+
+  try {
+    let q = supabase
+      .from("appointment_history")
+      .select("id,barber_id,day,time,action,old_value,new_value,session_id,device,created_at");
+    if (day) q = q.eq("day", day);
+    // old/new hold Appointment records, so the link is the clientId key
+    if (client) q = q.or(`old_value->>clientId.eq.${client},new_value->>clientId.eq.${client}`);
+    if (time) q = q.eq("time", time);
+    if (barber) q = q.eq("barber_id", barber);
+
+    const { data, error } = await q.order("id", { ascending: false }).limit(limit);
+
+    if (error) {
+      console.error("GET /api/history error:", error);
+      return jsonNoStore({ error: "Failed to load history" }, 500);
+    }
+
+    const sid = readSession(req)?.sid ?? null;
+    const entries = ((data || []) as any[])
+      .map((row) => toHistoryEntry(row, sid))
+      .filter((e): e is HistoryEntry => !!e);
+
+    return jsonNoStore({ entries }, 200);
+  } catch (e) {
+    console.error("GET /api/history exception:", e);
+    return jsonNoStore({ error: "Exception while loading history" }, 500);
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import { jsonNoStore } from "../../../lib/http";
+import { requireSession } from "../../../lib/auth";
+import { toSchedule } from "../../../lib/schedule";
+import { loadSchedule, saveSchedule } from "../../../lib/settings";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// -----------------------------------------------------------------------------
+// GET /api/schedule  -> { schedule: ShopSchedule }
+// Falls back to the built-in default (08–22 every day, 30 min) if none is saved;
+// 503 if the saved one can't be read.
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  try {
+    const { schedule } = await loadSchedule();
+    if (!schedule) return jsonNoStore({ error: "Failed to load opening hours" }, 503);
+    return jsonNoStore({ schedule }, 200);
+  } catch (e) {
+    console.error("GET /api/schedule exception:", e);
+    return jsonNoStore({ error: "Exception while loading schedule" }, 500);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// PUT /api/schedule
+// Body: { schedule: { slotMinutes: 30,
+//                     weekly: [{ open: "09:00", close: "19:00", breaks: [{ start: "13:00", end: "14:00" }] }, ..., null],
+//                     closedDates: ["2026-12-25"] } }
+// `weekly` has 7 entries, Monday first; null = closed.
+// -----------------------------------------------------------------------------
+export async function PUT(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  try {
+    const body = await req.json().catch(() => null);
+    const schedule = toSchedule((body as any)?.schedule);
+
+    if (!schedule) {
+      return jsonNoStore({ error: "Invalid schedule" }, 400);
+    }
+
+    const { error } = await saveSchedule(schedule);
+    if (error) {
+      console.error("PUT /api/schedule error:", error);
+      return jsonNoStore({ error: "Failed to save schedule" }, 500);
+    }
+
+    return jsonNoStore({ ok: true, schedule }, 200);
+  } catch (e) {
+    console.error("PUT /api/schedule exception:", e);
+    return jsonNoStore({ error: "Exception while saving schedule" }, 500);
+  }
+}
@@ -0,0 +1,199 @@
+import { NextRequest } from "next/server";
+import { supabase } from "../../../../lib/db";
+import { jsonNoStore } from "../../../../lib/http";
+import { requireSession } from "../../../../lib/auth";
+import { Appointment, appointmentRange, appointmentToRow, findOverlap, isBooked, toAppointment } from "../../../../lib/appointments";
+import { isWithinHours } from "../../../../lib/schedule";
+import { loadSchedule } from "../../../../lib/settings";
+import { actorFrom, recordHistory } from "../../../../lib/history";
+import { getSeries, loadBarberDays, loadOccurrences } from "../../../../lib/series";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Params = { params: { id: string } };
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const toId = (raw: string) => (/^\d+$/.test(raw) ? Number(raw) : null);
+
+// -----------------------------------------------------------------------------
+// GET /api/series/:id
+//   { series: { id, barber, time, startDay, freq, every, until, count },
+//     occurrences: [{ barber, day, time, version, appointment }] }   oldest first
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest, { params }: Params) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const id = toId(params.id);
+  if (id == null) return jsonNoStore({ error: "Invalid series id" }, 400);
+
+  const [{ series, error }, { occurrences, error: occErr }] = await Promise.all([getSeries(id), loadOccurrences(id, null)]);
+  if (error || occErr) {
+    console.error("GET /api/series/:id error:", error || occErr);
+    return jsonNoStore({ error: "Failed to load series" }, 500);
+  }
+  if (!series) return jsonNoStore({ error: "Series not found" }, 404);
+  return jsonNoStore({ series, occurrences }, 200);
+}
+
+// -----------------------------------------------------------------------------
+// PATCH /api/series/:id
+// Edits the whole series from one occurrence on:
+//  { from: "2026-03-20", name, phone, service, price, notes, duration, clientId }
+// Replaces those fields on every occurrence on or after `from`; each
+// occurrence keeps its own status. A longer duration that would overlap
+// another booking (or run past closing), or an occurrence edited since it was
+// read, changes nothing (one transaction, migration 019):
+//  409 { error, conflicts: [{ day, time, name?, reason? }] }
+//  200 { ok: true, updated: [{ barber, day, version }] }
+// Single occurrences are edited through PATCH /api/appointments.
+// -----------------------------------------------------------------------------
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const id = toId(params.id);
+  if (id == null) return jsonNoStore({ error: "Invalid series id" }, 400);
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return jsonNoStore({ error: "Invalid payload" }, 400);
+    }
+
+    const from = (body as any).from;
+    if (typeof from !== "string" || !DAY_RE.test(from)) {
+      return jsonNoStore({ error: "Invalid from day" }, 400);
+    }
+    const fields = toAppointment(body);
+    if (!fields) {
+      return jsonNoStore({ error: "Missing name" }, 400);
+    }
+
+    const { occurrences, error: occErr } = await loadOccurrences(id, from);
+    if (occErr || !occurrences) {
+      console.error("PATCH /api/series/:id load error:", occErr);
+      return jsonNoStore({ error: "Failed to load series" }, 500);
+    }
+    if (occurrences.length === 0) {
+      return jsonNoStore({ ok: true, updated: [] }, 200);
+    }
+
+    // An occurrence moved to another barber is checked against that barber's day
+    const barbers = Array.from(new Set(occurrences.map((o) => o.barber)));
+    const [{ schedule }, loaded] = await Promise.all([
+      loadSchedule(),
+      Promise.all(barbers.map((b) => loadBarberDays(b, occurrences.filter((o) => o.barber === b).map((o) => o.day)))),
+    ]);
+    if (!schedule) {
+      return jsonNoStore({ error: "Failed to load opening hours" }, 503);
+    }
+    const daysByBarber: Record<string, Record<string, Record<string, Appointment>>> = {};
+    for (let i = 0; i < barbers.length; i++) {
+      const { days, error: daysErr } = loaded[i];
+      if (daysErr || !days) {
+        console.error("PATCH /api/series/:id load days error:", daysErr);
+        return jsonNoStore({ error: "Failed to load calendar" }, 500);
+      }
+      daysByBarber[barbers[i]] = days;
+    }
+
+    const conflicts: { day: string; time: string; name?: string }[] = [];
+    const next = occurrences.map((o) => {
+      const appt: Appointment = { ...fields, status: o.appointment.status, seriesId: id };
+      if (isBooked(appt) && appt.duration > o.appointment.duration) {
+        if (!isWithinHours(schedule, o.day, o.time, appt.duration)) conflicts.push({ day: o.day, time: o.time });
+        else {
+          const hit = findOverlap(daysByBarber[o.barber]?.[o.day], o.time, appointmentRange(o.time, appt));
+          if (hit) conflicts.push({ day: o.day, time: o.time, name: hit.appt.name });
+        }
+      }
+      return { ...o, next: appt };
+    });
+
+    if (conflicts.length > 0) {
+      return jsonNoStore({ error: "Longer duration does not fit every occurrence", conflicts }, 409);
+    }
+
+    // Each occurrence only if it still has the version read above
+    const { data: result, error: writeErr } = await supabase.rpc("update_series_occurrences", {
+      p_rows: next.map((o) => ({
+        row: { barber_id: o.barber, day: o.day, time: o.time, ...appointmentToRow(o.next) },
+        expected: o.version,
+      })),
+    });
+
+    if (writeErr) {
+      console.error("PATCH /api/series/:id write error:", writeErr);
+      return jsonNoStore({ error: "Failed to update series" }, 500);
+    }
+    const status = (result as any)?.status;
+    if (status === "conflict") {
+      return jsonNoStore({ error: "Calendar changed meanwhile, try again", conflicts: (result as any).conflicts ?? [] }, 409);
+    }
+    if (status === "unknown_client") {
+      return jsonNoStore({ error: "Unknown client" }, 400);
+    }
+
+    await recordHistory(
+      actorFrom(req),
+      next.map((o) => ({ barber: o.barber, day: o.day, time: o.time, action: "set", old: o.appointment, new: o.next }))
+    );
+
+    const updated = (((result as any).results || []) as any[]).map((r) => ({
+      barber: String(r.barber),
+      day: String(r.day),
+      version: Number(r.version ?? 0),
+    }));
+    return jsonNoStore({ ok: true, updated }, 200);
+  } catch (e) {
+    console.error("PATCH /api/series/:id exception:", e);
+    return jsonNoStore({ error: "Exception while updating series" }, 500);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// DELETE /api/series/:id?from=2026-03-20
+// Ends the series: removes every occurrence on or after `from` and moves the
+// series' end before it. Earlier occurrences stay as they are; from the first
+// day on, the series itself goes too.
+//  200 { ok: true, removed: [{ barber, day, time }] }
+// -----------------------------------------------------------------------------
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const id = toId(params.id);
+  if (id == null) return jsonNoStore({ error: "Invalid series id" }, 400);
+
+  const from = req.nextUrl.searchParams.get("from") || "";
+  if (!DAY_RE.test(from)) return jsonNoStore({ error: "Invalid from day" }, 400);
+
+  try {
+    // Occurrences and the series' end change in one transaction (migration 019)
+    const { data: result, error: endErr } = await supabase.rpc("end_appointment_series", { p_series: id, p_from: from });
+    if (endErr) {
+      console.error("DELETE /api/series/:id error:", endErr);
+      return jsonNoStore({ error: "Failed to remove occurrences" }, 500);
+    }
+    if ((result as any)?.status === "missing") return jsonNoStore({ error: "Series not found" }, 404);
+
+    const removed = (((result as any).removed || []) as any[]).map((row) => ({
+      barber: String(row.barber_id),
+      day: String(row.day),
+      time: String(row.time),
+      appointment: toAppointment(row),
+    }));
+    await recordHistory(
+      actorFrom(req),
+      removed.map((o) => ({ barber: o.barber, day: o.day, time: o.time, action: "clear", old: o.appointment, new: null }))
+    );
+
+    return jsonNoStore({ ok: true, removed: removed.map((o) => ({ barber: o.barber, day: o.day, time: o.time })) }, 200);
+  } catch (e) {
+    console.error("DELETE /api/series/:id exception:", e);
+    return jsonNoStore({ error: "Exception while ending series" }, 500);
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest } from "next/server";
+import { supabase } from "../../../lib/db";
+import { jsonNoStore } from "../../../lib/http";
+import { requireSession } from "../../../lib/auth";
+import { resolveBarberId } from "../../../lib/barbers";
+import { Appointment, appointmentRange, appointmentToRow, findOverlap, toAppointment } from "../../../lib/appointments";
+import { isWithinHours } from "../../../lib/schedule";
+import { loadSchedule } from "../../../lib/settings";
+import { actorFrom, recordHistory } from "../../../lib/history";
+import { expandRule, loadBarberDays, toRecurrenceRule, toSeries } from "../../../lib/series";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}$/;
+
+type Skipped = { day: string; reason: "closed" | "taken"; name?: string };
+
+// -----------------------------------------------------------------------------
+// POST /api/series
+// Creates a recurring booking and materializes its occurrences:
+//  { barber: "bushi", day: "2026-03-06", time: "10:30",
+//    rule: { freq: "weekly" | "monthly", every: 2, until: "2026-09-01" | count: 10 },
+//    name: "Ivan", phone, service, price, notes, duration, clientId }
+// `day` is the first occurrence; whatever its slot holds is replaced (that is
+// how an existing booking becomes a series). Later days whose slot is taken,
+// overlapping or outside opening hours are skipped, not overwritten.
+//  200 { ok: true, series, created: [{ day, version }], skipped: [{ day, reason, name? }] }
+//  409 { error, skipped } when no occurrence fits at all
+//  409 { error, days, skipped } when slots changed meanwhile (nothing is written)
+// Every occurrence is recorded in /api/history.
+// -----------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return jsonNoStore({ error: "Invalid payload" }, 400);
+    }
+
+    const day = (body as any).day as string;
+    const time = (body as any).time as string;
+    if (typeof day !== "string" || typeof time !== "string" || !DAY_RE.test(day) || !TIME_RE.test(time)) {
+      return jsonNoStore({ error: "Invalid day/time format" }, 400);
+    }
+
+    const rule = toRecurrenceRule((body as any).rule);
+    if (!rule || (rule.until && rule.until < day)) {
+      return jsonNoStore({ error: "Invalid recurrence rule" }, 400);
+    }
+
+    const barber = await resolveBarberId((body as any).barber);
+    if (!barber) {
+      return jsonNoStore({ error: "Unknown barber" }, 400);
+    }
+
+    const parsed = toAppointment(body);
+    if (!parsed) {
+      return jsonNoStore({ error: "Missing name" }, 400);
+    }
+    // Every occurrence starts out booked
+    const template: Appointment = { ...parsed, status: "booked" };
+
+    const days = expandRule(day, rule);
+    const [{ schedule }, { days: existing, versions, error: loadErr }] = await Promise.all([loadSchedule(), loadBarberDays(barber, days)]);
+    if (!schedule) {
+      return jsonNoStore({ error: "Failed to load opening hours" }, 503);
+    }
+    if (loadErr || !existing || !versions) {
+      console.error("POST /api/series load error:", loadErr);
+      return jsonNoStore({ error: "Failed to load calendar" }, 500);
+    }
+
+    const range = appointmentRange(time, template);
+    const planned: { day: string; prev: Appointment | null; version: number }[] = [];
+    const skipped: Skipped[] = [];
+
+    for (const d of days) {
+      const slots = existing[d];
+      const prev = slots?.[time] ?? null;
+      // Only the first day may replace what is there; anything else is someone's slot
+      if (d !== day && prev) {
+        skipped.push({ day: d, reason: "taken", name: prev.name });
+        continue;
+      }
+      if (!isWithinHours(schedule, d, time, template.duration)) {
+        skipped.push({ day: d, reason: "closed" });
+        continue;
+      }
+      const hit = findOverlap(slots, time, range);
+      if (hit) {
+        skipped.push({ day: d, reason: "taken", name: hit.appt.name });
+        continue;
+      }
+      planned.push({ day: d, prev, version: prev ? versions[d]?.[time] ?? 0 : 0 });
+    }
+
+    if (planned.length === 0) {
+      return jsonNoStore({ error: "No occurrence fits", skipped }, 409);
+    }
+
+    // One transaction (migration 019): the series and every occurrence land, or
+    // nothing does; a slot that changed since the checks above refuses it all
+    const { data: result, error: writeErr } = await supabase.rpc("create_appointment_series", {
+      p_series: {
+        barber_id: barber,
+        time,
+        start_day: day,
+        freq: rule.freq,
+        every: rule.every,
+        until_day: rule.until ?? days[days.length - 1],
+        occurrences: rule.count,
+      },
+      p_rows: planned.map((p) => ({
+        row: { barber_id: barber, day: p.day, time, ...appointmentToRow(template) },
+        expected: p.version,
+      })),
+    });
+
+    if (writeErr) {
+      console.error("POST /api/series write error:", writeErr);
+      return jsonNoStore({ error: "Failed to create series" }, 500);
+    }
+    const status = (result as any)?.status;
+    if (status === "taken") {
+      return jsonNoStore({ error: "Calendar changed meanwhile, try again", days: (result as any).days ?? [], skipped }, 409);
+    }
+    if (status === "unknown_client") {
+      return jsonNoStore({ error: "Unknown client" }, 400);
+    }
+
+    const series = toSeries((result as any).series);
+    const appt: Appointment = { ...template, seriesId: series.id };
+
+    await recordHistory(
+      actorFrom(req),
+      planned.map((p) => ({ barber, day: p.day, time, action: "set", old: p.prev, new: appt }))
+    );
+
+    const created = (((result as any).results || []) as any[])
+      .map((r) => ({ day: String(r.day), version: Number(r.version ?? 0) }))
+      .sort((a, b) => a.day.localeCompare(b.day));
+    return jsonNoStore({ ok: true, series, created, skipped }, 200);
+  } catch (e) {
+    console.error("POST /api/series exception:", e);
+    return jsonNoStore({ error: "Exception while creating series" }, 500);
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { jsonNoStore } from "../../../../lib/http";
+import { CONFIRM_TTL_SECONDS, createActionToken, readSession, requireSession, verifyActionToken } from "../../../../lib/auth";
+import { BARBER_RE } from "../../../../lib/barbers";
+import { SlotChange, diffStores } from "../../../../lib/appointments";
+import { Scope, digestCalendars, loadCalendars, loadSnapshot, replaceAppointments, takeSnapshot } from "../../../../lib/snapshots";
+import { actorFrom, recordHistory } from "../../../../lib/history";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+type Params = { params: { id: string } };
+
+const toId = (raw: string) => (/^\d+$/.test(raw) ? Number(raw) : null);
+
+// -----------------------------------------------------------------------------
+// GET /api/snapshots/:id
+// Downloads the snapshot as a JSON file:
+//   { id, createdAt, kind, note, stores: { "<barberId>": { "2026-03-06": { "08:00": {...} } } } }
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest, { params }: Params) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const id = toId(params.id);
+  if (id == null) return jsonNoStore({ error: "Invalid snapshot id" }, 400);
+
+  const { info, calendars, error } = await loadSnapshot(id);
+  if (error) {
+    console.error("GET /api/snapshots/:id error:", error);
+    return jsonNoStore({ error: "Failed to load snapshot" }, 500);
+  }
+  if (!info) return jsonNoStore({ error: "Snapshot not found" }, 404);
+
+  const stamp = info.createdAt.slice(0, 16).replace(/[^0-9]/g, "");
+  return new NextResponse(JSON.stringify({ ...info, stores: calendars }, null, 2), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="bushi-snapshot-${info.id}-${stamp}.json"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+// -----------------------------------------------------------------------------
+// POST /api/snapshots/:id   (restore)
+// Body: { barber?: "bushi", days?: ["2026-03-06"], dryRun?: true, confirmToken? }
+// Omitted barber/days = every barber / every day.
+// Two steps, like the bulk overwrite in /api/appointments:
+//  1. dryRun only returns what would change, and a token to commit exactly that:
+//     { diff: { added: [...], changed: [...], removed: [...] }, confirmToken }
+//     (items: { barber, day, time, before, after })
+//  2. the same body without dryRun, plus the confirmToken. A "pre_restore"
+//     snapshot is taken first and the scope is replaced in one transaction:
+//     { ok: true, preRestoreId, diff }
+// The token matches this session, snapshot and scope, and the live calendar as
+// the preview saw it; it expires after CONFIRM_TTL_SECONDS. If the calendar
+// changed since, the commit is refused (409 { error, diff }) and the client
+// has to preview again.
+// -----------------------------------------------------------------------------
+export async function POST(req: NextRequest, { params }: Params) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const id = toId(params.id);
+  if (id == null) return jsonNoStore({ error: "Invalid snapshot id" }, 400);
+
+  try {
+    const body = (await req.json().catch(() => null)) || {};
+    const barber = (body as any).barber ?? null;
+    const days = (body as any).days ?? null;
+
+    if (barber !== null && (typeof barber !== "string" || !BARBER_RE.test(barber))) {
+      return jsonNoStore({ error: "Invalid barber" }, 400);
+    }
+    if (days !== null && (!Array.isArray(days) || days.length === 0 || !days.every((d) => typeof d === "string" && DAY_RE.test(d)))) {
+      return jsonNoStore({ error: "Invalid days" }, 400);
+    }
+    const scope: Scope = { barber, days };
+
+    const snap = await loadSnapshot(id, scope);
+    if (snap.error) {
+      console.error("POST /api/snapshots/:id load error:", snap.error);
+      return jsonNoStore({ error: "Failed to load snapshot" }, 500);
+    }
+    if (!snap.info || !snap.calendars) return jsonNoStore({ error: "Snapshot not found" }, 404);
+
+    const live = await loadCalendars(scope);
+    if (live.error || !live.calendars) {
+      console.error("POST /api/snapshots/:id current error:", live.error);
+      return jsonNoStore({ error: "Failed to read current data" }, 500);
+    }
+
+    const diff = diffStores(live.calendars, snap.calendars);
+    const action = [
+      "restore",
+      readSession(req)?.sid ?? "",
+      id,
+      barber ?? "*",
+      days ? [...days].sort().join(",") : "*",
+      digestCalendars(live.calendars),
+    ].join(":");
+
+    if ((body as any).dryRun === true) {
+      return jsonNoStore({ diff, confirmToken: createActionToken(action, CONFIRM_TTL_SECONDS) }, 200);
+    }
+
+    if (!verifyActionToken((body as any).confirmToken, action)) {
+      return jsonNoStore(
+        { error: "Calendar changed since the preview (or the confirmation expired). Preview again.", diff },
+        409
+      );
+    }
+
+    const pre = await takeSnapshot("pre_restore", `Before restoring #${id}`);
+    if (pre.error) {
+      console.error("POST /api/snapshots/:id pre-restore snapshot error:", pre.error);
+      return jsonNoStore({ error: "Failed to snapshot current data" }, 500);
+    }
+
+    const { error: replaceErr } = await replaceAppointments(scope, snap.calendars);
+    if (replaceErr) {
+      console.error("POST /api/snapshots/:id restore error:", replaceErr);
+      return jsonNoStore({ error: "Restore failed, nothing was changed" }, 500);
+    }
+
+    const changes = ([] as SlotChange[]).concat(diff.added, diff.changed, diff.removed);
+    await recordHistory(
+      actorFrom(req),
+      changes.map((c) => ({ barber: c.barber, day: c.day, time: c.time, action: "restore", old: c.before, new: c.after }))
+    );
+
+    return jsonNoStore({ ok: true, preRestoreId: pre.id, diff }, 200);
+  } catch (e) {
+    console.error("POST /api/snapshots/:id exception:", e);
+    return jsonNoStore({ error: "Exception while restoring" }, 500);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { jsonNoStore } from "../../../lib/http";
+import { requireSession } from "../../../lib/auth";
+import { listSnapshots, takeSnapshot } from "../../../lib/snapshots";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// -----------------------------------------------------------------------------
+// GET /api/snapshots
+// Newest first: { snapshots: [{ id, createdAt, kind, note, rows }] }
+// kind: "scheduled" (nightly pg_cron) | "manual" | "pre_restore" | "pre_overwrite" (bulk POST)
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const { snapshots, error } = await listSnapshots();
+  if (error) {
+    console.error("GET /api/snapshots error:", error);
+    return jsonNoStore({ error: "Failed to list snapshots" }, 500);
+  }
+  return jsonNoStore({ snapshots }, 200);
+}
+
+// -----------------------------------------------------------------------------
+// POST /api/snapshots   { note?: "before cleanup" }
+// Takes a manual snapshot now: { ok: true, id }
+// -----------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => null);
+  const note = typeof (body as any)?.note === "string" ? ((body as any).note as string).trim().slice(0, 200) : "";
+
+  const { id, error } = await takeSnapshot("manual", note);
+  if (error) {
+    console.error("POST /api/snapshots error:", error);
+    return jsonNoStore({ error: "Failed to take snapshot" }, 500);
+  }
+  return jsonNoStore({ ok: true, id }, 200);
+}
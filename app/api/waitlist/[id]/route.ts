@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { jsonNoStore } from "../../../../lib/http";
+import { requireSession } from "../../../../lib/auth";
+import { deleteWaitlistEntry } from "../../../../lib/waitlist";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Params = { params: { id: string } };
+
+const toId = (raw: string) => (/^\d+$/.test(raw) ? Number(raw) : null);
+
+// -----------------------------------------------------------------------------
+// DELETE /api/waitlist/:id   (the client got a slot, or no longer waits)
+//  200 { ok: true }   404 unknown entry
+// -----------------------------------------------------------------------------
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const id = toId(params.id);
+  if (id == null) return jsonNoStore({ error: "Invalid waitlist id" }, 400);
+
+  const { deleted, error } = await deleteWaitlistEntry(id);
+  if (error) {
+    console.error("DELETE /api/waitlist/:id error:", error);
+    return jsonNoStore({ error: "Failed to remove waitlist entry" }, 500);
+  }
+  if (!deleted) return jsonNoStore({ error: "Waitlist entry not found" }, 404);
+  return jsonNoStore({ ok: true }, 200);
+}
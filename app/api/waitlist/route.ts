@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { jsonNoStore } from "../../../lib/http";
+import { requireSession } from "../../../lib/auth";
+import { insertWaitlistEntry, listWaitlist, toWaitlistRow } from "../../../lib/waitlist";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Postgres foreign_key_violation (unknown barber / client)
+const PG_FOREIGN_KEY_VIOLATION = "23503";
+
+// -----------------------------------------------------------------------------
+// GET /api/waitlist[?from=YYYY-MM-DD&to=YYYY-MM-DD]
+// Oldest first within a day:
+//   { entries: [{ id, day, barber, name, phone, fromTime, toTime, notes, clientId, createdAt }] }
+// barber null = any barber; fromTime/toTime null = no preference on that side.
+// -----------------------------------------------------------------------------
+export async function GET(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const params = req.nextUrl.searchParams;
+  const from = params.get("from");
+  const to = params.get("to");
+  if ((from && !DAY_RE.test(from)) || (to && !DAY_RE.test(to))) {
+    return jsonNoStore({ error: "Invalid from/to format" }, 400);
+  }
+
+  const { entries, error } = await listWaitlist(from, to);
+  if (error) {
+    console.error("GET /api/waitlist error:", error);
+    return jsonNoStore({ error: "Failed to load waitlist" }, 500);
+  }
+  return jsonNoStore({ entries }, 200);
+}
+
+// -----------------------------------------------------------------------------
+// POST /api/waitlist
+// Body: { day: "2026-03-06", name: "Ivan", phone?, barber?: "bushi",
+//         fromTime?: "10:00", toTime?: "14:00", notes?, clientId? }
+//  200 { ok: true, entry }
+// -----------------------------------------------------------------------------
+export async function POST(req: NextRequest) {
+  const denied = await requireSession(req);
+  if (denied) return denied;
+
+  const body = await req.json().catch(() => null);
+  const row = toWaitlistRow(body);
+  if (!row) return jsonNoStore({ error: "Invalid waitlist entry" }, 400);
+
+  const { entry, error } = await insertWaitlistEntry(row);
+  if (error || !entry) {
+    console.error("POST /api/waitlist error:", error);
+    if (error?.code === PG_FOREIGN_KEY_VIOLATION) return jsonNoStore({ error: "Unknown barber or client" }, 400);
+    return jsonNoStore({ error: "Failed to save waitlist entry" }, 500);
+  }
+  return jsonNoStore({ ok: true, entry }, 200);
+}
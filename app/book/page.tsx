@@ -0,0 +1,297 @@
+'use client';
+// Bushi — public self-booking for clients (no PIN).
+// Shows only free start times from /api/book; staff see new bookings live in the admin calendar.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+const BOOK_ENDPOINT = '/api/book';
+
+const ANY_BARBER = '';
+
+const WEEKDAYS_SHORT = ['Пон', 'Вто', 'Сря', 'Чет', 'Пет', 'Съб', 'Нед'];
+const MONTHS_SHORT = ['яну', 'фев', 'мар', 'апр', 'май', 'юни', 'юли', 'авг', 'сеп', 'окт', 'ное', 'дек'];
+
+const FONT_TITLE = "'Bebas Neue', sans-serif";
+const FONT_BODY = "'Inter', sans-serif";
+
+type Barber = { id: string; name: string };
+
+type Availability = {
+  barbers: Barber[];
+  slotMinutes: number;
+  today: string;
+  // barberId -> day -> free start times
+  free: Record<string, Record<string, string[]>>;
+};
+
+type Booked = { barber: string; day: string; time: string };
+
+const dayParts = (dayISO: string) => {
+  const [y, m, d] = dayISO.split('-').map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return { weekday: WEEKDAYS_SHORT[(dt.getUTCDay() + 6) % 7], day: d, month: MONTHS_SHORT[m - 1] };
+};
+
+const formatDay = (dayISO: string) => {
+  const p = dayParts(dayISO);
+  return `${p.weekday}, ${p.day} ${p.month}`;
+};
+
+// Free times for the chosen barber, or the union over all barbers
+function timesFor(av: Availability, barber: string, day: string): string[] {
+  if (barber !== ANY_BARBER) return av.free[barber]?.[day] ?? [];
+  const all = new Set<string>();
+  for (const days of Object.values(av.free)) for (const t of days[day] ?? []) all.add(t);
+  return Array.from(all).sort();
+}
+
+export default function BookPage() {
+  const [availability, setAvailability] = useState<Availability | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [barber, setBarber] = useState<string>(ANY_BARBER);
+  const [day, setDay] = useState<string | null>(null);
+  const [time, setTime] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [booked, setBooked] = useState<Booked | null>(null);
+
+  useEffect(() => {
+    if (typeof document === 'undefined' || document.getElementById('bushi-fonts')) return;
+    const link = document.createElement('link');
+    link.id = 'bushi-fonts';
+    link.rel = 'stylesheet';
+    link.href = 'https://fonts.googleapis.com/css2?family=Bebas+Neue&family=Inter:wght@400;500;600&display=swap';
+    document.head.appendChild(link);
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(BOOK_ENDPOINT, { cache: 'no-store' });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = (await res.json()) as Availability;
+      setAvailability(data);
+      setLoadError('');
+    } catch {
+      setLoadError('Няма връзка. Опитайте отново.');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    // Slots get taken by phone bookings too; keep the list reasonably fresh
+    const id = window.setInterval(load, 60000);
+    const onFocus = () => load();
+    window.addEventListener('focus', onFocus);
+    return () => {
+      window.clearInterval(id);
+      window.removeEventListener('focus', onFocus);
+    };
+  }, [load]);
+
+  const days = useMemo(() => {
+    if (!availability) return [];
+    const set = new Set<string>();
+    for (const [id, byDay] of Object.entries(availability.free)) {
+      if (barber !== ANY_BARBER && id !== barber) continue;
+      for (const [d, times] of Object.entries(byDay)) if (times.length) set.add(d);
+    }
+    return Array.from(set).sort();
+  }, [availability, barber]);
+
+  const times = useMemo(
+    () => (availability && day ? timesFor(availability, barber, day) : []),
+    [availability, barber, day]
+  );
+
+  // Drop a selection that is no longer free after a refresh
+  useEffect(() => {
+    if (day && !days.includes(day)) setDay(null);
+  }, [days, day]);
+  useEffect(() => {
+    if (time && !times.includes(time)) setTime(null);
+  }, [times, time]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting || !day || !time) return;
+    if (!name.trim() || !phone.trim()) {
+      setError('Въведете име и телефон.');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const res = await fetch(BOOK_ENDPOINT, {
+        method: 'POST',
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ barber: barber || undefined, day, time, name: name.trim(), phone: phone.trim() }),
+      });
+      const data: any = await res.json().catch(() => null);
+
+      if (res.ok && data?.ok) {
+        setBooked({ barber: data.barber, day: data.day, time: data.time });
+      } else if (res.status === 409) {
+        setError('Този час току-що беше зает. Изберете друг.');
+        setTime(null);
+        load();
+      } else if (res.status === 429) {
+        setError('Твърде много резервации. Моля, обадете се по телефона.');
+      } else if (data?.error === 'Invalid phone') {
+        setError('Невалиден телефонен номер.');
+      } else {
+        setError('Грешка при записването. Опитайте отново.');
+      }
+    } catch {
+      setError('Няма връзка. Опитайте отново.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const barberName = (id: string) => availability?.barbers.find((b) => b.id === id)?.name ?? id;
+
+  const chip = (active: boolean) =>
+    `rounded-2xl border px-3 py-2 text-sm transition ${
+      active ? 'bg-white text-black border-white' : 'bg-neutral-900/80 border-white/12 text-white hover:border-white/50'
+    }`;
+
+  return (
+    <div className="min-h-screen bg-black text-white" style={{ fontFamily: FONT_BODY }}>
+      <div className="mx-auto w-[min(100%-32px,560px)] py-8 space-y-6">
+        <div className="flex flex-col items-center gap-2">
+          <img src="/bush.png" alt="Bushi logo" className="max-h-16 w-auto object-contain" />
+          <h1 className="text-3xl tracking-[0.12em]" style={{ fontFamily: FONT_TITLE }}>
+            Онлайн резервация
+          </h1>
+        </div>
+
+        {booked ? (
+          <div className="rounded-[28px] border border-white/10 bg-[rgba(8,8,8,0.9)] px-6 py-8 text-center space-y-3">
+            <div className="text-2xl" style={{ fontFamily: FONT_TITLE }}>
+              Записахме ви!
+            </div>
+            <div className="text-neutral-300">
+              {formatDay(booked.day)} · {booked.time}
+              {availability && availability.barbers.length > 1 && <> · {barberName(booked.barber)}</>}
+            </div>
+            <button
+              type="button"
+              className="mt-2 rounded-2xl border border-white/20 px-4 py-2 text-sm hover:border-white/60 transition"
+              onClick={() => {
+                setBooked(null);
+                setDay(null);
+                setTime(null);
+                load();
+              }}
+            >
+              Нова резервация
+            </button>
+          </div>
+        ) : !availability ? (
+          <div className="text-center text-sm text-neutral-400">{loadError || 'Зареждане…'}</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {availability.barbers.length > 1 && (
+              <section className="space-y-2">
+                <div className="text-xs uppercase tracking-[0.16em] text-neutral-400">Бръснар</div>
+                <div className="flex flex-wrap gap-2">
+                  <button type="button" className={chip(barber === ANY_BARBER)} onClick={() => setBarber(ANY_BARBER)}>
+                    Без значение
+                  </button>
+                  {availability.barbers.map((b) => (
+                    <button key={b.id} type="button" className={chip(barber === b.id)} onClick={() => setBarber(b.id)}>
+                      {b.name}
+                    </button>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section className="space-y-2">
+              <div className="text-xs uppercase tracking-[0.16em] text-neutral-400">Ден</div>
+              {days.length === 0 ? (
+                <div className="text-sm text-neutral-400">Няма свободни часове в следващите седмици.</div>
+              ) : (
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {days.map((d) => {
+                    const p = dayParts(d);
+                    return (
+                      <button
+                        key={d}
+                        type="button"
+                        className={`${chip(day === d)} shrink-0 flex flex-col items-center min-w-[64px]`}
+                        onClick={() => {
+                          setDay(d);
+                          setTime(null);
+                        }}
+                      >
+                        <span className="text-[11px] opacity-70">{p.weekday}</span>
+                        <span className="text-lg leading-tight">{p.day}</span>
+                        <span className="text-[11px] opacity-70">{p.month}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+
+            {day && (
+              <section className="space-y-2">
+                <div className="text-xs uppercase tracking-[0.16em] text-neutral-400">
+                  Час · {availability.slotMinutes} мин
+                </div>
+                <div className="grid grid-cols-4 sm:grid-cols-5 gap-2">
+                  {times.map((t) => (
+                    <button key={t} type="button" className={chip(time === t)} onClick={() => setTime(t)}>
+                      {t}
+                    </button>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {day && time && (
+              <section className="space-y-3">
+                <div className="text-sm text-neutral-300">
+                  {formatDay(day)} · {time}
+                </div>
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  autoComplete="name"
+                  maxLength={120}
+                  placeholder="Име"
+                  className="w-full rounded-2xl bg-neutral-900/80 border border-white/12 px-4 py-3 outline-none focus:border-white/70 transition"
+                />
+                <input
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  type="tel"
+                  inputMode="tel"
+                  autoComplete="tel"
+                  maxLength={20}
+                  placeholder="Телефон"
+                  className="w-full rounded-2xl bg-neutral-900/80 border border-white/12 px-4 py-3 outline-none focus:border-white/70 transition"
+                />
+                {error && <div className="text-xs text-red-400 text-center">{error}</div>}
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="w-full rounded-2xl bg-white text-black font-semibold py-2.5 text-sm tracking-[0.16em] uppercase hover:bg-neutral-200 transition disabled:opacity-60"
+                >
+                  Запази час
+                </button>
+              </section>
+            )}
+
+            {loadError && <div className="text-xs text-neutral-500 text-center">{loadError}</div>}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
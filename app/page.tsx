@@ -3,10 +3,44 @@
 // Stable Sync V1:
 // - Throttled + Debounced syncFromRemote (prevents GET spam)
 // - Pending write queue so polling/realtime cannot wipe optimistic edits
-// - Realtime updates applied locally, with a debounced confirm sync (no spam)
+// - Realtime signals (slot keys only) trigger a delta sync through the API
 
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { createClient as createSupabaseClient } from '@supabase/supabase-js';
+import {
+  APPOINTMENT_STATUSES,
+  Appointment,
+  AppointmentStatus,
+  MAX_DURATION,
+  findOverlap,
+  isBlock,
+  isBooked,
+  minutesToTime,
+  sameAppointment,
+  timeToMinutes,
+  toAppointment,
+} from '../lib/appointments';
+import {
+  DEFAULT_SCHEDULE,
+  DayHours,
+  SLOT_SIZES,
+  ShopSchedule,
+  addDaysISO,
+  buildSlots,
+  hoursFor,
+  isWithinHours,
+  toSchedule,
+} from '../lib/schedule';
+import {
+  DayWrite,
+  clearLocalDb,
+  loadCalendarSnapshot,
+  loadPendingOps,
+  loadSessionExpiry,
+  saveCalendarDays,
+  savePendingOps,
+  saveSessionExpiry,
+} from '../lib/localDb';
 
 // =============================================================================
 // Brand / Fonts
@@ -21,8 +55,6 @@ const BRAND = {
   fontBody: "'Inter', sans-serif",
 };
 
-const PIN_CODE = '2580';
-
 // iOS detection used by both the popup day editor and DayColumn
 const IS_IOS =
   typeof navigator !== 'undefined' &&
@@ -71,6 +103,16 @@ const toISODate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pa
 
 const addDays = (d: Date, delta: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + delta);
 
+// Monday of the week `d` falls in
+const weekStartOf = (d: Date) => addDays(d, -((d.getDay() + 6) % 7));
+
+// ISO 8601 week number (the week with the year's first Thursday is 1)
+const isoWeek = (d: Date) => {
+  const thu = addDays(weekStartOf(d), 3);
+  const jan1 = new Date(thu.getFullYear(), 0, 1);
+  return Math.floor(Math.round((thu.getTime() - jan1.getTime()) / 86400000) / 7) + 1;
+};
+
 const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
 
 function monthMatrix(year: number, month: number) {
@@ -97,8 +139,8 @@ function isTypingTarget(el: Element | null) {
   return ce === '' || ce === 'true';
 }
 
-const slotInputId = (dayISO: string, time: string) =>
-  `slot_${dayISO.replace(/[^0-9]/g, '')}_${time.replace(/[^0-9]/g, '')}`;
+const slotInputId = (barberId: string, dayISO: string, time: string) =>
+  `slot_${barberId}_${dayISO.replace(/[^0-9]/g, '')}_${time.replace(/[^0-9]/g, '')}`;
 
 // =============================================================================
 // Constants
@@ -120,168 +162,899 @@ const MONTHS = [
   'Декември',
 ];
 
-const START_HOUR = 8;
-const END_HOUR = 22;
-const SLOT_MINUTES = 30;
+// Slot grid comes from the shop schedule (lib/schedule.ts, served by /api/schedule)
+const SCHEDULE_CACHE_KEY = 'bushi_schedule_v1';
+
+function loadCachedSchedule(): ShopSchedule {
+  if (typeof window === 'undefined') return DEFAULT_SCHEDULE;
+  try {
+    const raw = localStorage.getItem(SCHEDULE_CACHE_KEY);
+    return (raw && toSchedule(JSON.parse(raw))) || DEFAULT_SCHEDULE;
+  } catch {
+    return DEFAULT_SCHEDULE;
+  }
+}
+
+// One barber's calendar: day -> time -> appointment
+type Store = Record<string, Record<string, Appointment>>;
+// barberId -> Store
+type BarberStores = Record<string, Store>;
+type Barber = { id: string; name: string };
+
+// value null = empty slot
+type SlotWrite = { barber: string; day: string; time: string; value: Appointment | null };
+// One user action; multi-slot actions undo/redo as a unit
+type EditStep = { before: SlotWrite[]; after: SlotWrite[] };
+
+const UNDO_LIMIT = 100;
+
+// Syncs are deltas (GET ?since=) except for one full read this often
+const FULL_SYNC_EVERY_MS = 15 * 60 * 1000;
+
+// Debounce for writing the offline copy of the calendar to IndexedDB
+const OFFLINE_SAVE_DELAY_MS = 3000;
+
+// ===== Pending ops queue (prevents polling/realtime from wiping optimistic edits)
+// barber is '' for ops queued before multi-barber support; re-keyed once barbers are known
+// value null = clear the slot
+// base = slot version the edit was made on (sent as expectedVersion)
+// error = server message from the last failed send, if any
+type PendingOp = {
+  barber: string;
+  day: string;
+  time: string;
+  value: Appointment | null;
+  tries: number;
+  nextAt: number;
+  base?: number;
+  error?: string;
+  // Ops queued by one multi-slot change share a group and go out as one
+  // all-or-nothing PATCH { ops }
+  group?: string;
+};
+
+// Server-side limit of one PATCH { ops }; bigger changes go out as several batches
+const MAX_BATCH_OPS = 100;
+
+// Splits a change into batches of at most MAX_BATCH_OPS, each landing whole or
+// not at all. A barber's day is never split, so its clears always travel with
+// its sets (clears first). null = a single day alone is over the limit.
+function batchChunks(writes: SlotWrite[]): SlotWrite[][] | null {
+  const byDay = new Map<string, SlotWrite[]>();
+  for (const w of writes) {
+    const key = `${w.barber}__${w.day}`;
+    if (!byDay.has(key)) byDay.set(key, []);
+    byDay.get(key)!.push(w);
+  }
 
-function buildSlots() {
-  const out: string[] = [];
-  for (let h = START_HOUR; h < END_HOUR; h++) {
-    for (let m = 0; m < 60; m += SLOT_MINUTES) out.push(`${pad(h)}:${pad(m)}`);
+  const chunks: SlotWrite[][] = [];
+  let chunk: SlotWrite[] = [];
+  for (const list of Array.from(byDay.values())) {
+    if (list.length > MAX_BATCH_OPS) return null;
+    if (chunk.length + list.length > MAX_BATCH_OPS) {
+      chunks.push(chunk);
+      chunk = [];
+    }
+    chunk.push(...list);
   }
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks.map((c) => c.sort((a, b) => Number(a.value != null) - Number(b.value != null)));
+}
+
+// The pump gives up on an op after this many failed sends; it then waits for
+// the user to retry or discard it
+const MAX_OP_TRIES = 6;
+
+// Per-slot queue state: still being sent vs given up
+type QueueState = 'pending' | 'failed';
+
+function queueStateOf(ops: Record<string, PendingOp>): Record<string, QueueState> {
+  const out: Record<string, QueueState> = {};
+  for (const [k, op] of Object.entries(ops)) if (op) out[k] = op.tries >= MAX_OP_TRIES ? 'failed' : 'pending';
   return out;
 }
 
-const DAY_SLOTS = buildSlots();
+const sameQueueState = (a: Record<string, QueueState>, b: Record<string, QueueState>) => {
+  const ak = Object.keys(a);
+  return ak.length === Object.keys(b).length && ak.every((k) => a[k] === b[k]);
+};
+
+// Pseudo barber id for the combined "any barber" view
+const ANY_BARBER = '*';
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Записан',
+  arrived: 'Дошъл',
+  no_show: 'Не дойде',
+  cancelled: 'Отказан',
+};
 
-type Store = Record<string, Record<string, string>>;
+const SERVICE_SUGGESTIONS = ['Подстригване', 'Брада', 'Подстригване + брада', 'Машинка', 'Детско подстригване'];
+
+// Drops anything that isn't a valid record (also upgrades legacy bare-name strings)
+function normalizeStores(raw: any): BarberStores {
+  const out: BarberStores = {};
+  if (!raw || typeof raw !== 'object') return out;
+  for (const [barberId, days] of Object.entries(raw)) {
+    out[barberId] = {};
+    if (!days || typeof days !== 'object') continue;
+    for (const [day, slots] of Object.entries(days as any)) {
+      if (!slots || typeof slots !== 'object') continue;
+      for (const [time, v] of Object.entries(slots as any)) {
+        const appt = toAppointment(v);
+        if (!appt) continue;
+        if (!out[barberId][day]) out[barberId][day] = {};
+        out[barberId][day][time] = appt;
+      }
+    }
+  }
+  return out;
+}
 
-const isDayFull = (dayISO: string, store: Store) => {
-  const day = store[dayISO];
-  if (!day) return false;
-  for (const slot of DAY_SLOTS) {
-    const v = day[slot];
-    if (!v || (v || '').trim().length === 0) return false;
+// slot time -> start time of the booking covering it. A booking covers every
+// slot whose start falls inside [start, start + duration).
+type CoverMap = Record<string, string>;
+
+const coverMap = (day: Record<string, Appointment> | undefined, slots: string[]): CoverMap => {
+  const out: CoverMap = {};
+  if (!day) return out;
+  for (const [start, appt] of Object.entries(day)) {
+    if (!isBooked(appt)) continue;
+    const from = timeToMinutes(start);
+    const to = from + appt.duration;
+    for (const slot of slots) {
+      const t = timeToMinutes(slot);
+      if (t >= from && t < to) out[slot] = start;
+    }
   }
-  return true;
+  return out;
+};
+
+// Slot counts over the visible barbers: taken by bookings, taken by blocks, all
+const dayLoad = (dayISO: string, stores: BarberStores, barberIds: string[], slots: string[]) => {
+  let booked = 0;
+  let blocked = 0;
+  for (const barberId of barberIds) {
+    const day = stores[barberId]?.[dayISO];
+    if (!day) continue;
+    for (const start of Object.values(coverMap(day, slots))) {
+      if (isBlock(day[start])) blocked++;
+      else booked++;
+    }
+  }
+  return { booked, blocked, total: slots.length * barberIds.length };
+};
+
+// Full = every visible slot is taken and at least one by a booking (a closed
+// or blocked-out day is never "full")
+const isDayFull = (dayISO: string, stores: BarberStores, barberIds: string[], slots: string[]) => {
+  const { booked, blocked, total } = dayLoad(dayISO, stores, barberIds, slots);
+  return booked > 0 && booked + blocked === total;
+};
+
+// Every visible slot is blocked (vacation, closed)
+const isDayBlocked = (dayISO: string, stores: BarberStores, barberIds: string[], slots: string[]) => {
+  const { blocked, total } = dayLoad(dayISO, stores, barberIds, slots);
+  return total > 0 && blocked === total;
+};
+
+// Share of the slots left open (not blocked) that are booked
+const dayFillRatio = (dayISO: string, stores: BarberStores, barberIds: string[], slots: string[]) => {
+  const { booked, blocked, total } = dayLoad(dayISO, stores, barberIds, slots);
+  return total > blocked ? booked / (total - blocked) : 0;
 };
 
-const dayFillRatio = (dayISO: string, store: Store) => {
-  const day = store[dayISO];
-  if (!day) return 0;
-  let filled = 0;
-  for (const slot of DAY_SLOTS) {
-    const v = day[slot];
-    if (v && v.trim().length > 0) filled++;
+// Schedule slots plus the start time of any booking outside them (made before
+// the hours changed), so nothing already booked disappears from the day editor.
+const withBookedTimes = (slots: string[], dayData: Record<string, Record<string, Appointment> | undefined>) => {
+  const extra: string[] = [];
+  for (const day of Object.values(dayData)) {
+    for (const time of Object.keys(day || {})) {
+      if (!slots.includes(time) && !extra.includes(time)) extra.push(time);
+    }
   }
-  return filled / DAY_SLOTS.length;
+  if (extra.length === 0) return slots;
+  return [...slots, ...extra].sort();
 };
 
+// Copy-on-write update of one slot: untouched barbers/days keep their identity,
+// so memoized DayColumns skip re-rendering. value null = clear.
+function withSlot(stores: BarberStores, barber: string, day: string, time: string, value: Appointment | null): BarberStores {
+  const store = { ...(stores[barber] || {}) };
+  const dayMap = { ...(store[day] || {}) };
+  if (value == null) delete dayMap[time];
+  else dayMap[time] = value;
+  if (Object.keys(dayMap).length > 0) store[day] = dayMap;
+  else delete store[day];
+  return { ...stores, [barber]: store };
+}
+
+const sameSlots = (a: string[], b: string[]) => a === b || (a.length === b.length && a.every((t, i) => t === b[i]));
+
 // =============================================================================
 // Remote API
 // =============================================================================
 const API_ENDPOINT = '/api/appointments';
+const AUTH_ENDPOINT = '/api/auth';
+const SCHEDULE_ENDPOINT = '/api/schedule';
+const HISTORY_ENDPOINT = '/api/history';
+const SNAPSHOTS_ENDPOINT = '/api/snapshots';
+const CLIENTS_ENDPOINT = '/api/clients';
+const SERIES_ENDPOINT = '/api/series';
+const WAITLIST_ENDPOINT = '/api/waitlist';
+
+// Any 401 from the API means the session cookie expired or was revoked:
+// the PIN wrapper listens for this and drops back to the lock screen.
+const UNAUTHORIZED_EVENT = 'bushi:unauthorized';
+function notifyUnauthorized() {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+}
+
+// Slot identity used by the pending-op queue and the version map
+const slotKey = (barber: string, day: string, time: string) => `${barber}__${day}__${time}`;
+
+// versions: slotKey -> row version (absent = empty slot = 0).
+// delta = only slots changed since the `since` cursor (+ deleted ones); merge, don't replace.
+type RemoteCalendar = {
+  barbers: Barber[];
+  stores: BarberStores;
+  versions: Record<string, number>;
+  deleted: { barber: string; day: string; time: string }[];
+  cursor: string;
+  delta: boolean;
+};
 
-async function fetchRemoteStore(): Promise<Store | null> {
+function flattenVersions(raw: any): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (!raw || typeof raw !== 'object') return out;
+  for (const [barber, days] of Object.entries(raw as Record<string, any>)) {
+    for (const [day, times] of Object.entries((days || {}) as Record<string, any>)) {
+      for (const [time, v] of Object.entries((times || {}) as Record<string, any>)) {
+        if (Number.isFinite(Number(v))) out[slotKey(barber, day, time)] = Number(v);
+      }
+    }
+  }
+  return out;
+}
+
+// A realtime change notice: just the slot key (see migration 018)
+type RealtimeSignal = SlotRef & {
+  op: 'insert' | 'update' | 'delete' | 'move';
+  source: string | null;
+  // The slot held a booking in our server copy when the signal arrived
+  wasBooked: boolean;
+};
+
+// Days the calendar keeps loaded: the visible month plus one on each side
+type SyncWindow = { from: string; to: string };
+
+const syncWindowFor = (year: number, month: number): SyncWindow => ({
+  from: toISODate(new Date(year, month - 1, 1)),
+  to: toISODate(new Date(year, month + 2, 0)),
+});
+
+// How far ahead "closest available" looks; while it is open the sync window
+// reaches from today that far, and it only reports days that are loaded
+const AVAIL_DAYS = 120;
+
+async function fetchRemoteCalendar(since: string | null, range: SyncWindow): Promise<RemoteCalendar | null> {
   if (typeof window === 'undefined') return null;
   try {
-    const res = await fetch(`${API_ENDPOINT}?_=${Date.now()}`, {
+    const params = new URLSearchParams({ _: String(Date.now()), from: range.from, to: range.to });
+    if (since) params.set('since', since);
+    const res = await fetch(`${API_ENDPOINT}?${params}`, {
       method: 'GET',
       cache: 'no-store',
       headers: { 'Cache-Control': 'no-store', Pragma: 'no-cache' },
     });
+    if (res.status === 401) notifyUnauthorized();
     if (!res.ok) return null;
     const data: any = await res.json();
     if (!data || typeof data !== 'object') return null;
 
-    // Supports both:
-    // 1) store directly
-    // 2) wrapped { ok:true, store:{...} }
-    const maybeStore = data.store && typeof data.store === 'object' ? data.store : data;
-    if (!maybeStore || typeof maybeStore !== 'object') return null;
-    return maybeStore as Store;
+    // { barbers: [{ id, name }], stores: { [barberId]: Store }, versions, cursor, delta, deleted? }
+    if (!Array.isArray(data.barbers) || !data.stores || typeof data.stores !== 'object') return null;
+    if (typeof data.cursor !== 'string') return null;
+    const barbers = (data.barbers as any[])
+      .filter((b) => b && typeof b.id === 'string')
+      .map((b) => ({ id: b.id as string, name: String(b.name ?? b.id) }));
+    const deleted = (Array.isArray(data.deleted) ? (data.deleted as any[]) : [])
+      .filter((d) => d && typeof d.barber === 'string' && typeof d.day === 'string' && typeof d.time === 'string')
+      .map((d) => ({ barber: d.barber as string, day: d.day as string, time: d.time as string }));
+    return {
+      barbers,
+      stores: normalizeStores(data.stores),
+      versions: flattenVersions(data.versions),
+      deleted,
+      cursor: data.cursor,
+      delta: data.delta === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Upcoming bookings outside what the calendar has loaded: name contains q, or
+// linked to one of the given directory clients (GET filters). null = offline.
+async function searchUpcoming(q: string, from: string, clientIds: number[]): Promise<ClientVisit[] | null> {
+  if (typeof window === 'undefined') return null;
+  const queries = [{ name: q }, ...clientIds.map((id) => ({ client: String(id) }))];
+  try {
+    const replies = await Promise.all(
+      queries.map(async (filter) => {
+        const params = new URLSearchParams({ _: String(Date.now()), from, ...filter });
+        const res = await fetch(`${API_ENDPOINT}?${params}`, { method: 'GET', cache: 'no-store' });
+        if (res.status === 401) notifyUnauthorized();
+        if (!res.ok) throw new Error(`search ${res.status}`);
+        const data: any = await res.json();
+        return normalizeStores(data?.stores);
+      })
+    );
+    const seen = new Set<string>();
+    const out: ClientVisit[] = [];
+    for (const stores of replies) {
+      for (const [barber, store] of Object.entries(stores)) {
+        for (const [day, dayMap] of Object.entries(store || {})) {
+          for (const [time, appointment] of Object.entries(dayMap || {})) {
+            const key = slotKey(barber, day, time);
+            if (seen.has(key) || isBlock(appointment)) continue;
+            seen.add(key);
+            out.push({ barber, day, time, appointment });
+          }
+        }
+      }
+    }
+    return out;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchSchedule(): Promise<ShopSchedule | null> {
+  if (typeof window === 'undefined') return null;
+  try {
+    const res = await fetch(`${SCHEDULE_ENDPOINT}?_=${Date.now()}`, { method: 'GET', cache: 'no-store' });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    return toSchedule(data?.schedule);
+  } catch {
+    return null;
+  }
+}
+
+async function saveRemoteSchedule(schedule: ShopSchedule): Promise<ShopSchedule | null> {
+  try {
+    const res = await fetch(SCHEDULE_ENDPOINT, {
+      method: 'PUT',
+      cache: 'no-store',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ schedule }),
+    });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    return toSchedule(data?.schedule);
+  } catch {
+    return null;
+  }
+}
+
+// See app/api/history/route.ts (lib/history.ts)
+type HistoryEntry = {
+  id: number;
+  barber: string;
+  day: string;
+  time: string;
+  action: 'set' | 'clear' | 'overwrite' | 'book' | 'restore' | 'move';
+  old: Appointment | null;
+  new: Appointment | null;
+  at: string;
+  device: string;
+  mine: boolean;
+};
+
+async function fetchHistory(day: string, barber: string | null, time: string | null): Promise<HistoryEntry[] | null> {
+  try {
+    const params = new URLSearchParams({ day, _: String(Date.now()) });
+    if (barber) params.set('barber', barber);
+    if (time) params.set('time', time);
+    const res = await fetch(`${HISTORY_ENDPOINT}?${params}`, { method: 'GET', cache: 'no-store' });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    if (!Array.isArray(data?.entries)) return null;
+    return (data.entries as any[]).map((e) => ({ ...e, old: toAppointment(e.old), new: toAppointment(e.new) }));
+  } catch {
+    return null;
+  }
+}
+
+// Client directory (lib/clients.ts)
+const CLIENT_SEARCH_MIN = 2;
+const CLIENT_SEARCH_DEBOUNCE_MS = 200;
+
+type Client = { id: number; name: string; phone: string; notes: string; preferredBarber: string | null };
+
+// Autocomplete: null on any failure (offline = no suggestions, typing still works)
+async function searchClients(q: string, limit = 6): Promise<Client[] | null> {
+  try {
+    const params = new URLSearchParams({ q, limit: String(limit) });
+    const res = await fetch(`${CLIENTS_ENDPOINT}?${params}`, { method: 'GET', cache: 'no-store' });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    return Array.isArray(data?.clients) ? (data.clients as Client[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+type ClientVisit = { barber: string; day: string; time: string; appointment: Appointment };
+type ClientStats = {
+  visits: number;
+  upcoming: number;
+  noShows: number;
+  cancelled: number;
+  lastVisit: string | null;
+  avgIntervalDays: number | null;
+};
+type ClientProfile = { client: Client; visits: ClientVisit[]; stats: ClientStats; today: string };
+
+async function fetchClientProfile(id: number): Promise<ClientProfile | null> {
+  try {
+    const res = await fetch(`${CLIENTS_ENDPOINT}/${id}?_=${Date.now()}`, { method: 'GET', cache: 'no-store' });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    if (!data?.client || !Array.isArray(data.visits) || !data.stats) return null;
+    const visits = (data.visits as any[])
+      .map((v) => ({ ...v, appointment: toAppointment(v.appointment) }))
+      .filter((v): v is ClientVisit => !!v.appointment);
+    return { client: data.client, visits, stats: data.stats, today: String(data.today ?? '') };
+  } catch {
+    return null;
+  }
+}
+
+// id = null creates a new directory entry
+async function saveClient(id: number | null, fields: Partial<Omit<Client, 'id'>>): Promise<Client | null> {
+  try {
+    const res = await fetch(id == null ? CLIENTS_ENDPOINT : `${CLIENTS_ENDPOINT}/${id}`, {
+      method: id == null ? 'POST' : 'PATCH',
+      cache: 'no-store',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fields),
+    });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    return data?.client ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Recurring series (lib/series.ts). Occurrences reach the calendar through the
+// normal sync; these calls only need the outcome.
+type RecurrenceRule = { freq: 'weekly' | 'monthly'; every: number; until: string | null; count: number | null };
+type SeriesSkip = { day: string; reason: 'closed' | 'taken'; name?: string };
+// count = occurrences created / updated / removed
+type SeriesResult = { ok: true; count: number; skipped: SeriesSkip[] } | { ok: false; error: string; skipped: SeriesSkip[] };
+
+async function seriesRequest(url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: object) {
+  try {
+    const res = await fetch(url, {
+      method,
+      cache: 'no-store',
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (res.status === 401) notifyUnauthorized();
+    const data: any = await res.json().catch(() => null);
+    return { ok: res.ok, data };
+  } catch {
+    return { ok: false, data: null };
+  }
+}
+
+async function createSeries(barber: string, day: string, time: string, appt: Appointment, rule: RecurrenceRule): Promise<SeriesResult> {
+  const { ok, data } = await seriesRequest(SERIES_ENDPOINT, 'POST', { ...appt, barber, day, time, rule });
+  const skipped: SeriesSkip[] = Array.isArray(data?.skipped) ? data.skipped : [];
+  if (!ok) return { ok: false, error: String(data?.error ?? 'Network error'), skipped };
+  return { ok: true, count: Array.isArray(data?.created) ? data.created.length : 0, skipped };
+}
+
+// The whole series from `from` on
+async function updateSeries(id: number, from: string, appt: Appointment): Promise<SeriesResult> {
+  const { ok, data } = await seriesRequest(`${SERIES_ENDPOINT}/${id}`, 'PATCH', { ...appt, from });
+  if (!ok) return { ok: false, error: String(data?.error ?? 'Network error'), skipped: [] };
+  return { ok: true, count: Array.isArray(data?.updated) ? data.updated.length : 0, skipped: [] };
+}
+
+async function endSeries(id: number, from: string): Promise<SeriesResult> {
+  const { ok, data } = await seriesRequest(`${SERIES_ENDPOINT}/${id}?from=${from}`, 'DELETE');
+  if (!ok) return { ok: false, error: String(data?.error ?? 'Network error'), skipped: [] };
+  return { ok: true, count: Array.isArray(data?.removed) ? data.removed.length : 0, skipped: [] };
+}
+
+// Waitlist (lib/waitlist.ts): clients hoping for a slot on a full day
+type WaitlistEntry = {
+  id: number;
+  day: string;
+  barber: string | null;
+  name: string;
+  phone: string;
+  fromTime: string | null;
+  toTime: string | null;
+  notes: string;
+  clientId: number | null;
+  createdAt: string;
+};
+type WaitlistFields = Pick<WaitlistEntry, 'day' | 'barber' | 'name' | 'phone' | 'fromTime' | 'toTime'>;
+
+async function fetchWaitlist(range: SyncWindow): Promise<WaitlistEntry[] | null> {
+  try {
+    const params = new URLSearchParams({ from: range.from, to: range.to, _: String(Date.now()) });
+    const res = await fetch(`${WAITLIST_ENDPOINT}?${params}`, { method: 'GET', cache: 'no-store' });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    return Array.isArray(data?.entries) ? data.entries : null;
+  } catch {
+    return null;
+  }
+}
+
+async function addWaitlistEntry(fields: WaitlistFields): Promise<WaitlistEntry | null> {
+  try {
+    const res = await fetch(WAITLIST_ENDPOINT, {
+      method: 'POST',
+      cache: 'no-store',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fields),
+    });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    return data?.entry ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function removeWaitlistEntry(id: number): Promise<boolean> {
+  try {
+    const res = await fetch(`${WAITLIST_ENDPOINT}/${id}`, { method: 'DELETE', cache: 'no-store' });
+    if (res.status === 401) notifyUnauthorized();
+    // already gone counts as removed
+    return res.ok || res.status === 404;
+  } catch {
+    return false;
+  }
+}
+
+// Would this client take the freed slot?
+const waitlistMatches = (e: WaitlistEntry, barber: string, day: string, time: string) =>
+  e.day === day && (e.barber == null || e.barber === barber) && (!e.fromTime || time >= e.fromTime) && (!e.toTime || time <= e.toTime);
+
+// See app/api/snapshots (lib/snapshots.ts)
+type SnapshotInfo = {
+  id: number;
+  createdAt: string;
+  kind: 'scheduled' | 'manual' | 'pre_restore' | 'pre_overwrite';
+  note: string;
+  rows: number;
+};
+type SlotChange = { barber: string; day: string; time: string; before: Appointment | null; after: Appointment | null };
+type StoreDiff = { added: SlotChange[]; changed: SlotChange[]; removed: SlotChange[] };
+
+async function fetchSnapshots(): Promise<SnapshotInfo[] | null> {
+  try {
+    const res = await fetch(`${SNAPSHOTS_ENDPOINT}?_=${Date.now()}`, { method: 'GET', cache: 'no-store' });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok) return null;
+    const data: any = await res.json();
+    return Array.isArray(data?.snapshots) ? (data.snapshots as SnapshotInfo[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function createSnapshot(note: string): Promise<boolean> {
+  try {
+    const res = await fetch(SNAPSHOTS_ENDPOINT, {
+      method: 'POST',
+      cache: 'no-store',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ note }),
+    });
+    if (res.status === 401) notifyUnauthorized();
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+// confirmToken null = preview only (the reply carries the token to commit it);
+// otherwise the scope is replaced on the server. stale = the calendar changed
+// since the preview, nothing was restored.
+type RestoreResult = { diff: StoreDiff; confirmToken: string | null; stale: boolean };
+
+async function restoreSnapshot(
+  id: number,
+  scope: { barber: string | null; days: string[] | null },
+  confirmToken: string | null
+): Promise<RestoreResult | null> {
+  try {
+    const res = await fetch(`${SNAPSHOTS_ENDPOINT}/${id}`, {
+      method: 'POST',
+      cache: 'no-store',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ barber: scope.barber, days: scope.days, dryRun: confirmToken == null, confirmToken }),
+    });
+    if (res.status === 401) notifyUnauthorized();
+    if (!res.ok && res.status !== 409) return null;
+    const data: any = await res.json();
+    const diff = data?.diff;
+    if (!diff || !Array.isArray(diff.added) || !Array.isArray(diff.changed) || !Array.isArray(diff.removed)) return null;
+    const norm = (list: any[]): SlotChange[] =>
+      list.map((c) => ({ ...c, before: toAppointment(c.before), after: toAppointment(c.after) }));
+    return {
+      diff: { added: norm(diff.added), changed: norm(diff.changed), removed: norm(diff.removed) },
+      confirmToken: typeof data?.confirmToken === 'string' ? data.confirmToken : null,
+      stale: res.status === 409,
+    };
   } catch {
     return null;
   }
 }
 
-async function patchSetSlot(day: string, time: string, name: string): Promise<boolean> {
+// rejected = the server refused the op (e.g. 409 overlap); retrying won't help.
+// stale = the slot changed since expectedVersion; the user has to pick a side.
+type PatchResult = {
+  ok: boolean;
+  rejected: boolean;
+  error?: string;
+  version?: number;
+  // move / swap: the target slot's new version
+  toVersion?: number;
+  stale?: { current: Appointment | null; version: number };
+};
+
+async function sendPatch(body: Record<string, unknown>): Promise<PatchResult> {
   try {
     const res = await fetch(API_ENDPOINT, {
       method: 'PATCH',
       cache: 'no-store',
       keepalive: true as any,
       headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
-      body: JSON.stringify({ op: 'set', day, time, name }),
+      body: JSON.stringify(body),
     });
-    return res.ok;
+    if (res.status === 401) notifyUnauthorized();
+    const data: any = await res.json().catch(() => null);
+    if (res.ok) {
+      return {
+        ok: true,
+        rejected: false,
+        version: Number.isFinite(data?.version) ? data.version : undefined,
+        toVersion: Number.isFinite(data?.toVersion) ? data.toVersion : undefined,
+      };
+    }
+    return patchFailure(res.status, data);
   } catch {
-    return false;
+    return { ok: false, rejected: false };
+  }
+}
+
+function patchFailure(status: number, data: any): PatchResult {
+  if (status === 409 && data && 'current' in data) {
+    return { ok: false, rejected: false, stale: { current: toAppointment(data.current), version: Number(data.version) || 0 } };
   }
+  const rejected = status === 400 || status === 409;
+  return { ok: false, rejected, error: typeof data?.error === 'string' ? data.error : undefined };
+}
+
+// Body of one queued op, alone or inside a batch.
+// `barber` is '' only for ops queued before multi-barber support (server = default barber).
+// expectedVersion undefined = unconditional write (ops queued before versioning).
+function pendingOpBody(op: PendingOp): Record<string, unknown> {
+  const slot = { barber: op.barber || undefined, day: op.day, time: op.time, expectedVersion: op.base };
+  return op.value == null ? { op: 'clear', ...slot } : { op: 'set', ...slot, ...op.value };
 }
 
-async function patchClearSlot(day: string, time: string): Promise<boolean> {
+// ok: one result per op, in order. Otherwise nothing was written; `failed` is
+// the index of the op the server refused (undefined = the request itself failed).
+type BatchResult = { ok: true; results: PatchResult[] } | { ok: false; failed?: number; result: PatchResult };
+
+async function sendBatch(ops: PendingOp[]): Promise<BatchResult> {
   try {
     const res = await fetch(API_ENDPOINT, {
       method: 'PATCH',
       cache: 'no-store',
       keepalive: true as any,
       headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
-      body: JSON.stringify({ op: 'clear', day, time }),
+      body: JSON.stringify({ ops: ops.map(pendingOpBody) }),
     });
-    return res.ok;
+    if (res.status === 401) notifyUnauthorized();
+    const data: any = await res.json().catch(() => null);
+    if (res.ok && Array.isArray(data?.results)) {
+      return {
+        ok: true,
+        results: data.results.map((r: any) => ({
+          ok: true,
+          rejected: false,
+          version: Number.isFinite(r?.version) ? r.version : undefined,
+        })),
+      };
+    }
+    return { ok: false, failed: Number.isInteger(data?.failed) ? data.failed : undefined, result: patchFailure(res.status, data) };
   } catch {
-    return false;
+    return { ok: false, result: { ok: false, rejected: false } };
   }
 }
 
-const BACKUP_KEY = 'bushi_store_backup_v1';
-function saveBackup(store: Store) {
-  try {
-    const payload = { ts: Date.now(), data: store };
-    localStorage.setItem(BACKUP_KEY, JSON.stringify(payload));
-  } catch {}
+// Toast for an op the server refused
+function refusalText(day: string, time: string, error?: string) {
+  return error === 'Overlaps an existing booking'
+    ? `${day} ${time}: застъпва се с друг час`
+    : error === 'Outside opening hours'
+      ? `${day} ${time}: извън работното време`
+      : `${day} ${time}: промяната е отказана`;
+}
+
+type SlotRef = { barber: string; day: string; time: string };
+
+// Not queued like set/clear: both slots have to change together, so a move
+// only happens while online
+function patchMoveSlot(from: SlotRef, to: SlotRef, swap: boolean, expectedVersion: number, expectedToVersion: number): Promise<PatchResult> {
+  return sendPatch({ op: swap ? 'swap' : 'move', ...from, to, expectedVersion, expectedToVersion });
+}
+
+// Same checks the server makes for a move/swap; the reason it can't happen, or null
+function moveRefusal(stores: BarberStores, schedule: ShopSchedule, from: SlotRef, to: SlotRef): string | null {
+  const moving = stores[from.barber]?.[from.day]?.[from.time];
+  if (!moving) return 'Няма какво да се премести';
+  const displaced = stores[to.barber]?.[to.day]?.[to.time] ?? null;
+  const sameDay = from.barber === to.barber && from.day === to.day;
+
+  const aroundTarget = { ...(stores[to.barber]?.[to.day] || {}) };
+  delete aroundTarget[to.time];
+  if (sameDay) {
+    delete aroundTarget[from.time];
+    if (displaced) aroundTarget[from.time] = displaced;
+  }
+  const around = { ...(stores[from.barber]?.[from.day] || {}) };
+  delete around[from.time];
+  if (sameDay) around[to.time] = moving;
+
+  const check = (appt: Appointment, at: SlotRef, others: Record<string, Appointment>) => {
+    if (!isBooked(appt)) return null;
+    if (!isBlock(appt) && !isWithinHours(schedule, at.day, at.time, appt.duration)) return `${appt.name}: извън работното време`;
+    const start = timeToMinutes(at.time);
+    const hit = findOverlap(others, null, [start, start + appt.duration]);
+    return hit ? `${appt.name} се застъпва с ${hit.appt.name} (${hit.time})` : null;
+  };
+  return check(moving, to, aroundTarget) || (displaced ? check(displaced, from, around) : null);
+}
+
+// Days whose object changed between two copies (withSlot copies only what it touches)
+function changedDays(prev: BarberStores, next: BarberStores): DayWrite[] {
+  const out: DayWrite[] = [];
+  for (const barber of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    const a = prev[barber] || {};
+    const b = next[barber] || {};
+    if (a === b) continue;
+    for (const day of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      if (a[day] !== b[day]) out.push({ barber, day, slots: b[day] ?? null });
+    }
+  }
+  return out;
 }
 
 // =============================================================================
 // COMPONENTS: SlotRow & DayColumn
 // =============================================================================
 type SlotRowProps = {
+  barberId: string;
+  barberLabel?: string;
   dayISO: string;
   time: string;
-  value: string;
+  // Week view cell: no time column (the grid row has it), fewer buttons on phones
+  compact?: boolean;
+  // Number of grid slots the booking covers (1 for single-slot / empty)
+  span: number;
+  endTime?: string;
+  value: Appointment | undefined;
   isSaved: boolean;
   isArmed: boolean;
   isHighlighted: boolean;
+  // Set while a local edit of this slot is queued (failed = gave up retrying)
+  syncState?: QueueState;
   canWrite: boolean;
   onStartEditing: () => void;
   onStopEditing: () => void;
-  onSave: (day: string, time: string, nameRaw: string) => void;
+  onSave: (barber: string, day: string, time: string, nameRaw: string) => void;
+  // A suggestion from the client directory was chosen
+  onPickClient: (barber: string, day: string, time: string, client: Client) => void;
   onArm: (timeKey: string) => void;
-  onConfirmRemove: (day: string, time: string) => void;
+  onConfirmRemove: (barber: string, day: string, time: string) => void;
+  onOpenDetails: (barber: string, day: string, time: string) => void;
   onRevealFocus: (day: string, time: string, inputEl: HTMLInputElement) => void;
+  // Drag-and-drop / tap-to-move: set on every row while a booking is picked up
+  moveState?: 'source' | 'target';
+  onStartMove: (barber: string, day: string, time: string) => void;
+  onCancelMove: () => void;
+  onDropMove: (barber: string, day: string, time: string) => void;
+};
+
+// Hatching for blocked rows and blocked-out days in the month grid
+const BLOCK_STRIPES =
+  'repeating-linear-gradient(135deg, rgba(255,255,255,0.05) 0px, rgba(255,255,255,0.05) 6px, transparent 6px, transparent 12px)';
+
+const STATUS_ROW_CLASS: Record<AppointmentStatus, string> = {
+  booked: 'border-neutral-800',
+  arrived: 'border-emerald-700/70',
+  no_show: 'border-amber-600/70',
+  cancelled: 'border-neutral-800 opacity-60',
 };
 
 const SlotRow = React.memo(
   function SlotRow({
+    barberId,
+    barberLabel,
     dayISO,
     time,
+    compact,
+    span,
+    endTime,
     value,
     isSaved,
     isArmed,
     isHighlighted,
+    syncState,
     canWrite,
     onStartEditing,
     onStopEditing,
     onSave,
+    onPickClient,
     onArm,
     onConfirmRemove,
+    onOpenDetails,
     onRevealFocus,
+    moveState,
+    onStartMove,
+    onCancelMove,
+    onDropMove,
   }: SlotRowProps) {
-    const timeKey = `${dayISO}_${time}`;
-    const inputId = slotInputId(dayISO, time);
+    const timeKey = `${barberId}_${dayISO}_${time}`;
+    const inputId = slotInputId(barberId, dayISO, time);
+    const name = value?.name || '';
+    // Blocked time: the input edits the reason, there is no client to suggest or detail
+    const blocked = isBlock(value);
 
-    const [draft, setDraft] = useState<string>(value || '');
+    const [draft, setDraft] = useState<string>(name);
     const focusedRef = useRef(false);
     const draftRef = useRef(draft);
-    const valueRef = useRef(value || '');
+    const valueRef = useRef(name);
 
     useEffect(() => {
       draftRef.current = draft;
     }, [draft]);
 
     useEffect(() => {
-      valueRef.current = value || '';
-      if (!focusedRef.current) setDraft(value || '');
-    }, [value]);
+      valueRef.current = name;
+      if (!focusedRef.current) setDraft(name);
+    }, [name]);
 
     const flushIfChanged = useCallback(() => {
       if (!canWrite) return;
       const orig = (valueRef.current || '').trim();
       const now = (draftRef.current || '').trim();
       if (orig === now) return;
-      onSave(dayISO, time, draftRef.current || '');
-    }, [canWrite, dayISO, time, onSave]);
+      onSave(barberId, dayISO, time, draftRef.current || '');
+    }, [canWrite, barberId, dayISO, time, onSave]);
 
     useEffect(() => {
       return () => {
@@ -289,28 +1062,91 @@ const SlotRow = React.memo(
       };
     }, [flushIfChanged]);
 
+    // Client directory suggestions while typing (not for the name already saved)
+    const [suggestions, setSuggestions] = useState<Client[]>([]);
+    const [activeSuggestion, setActiveSuggestion] = useState(-1);
+    const [typing, setTyping] = useState(false);
+
+    useEffect(() => {
+      const q = draft.trim();
+      if (!typing || !canWrite || blocked || q.length < CLIENT_SEARCH_MIN || q === name) {
+        setSuggestions([]);
+        return;
+      }
+      let cancelled = false;
+      const t = window.setTimeout(async () => {
+        const found = await searchClients(q);
+        if (cancelled) return;
+        setSuggestions(found || []);
+        setActiveSuggestion(-1);
+      }, CLIENT_SEARCH_DEBOUNCE_MS);
+      return () => {
+        cancelled = true;
+        window.clearTimeout(t);
+      };
+    }, [draft, typing, canWrite, blocked, name]);
+
+    const pickClient = (el: HTMLInputElement, client: Client) => {
+      // The blur that follows must not save the typed text over the pick
+      el.dataset.orig = client.name;
+      valueRef.current = client.name;
+      setDraft(client.name);
+      setSuggestions([]);
+      setTyping(false);
+      onPickClient(barberId, dayISO, time, client);
+      el.blur();
+    };
+
     const hasName = (draft || '').trim().length > 0;
+    const status: AppointmentStatus = value?.status ?? 'booked';
+    const hasDetails = !!value && !blocked && (!!value.phone || !!value.service || !!value.notes || value.price != null || status !== 'booked');
 
     return (
       <div
-        className={`relative rounded-2xl bg-neutral-900/80 border px-3 py-1 flex items-center gap-3 overflow-hidden transition ${
-          isHighlighted ? 'border-white/60 ring-2 ring-white/20' : 'border-neutral-800'
-        }`}
-        style={isHighlighted ? { animation: 'bushiPulse 220ms ease-in-out infinite alternate' } : undefined}
+        className={`relative rounded-2xl bg-neutral-900/80 border py-1 flex items-center transition ${
+          compact ? 'px-1.5 gap-1.5 min-w-0' : 'px-3 gap-3'
+        } ${
+          suggestions.length > 0 ? 'z-30' : 'overflow-hidden'
+        } ${
+          isHighlighted || moveState === 'source'
+            ? 'border-white/60 ring-2 ring-white/20'
+            : blocked
+              ? 'border-dashed border-neutral-700'
+              : STATUS_ROW_CLASS[status]
+        } ${span > 1 && !blocked ? 'bg-neutral-800/80' : ''}`}
+        style={{
+          ...(blocked ? { backgroundImage: BLOCK_STRIPES } : null),
+          ...(isHighlighted ? { animation: 'bushiPulse 220ms ease-in-out infinite alternate' } : null),
+          // grow with the number of covered slots (row ≈ 2.9rem + 0.625rem gap)
+          ...(span > 1 ? { minHeight: `calc(${span} * 2.9rem + ${span - 1} * 0.625rem)` } : null),
+        }}
       >
-        <div
-          className="text-[1.05rem] md:text-[1.15rem] font-semibold tabular-nums min-w-[4.9rem] text-center select-none"
-          style={{ fontFamily: BRAND.fontBody }}
-        >
-          {time}
-        </div>
-
-        <div className="flex-1 min-w-0 flex items-center gap-2">
-          <input
-            id={inputId}
-            value={draft}
-            onChange={(e) => setDraft(e.target.value)}
-            data-dayiso={dayISO}
+        {!compact && (
+          <div
+            className="text-[1.05rem] md:text-[1.15rem] font-semibold tabular-nums min-w-[4.9rem] text-center select-none"
+            style={{ fontFamily: BRAND.fontBody }}
+          >
+            {time}
+            {endTime && <div className="text-[11px] font-medium text-neutral-400">– {endTime}</div>}
+            {barberLabel && (
+              <div className="text-[10px] font-medium uppercase tracking-[0.12em] text-neutral-400 truncate max-w-[4.9rem]">
+                {barberLabel}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="relative flex-1 min-w-0 flex items-center gap-2">
+          <input
+            id={inputId}
+            value={draft}
+            autoComplete="off"
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setTyping(true);
+            }}
+            data-barber={barberId}
+            data-dayiso={dayISO}
             data-time={time}
             onFocus={(e) => {
               focusedRef.current = true;
@@ -319,14 +1155,33 @@ const SlotRow = React.memo(
               onRevealFocus(dayISO, time, e.currentTarget);
             }}
             onKeyDown={(e) => {
+              if (suggestions.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                // -1 = back to what was typed
+                setActiveSuggestion((i) => {
+                  const next = i + step;
+                  return next < -1 ? suggestions.length - 1 : next >= suggestions.length ? -1 : next;
+                });
+                return;
+              }
+              if (e.key === 'Escape' && suggestions.length > 0) {
+                e.stopPropagation();
+                setSuggestions([]);
+                setTyping(false);
+                return;
+              }
               if (e.key === 'Enter') {
                 const el = e.target as HTMLInputElement;
-                if (canWrite) onSave(dayISO, time, el.value);
+                const picked = suggestions[activeSuggestion];
+                if (picked && canWrite) return pickClient(el, picked);
+                if (canWrite) onSave(barberId, dayISO, time, el.value);
                 el.blur();
               }
             }}
             onBlur={(e) => {
               focusedRef.current = false;
+              setTyping(false);
               const el = e.currentTarget;
               const orig = (el.dataset.orig ?? '').trim();
               const now = (el.value ?? '').trim();
@@ -336,15 +1191,86 @@ const SlotRow = React.memo(
               if (orig === now) return;
 
               el.dataset.orig = el.value;
-              onSave(dayISO, time, el.value);
+              onSave(barberId, dayISO, time, el.value);
             }}
-            className="block w-full text-white bg-[rgb(10,10,10)] border border-neutral-700/70 focus:border-white/70 focus:outline-none focus:ring-0 rounded-lg px-3 py-1.5 text-center transition-all duration-200"
+            className={`block w-full text-white bg-[rgb(10,10,10)] border border-neutral-700/70 focus:border-white/70 focus:outline-none focus:ring-0 rounded-lg py-1.5 text-center transition-all duration-200 ${
+              compact ? 'px-1 text-sm min-w-0' : 'px-3'
+            } ${
+              status === 'cancelled' ? 'line-through text-neutral-400' : ''
+            } ${blocked ? 'italic text-neutral-400' : ''}`}
             style={{ fontFamily: BRAND.fontBody }}
           />
 
+          {suggestions.length > 0 && (
+            <div className="absolute left-0 right-0 top-full mt-1 z-30 rounded-xl border border-neutral-700 bg-neutral-950/95 shadow-2xl overflow-hidden">
+              {suggestions.map((c, i) => (
+                <button
+                  key={c.id}
+                  type="button"
+                  // keep focus in the input until the pick is handled
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => {
+                    const el = document.getElementById(inputId) as HTMLInputElement | null;
+                    if (el) pickClient(el, c);
+                  }}
+                  className={`w-full px-3 py-2 text-left text-sm flex items-center justify-between gap-3 transition ${
+                    i === activeSuggestion ? 'bg-neutral-800' : 'hover:bg-neutral-900'
+                  }`}
+                  style={{ fontFamily: BRAND.fontBody }}
+                >
+                  <span className="truncate">{c.name}</span>
+                  {c.phone && <span className="shrink-0 text-[11px] text-neutral-400 tabular-nums">{c.phone}</span>}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {!!value && canWrite && (
+            <button
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', timeKey);
+                // after the browser has taken its drag image; re-rendering the source now can cancel the drag
+                window.setTimeout(() => onStartMove(barberId, dayISO, time), 0);
+              }}
+              onDragEnd={onCancelMove}
+              onClick={() => (moveState === 'source' ? onCancelMove() : onStartMove(barberId, dayISO, time))}
+              className={`shrink-0 w-8 h-8 md:w-9 md:h-9 rounded-lg place-items-center transition border cursor-grab active:cursor-grabbing ${
+                compact ? 'hidden lg:grid' : 'grid'
+              } ${
+                moveState === 'source' ? 'bg-white text-black border-white' : 'bg-neutral-900/60 hover:bg-neutral-800/70 border-neutral-700/50 text-neutral-300'
+              }`}
+              aria-label="Премести"
+              title="Премести (влачи или натисни, после избери нов час)"
+            >
+              <span className="text-sm leading-none">⠿</span>
+            </button>
+          )}
+
+          {blocked && (
+            <span className="shrink-0 text-sm leading-none select-none" title="Блокирано">
+              ⛔
+            </span>
+          )}
+
+          {!!value && !blocked && (
+            <button
+              onClick={() => onOpenDetails(barberId, dayISO, time)}
+              className={`relative shrink-0 w-8 h-8 md:w-9 md:h-9 rounded-lg place-items-center transition border bg-neutral-900/60 hover:bg-neutral-800/70 border-neutral-700/50 text-neutral-200 ${
+                compact ? 'hidden lg:grid' : 'grid'
+              }`}
+              aria-label="Детайли"
+              title="Детайли"
+            >
+              <span className="text-base leading-none">⋯</span>
+              {hasDetails && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-white/80" />}
+            </button>
+          )}
+
           {hasName && (
             <button
-              onClick={() => (isArmed ? onConfirmRemove(dayISO, time) : onArm(timeKey))}
+              onClick={() => (isArmed ? onConfirmRemove(barberId, dayISO, time) : onArm(timeKey))}
               className={`shrink-0 w-8 h-8 md:w-9 md:h-9 rounded-lg grid place-items-center transition border ${
                 isArmed ? 'bg-red-900/30 border-red-600/70' : 'bg-neutral-900/60 hover:bg-neutral-800/70 border-neutral-700/50'
               }`}
@@ -360,6 +1286,40 @@ const SlotRow = React.memo(
           )}
         </div>
 
+        {moveState === 'target' && (
+          <button
+            type="button"
+            onClick={() => onDropMove(barberId, dayISO, time)}
+            onDragOver={(e) => {
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              onDropMove(barberId, dayISO, time);
+            }}
+            className="absolute inset-0 z-10 rounded-2xl border-2 border-dashed border-white/30 bg-black/40 hover:bg-black/20 hover:border-white/70 text-[11px] uppercase tracking-[0.14em] text-white/80 transition"
+            style={{ fontFamily: BRAND.fontBody }}
+          >
+            {value ? 'Размени' : 'Премести тук'}
+          </button>
+        )}
+
+        {value?.seriesId != null && (
+          <span className="pointer-events-none absolute left-1.5 bottom-0.5 text-[10px] leading-none text-neutral-400" title="Повтарящ се час">
+            ↻
+          </span>
+        )}
+
+        {syncState && (
+          <span
+            className={`pointer-events-none absolute left-1.5 top-1.5 w-1.5 h-1.5 rounded-full ${
+              syncState === 'failed' ? 'bg-red-500' : 'bg-amber-400/80 animate-pulse'
+            }`}
+            title={syncState === 'failed' ? 'Неизпратено' : 'Изпраща се…'}
+          />
+        )}
+
         <img
           src="/tick-green.png"
           alt="saved"
@@ -371,31 +1331,60 @@ const SlotRow = React.memo(
     );
   },
   (prev, next) =>
-    prev.value === next.value &&
+    sameAppointment(prev.value, next.value) &&
     prev.isSaved === next.isSaved &&
     prev.isArmed === next.isArmed &&
     prev.isHighlighted === next.isHighlighted &&
+    prev.syncState === next.syncState &&
+    prev.moveState === next.moveState &&
+    prev.barberId === next.barberId &&
+    prev.barberLabel === next.barberLabel &&
     prev.dayISO === next.dayISO &&
     prev.time === next.time &&
+    prev.compact === next.compact &&
+    prev.span === next.span &&
+    prev.endTime === next.endTime &&
     prev.canWrite === next.canWrite
 );
 
+// dayData: barberId -> that barber's slots for this day. Rebuilt on every render,
+// so DayColumn compares it entry by entry instead of by reference.
+type DayData = Record<string, Record<string, Appointment> | undefined>;
+
+const sameDayData = (a: DayData, b: DayData) => {
+  if (a === b) return true;
+  const ak = Object.keys(a || {});
+  const bk = Object.keys(b || {});
+  if (ak.length !== bk.length) return false;
+  for (const k of ak) if (a[k] !== b[k]) return false;
+  return true;
+};
+
 const DayColumn = React.memo(
   ({
     date,
     isCurrent,
+    barbers,
     dayData,
+    slots,
     keyboardInset,
     remoteReady,
+    queueState,
     savedPulse,
     armedRemove,
     highlight,
     startEditing,
     stopEditing,
     saveName,
+    pickClient,
     armRemove,
     confirmRemove,
+    openDetails,
     revealFocus,
+    moving,
+    startMove,
+    cancelMove,
+    dropMove,
   }: any) => {
     const iso = toISODate(date);
     const dayContentRef = useRef<HTMLDivElement>(null);
@@ -406,6 +1395,10 @@ const DayColumn = React.memo(
 
     const bottomPad = 35 + keyboardInset;
 
+    // Multi-slot bookings render once at their start slot; covered slots are skipped
+    const covers: Record<string, CoverMap> = {};
+    for (const b of barbers as Barber[]) covers[b.id] = coverMap(dayData?.[b.id], slots);
+
     return (
       <div
         id={isCurrent ? 'bushi-day-content' : undefined}
@@ -431,34 +1424,303 @@ const DayColumn = React.memo(
           }}
         >
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-2.5 px-0.5" style={{ gridAutoRows: 'min-content' }}>
-            {DAY_SLOTS.map((time) => {
-              const value = dayData?.[time] || '';
-              const isSaved = isCurrent && !!(savedPulse && savedPulse.day === iso && savedPulse.time === time);
-              const timeKey = `${iso}_${time}`;
-              const isArmed = armedRemove === timeKey;
-              const isHighlighted = !!highlight && highlight.day === iso && highlight.time === time;
+            {(slots as string[]).flatMap((time) =>
+              (barbers as Barber[]).map((barber) => {
+                const cover = covers[barber.id];
+                if (cover[time] && cover[time] !== time) return null;
+
+                const value = dayData?.[barber.id]?.[time] as Appointment | undefined;
+                const span = cover[time] === time ? (slots as string[]).filter((t) => cover[t] === time).length : 1;
+                const endTime = value && span > 1 ? minutesToTime(timeToMinutes(time) + value.duration) : undefined;
+                const isSaved =
+                  isCurrent &&
+                  !!(savedPulse && savedPulse.barber === barber.id && savedPulse.day === iso && savedPulse.time === time);
+                const timeKey = `${barber.id}_${iso}_${time}`;
+                const isArmed = armedRemove === timeKey;
+                const isHighlighted =
+                  !!highlight &&
+                  highlight.day === iso &&
+                  highlight.time === time &&
+                  (!highlight.barber || highlight.barber === barber.id);
+                const moveState: SlotRowProps['moveState'] = !moving
+                  ? undefined
+                  : moving.barber === barber.id && moving.day === iso && moving.time === time
+                    ? 'source'
+                    : 'target';
+
+                return (
+                  <SlotRow
+                    key={timeKey}
+                    barberId={barber.id}
+                    barberLabel={barbers.length > 1 ? barber.name : undefined}
+                    dayISO={iso}
+                    time={time}
+                    span={span}
+                    endTime={endTime}
+                    value={value}
+                    isSaved={isSaved}
+                    isArmed={isArmed}
+                    isHighlighted={isHighlighted}
+                    syncState={queueState?.[slotKey(barber.id, iso, time)]}
+                    canWrite={remoteReady}
+                    onStartEditing={startEditing}
+                    onStopEditing={stopEditing}
+                    onSave={saveName}
+                    onPickClient={pickClient}
+                    onArm={armRemove}
+                    onConfirmRemove={confirmRemove}
+                    onOpenDetails={openDetails}
+                    onRevealFocus={revealFocus}
+                    moveState={moveState}
+                    onStartMove={startMove}
+                    onCancelMove={cancelMove}
+                    onDropMove={dropMove}
+                  />
+                );
+              })
+            )}
+          </div>
+
+          {remoteReady && slots.length === 0 && (
+            <div className="mt-10 text-sm text-neutral-500 text-center" style={{ fontFamily: BRAND.fontBody }}>
+              Почивен ден
+            </div>
+          )}
+
+          {!remoteReady && (
+            <div className="mt-3 text-xs text-neutral-500 text-center" style={{ fontFamily: BRAND.fontBody }}>
+              Зареждане от сървъра…
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  },
+  (prev, next) =>
+    prev.isCurrent === next.isCurrent &&
+    prev.keyboardInset === next.keyboardInset &&
+    prev.remoteReady === next.remoteReady &&
+    prev.queueState === next.queueState &&
+    prev.barbers === next.barbers &&
+    sameDayData(prev.dayData, next.dayData) &&
+    sameSlots(prev.slots, next.slots) &&
+    prev.savedPulse === next.savedPulse &&
+    prev.armedRemove === next.armedRemove &&
+    prev.highlight === next.highlight &&
+    prev.moving === next.moving
+);
+
+// =============================================================================
+// WeekColumn: Monday to Sunday side by side, one row per slot time
+// =============================================================================
+// weekData / slotsByDay: day -> what DayColumn gets as dayData / slots
+type WeekData = Record<string, DayData>;
+
+const sameWeekData = (a: WeekData, b: WeekData) => {
+  if (a === b) return true;
+  const ak = Object.keys(a || {});
+  if (ak.length !== Object.keys(b || {}).length) return false;
+  return ak.every((k) => !!b[k] && sameDayData(a[k], b[k]));
+};
+
+const sameSlotsByDay = (a: Record<string, string[]>, b: Record<string, string[]>) => {
+  if (a === b) return true;
+  const ak = Object.keys(a || {});
+  if (ak.length !== Object.keys(b || {}).length) return false;
+  return ak.every((k) => !!b[k] && sameSlots(a[k], b[k]));
+};
+
+const WeekColumn = React.memo(
+  ({
+    weekStart,
+    isCurrent,
+    todayISO,
+    barbers,
+    weekData,
+    slotsByDay,
+    keyboardInset,
+    remoteReady,
+    queueState,
+    savedPulse,
+    armedRemove,
+    highlight,
+    openDay,
+    startEditing,
+    stopEditing,
+    saveName,
+    pickClient,
+    armRemove,
+    confirmRemove,
+    openDetails,
+    revealFocus,
+    moving,
+    startMove,
+    cancelMove,
+    dropMove,
+  }: any) => {
+    const weekContentRef = useRef<HTMLDivElement>(null);
+
+    useLayoutEffect(() => {
+      if (isCurrent && weekContentRef.current) weekContentRef.current.scrollTop = 0;
+    }, [isCurrent]);
+
+    const bottomPad = 35 + keyboardInset;
+    const list = barbers as Barber[];
+    const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart as Date, i));
+    const isos = days.map(toISODate);
+
+    // Every time any day of the week has; a day without it shows an empty cell
+    const rows = Array.from(new Set(isos.flatMap((iso) => (slotsByDay[iso] as string[]) || []))).sort();
+
+    // Covers are taken over the rows, so a booking spans the grid rows it overlaps
+    const covers: Record<string, Record<string, CoverMap>> = {};
+    for (const iso of isos) {
+      covers[iso] = {};
+      for (const b of list) covers[iso][b.id] = coverMap(weekData?.[iso]?.[b.id], rows);
+    }
+
+    const cols = 7 * list.length;
 
+    return (
+      <div
+        id={isCurrent ? 'bushi-day-content' : undefined}
+        ref={weekContentRef}
+        className="w-full h-full flex-shrink-0 snap-center overflow-y-auto"
+        style={{
+          WebkitOverflowScrolling: IS_IOS ? 'auto' : 'touch',
+          touchAction: IS_IOS ? ('pan-y' as any) : undefined,
+          overscrollBehaviorY: 'contain' as any,
+          overflowAnchor: 'none' as any,
+          paddingBottom: `${bottomPad}px`,
+          contain: IS_IOS ? undefined : ('layout paint' as any),
+          isolation: IS_IOS ? undefined : ('isolate' as any),
+        }}
+      >
+        <div
+          className="w-full relative"
+          data-bushi-paint
+          style={{
+            WebkitTransform: 'translate3d(0,0,0)',
+            transform: 'translate3d(0,0,0)',
+            willChange: 'transform',
+          }}
+        >
+          <div
+            className="grid gap-1.5 px-0.5"
+            style={{ gridTemplateColumns: `3rem repeat(${cols}, minmax(0, 1fr))`, gridAutoRows: 'min-content' }}
+          >
+            {days.map((d, i) => {
+              const iso = isos[i];
+              const closed = ((slotsByDay[iso] as string[]) || []).length === 0;
               return (
-                <SlotRow
-                  key={timeKey}
-                  dayISO={iso}
-                  time={time}
-                  value={value}
-                  isSaved={isSaved}
-                  isArmed={isArmed}
-                  isHighlighted={isHighlighted}
-                  canWrite={remoteReady}
-                  onStartEditing={startEditing}
-                  onStopEditing={stopEditing}
-                  onSave={saveName}
-                  onArm={armRemove}
-                  onConfirmRemove={confirmRemove}
-                  onRevealFocus={revealFocus}
-                />
+                <button
+                  key={iso}
+                  type="button"
+                  onClick={() => openDay(d)}
+                  className={`sticky top-0 z-20 rounded-xl border bg-[rgb(10,10,10)] py-1.5 text-center transition hover:border-white/60 ${
+                    iso === todayISO ? 'border-white/70' : 'border-neutral-800'
+                  } ${closed ? 'text-neutral-500' : ''}`}
+                  style={{ gridRow: 1, gridColumn: `${2 + i * list.length} / span ${list.length}`, fontFamily: BRAND.fontBody }}
+                  title="Отвори деня"
+                >
+                  <div className="text-[11px] uppercase tracking-[0.14em] text-neutral-400">{WEEKDAYS_SHORT[i]}</div>
+                  <div className="text-base md:text-lg font-semibold tabular-nums">{d.getDate()}</div>
+                  {list.length > 1 && (
+                    <div className="flex text-[10px] uppercase tracking-[0.1em] text-neutral-500">
+                      {list.map((b) => (
+                        <span key={b.id} className="flex-1 min-w-0 truncate">
+                          {b.name}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </button>
               );
             })}
+
+            {rows.flatMap((time, r) => [
+              <div
+                key={`t_${time}`}
+                className="text-xs md:text-sm font-semibold tabular-nums text-neutral-300 self-center text-center select-none"
+                style={{ gridRow: r + 2, gridColumn: 1, fontFamily: BRAND.fontBody }}
+              >
+                {time}
+              </div>,
+              ...isos.flatMap((iso, i) =>
+                list.map((barber, bi) => {
+                  const cover = covers[iso][barber.id];
+                  if (cover[time] && cover[time] !== time) return null;
+
+                  const column = 2 + i * list.length + bi;
+                  const timeKey = `${barber.id}_${iso}_${time}`;
+                  const value = weekData?.[iso]?.[barber.id]?.[time] as Appointment | undefined;
+                  if (!value && !((slotsByDay[iso] as string[]) || []).includes(time)) {
+                    return (
+                      <div
+                        key={timeKey}
+                        className="rounded-2xl border border-neutral-900 bg-neutral-950/60"
+                        style={{ gridRow: r + 2, gridColumn: column }}
+                      />
+                    );
+                  }
+
+                  const span = cover[time] === time ? rows.filter((t) => cover[t] === time).length : 1;
+                  const endTime = value && span > 1 ? minutesToTime(timeToMinutes(time) + value.duration) : undefined;
+                  const isSaved =
+                    isCurrent &&
+                    !!(savedPulse && savedPulse.barber === barber.id && savedPulse.day === iso && savedPulse.time === time);
+                  const isHighlighted =
+                    !!highlight &&
+                    highlight.day === iso &&
+                    highlight.time === time &&
+                    (!highlight.barber || highlight.barber === barber.id);
+                  const moveState: SlotRowProps['moveState'] = !moving
+                    ? undefined
+                    : moving.barber === barber.id && moving.day === iso && moving.time === time
+                      ? 'source'
+                      : 'target';
+
+                  return (
+                    <div key={timeKey} className="min-w-0 grid" style={{ gridRow: `${r + 2} / span ${span}`, gridColumn: column }}>
+                      <SlotRow
+                        barberId={barber.id}
+                        dayISO={iso}
+                        time={time}
+                        compact
+                        span={span}
+                        endTime={endTime}
+                        value={value}
+                        isSaved={isSaved}
+                        isArmed={armedRemove === timeKey}
+                        isHighlighted={isHighlighted}
+                        syncState={queueState?.[slotKey(barber.id, iso, time)]}
+                        canWrite={remoteReady}
+                        onStartEditing={startEditing}
+                        onStopEditing={stopEditing}
+                        onSave={saveName}
+                        onPickClient={pickClient}
+                        onArm={armRemove}
+                        onConfirmRemove={confirmRemove}
+                        onOpenDetails={openDetails}
+                        onRevealFocus={revealFocus}
+                        moveState={moveState}
+                        onStartMove={startMove}
+                        onCancelMove={cancelMove}
+                        onDropMove={dropMove}
+                      />
+                    </div>
+                  );
+                })
+              ),
+            ])}
           </div>
 
+          {remoteReady && rows.length === 0 && (
+            <div className="mt-10 text-sm text-neutral-500 text-center" style={{ fontFamily: BRAND.fontBody }}>
+              Почивна седмица
+            </div>
+          )}
+
           {!remoteReady && (
             <div className="mt-3 text-xs text-neutral-500 text-center" style={{ fontFamily: BRAND.fontBody }}>
               Зареждане от сървъра…
@@ -470,43 +1732,1966 @@ const DayColumn = React.memo(
   },
   (prev, next) =>
     prev.isCurrent === next.isCurrent &&
+    prev.weekStart.getTime() === next.weekStart.getTime() &&
+    prev.todayISO === next.todayISO &&
     prev.keyboardInset === next.keyboardInset &&
     prev.remoteReady === next.remoteReady &&
-    prev.dayData === next.dayData &&
+    prev.queueState === next.queueState &&
+    prev.barbers === next.barbers &&
+    sameWeekData(prev.weekData, next.weekData) &&
+    sameSlotsByDay(prev.slotsByDay, next.slotsByDay) &&
     prev.savedPulse === next.savedPulse &&
     prev.armedRemove === next.armedRemove &&
-    prev.highlight === next.highlight
+    prev.highlight === next.highlight &&
+    prev.moving === next.moving
 );
 
 // =============================================================================
-// Main Calendar Component
+// Appointment detail sheet (the row only edits the name)
 // =============================================================================
-function BarberCalendarCore() {
+// Toast text for an undoable edit
+function describeStep(step: EditStep) {
+  if (step.after.length > 1) return `Променени ${step.after.length} слота`;
+  const { time, value } = step.after[0];
+  const prev = step.before[0].value;
+  if (!value) return `Изтрит: ${prev?.name ?? ''} · ${time}`;
+  return `${prev ? 'Променен' : 'Записан'}: ${value.name} · ${time}`;
+}
+
+const formatDuration = (min: number) => {
+  const h = Math.floor(min / 60);
+  const m = min % 60;
+  if (h === 0) return `${m} мин`;
+  return m === 0 ? `${h} ч` : `${h} ч ${m} мин`;
+};
+
+const REPEAT_OPTIONS: { key: string; label: string; freq: RecurrenceRule['freq']; every: number }[] = [
+  { key: 'w1', label: 'Всяка седмица', freq: 'weekly', every: 1 },
+  { key: 'w2', label: 'През 2 седмици', freq: 'weekly', every: 2 },
+  { key: 'w3', label: 'През 3 седмици', freq: 'weekly', every: 3 },
+  { key: 'w4', label: 'През 4 седмици', freq: 'weekly', every: 4 },
+  { key: 'm1', label: 'Всеки месец', freq: 'monthly', every: 1 },
+];
+
+function AppointmentSheet({
+  title,
+  value,
+  maxDuration,
+  slotMinutes,
+  onSave,
+  onShowHistory,
+  onShowClient,
+  onRepeat,
+  onSaveSeries,
+  onEndSeries,
+  onClose,
+}: {
+  title: string;
+  value: Appointment | undefined;
+  // Free minutes from the start slot until the next booking / closing time
+  maxDuration: number;
+  slotMinutes: number;
+  onSave: (appt: Appointment | null) => void;
+  onShowHistory: () => void;
+  // Client profile (creates the directory entry first for an unlinked booking)
+  onShowClient: () => void;
+  // Recurring series: start one from this booking, or (for an occurrence)
+  // apply the form to / remove this and every later occurrence
+  onRepeat: (appt: Appointment, rule: RecurrenceRule) => void;
+  onSaveSeries: (appt: Appointment) => void;
+  onEndSeries: () => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(value?.name ?? '');
+  const [phone, setPhone] = useState(value?.phone ?? '');
+  const [service, setService] = useState(value?.service ?? '');
+  const [price, setPrice] = useState(value?.price != null ? String(value.price) : '');
+  const [notes, setNotes] = useState(value?.notes ?? '');
+  const [status, setStatus] = useState<AppointmentStatus>(value?.status ?? 'booked');
+  const [duration, setDuration] = useState<number>(value?.duration ?? slotMinutes);
+
+  const [repeatOpen, setRepeatOpen] = useState(false);
+  const [repeatEvery, setRepeatEvery] = useState(REPEAT_OPTIONS[0].key);
+  const [repeatCount, setRepeatCount] = useState('8');
+  const [repeatUntil, setRepeatUntil] = useState('');
+
+  const durationOptions = useMemo(() => {
+    const out: number[] = [];
+    for (let m = slotMinutes; m <= Math.max(slotMinutes, maxDuration); m += slotMinutes) out.push(m);
+    if (!out.includes(duration)) out.push(duration);
+    return out.sort((a, b) => a - b);
+  }, [maxDuration, slotMinutes, duration]);
+
   useEffect(() => {
-    injectBrandFonts();
-    injectBushiStyles();
-  }, []);
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // The client and series links survive edits unless the name now belongs to someone else
+  const fromForm = () => {
+    const same = !!value && value.name.toLowerCase() === name.trim().toLowerCase();
+    const clientId = same ? value.clientId : null;
+    const seriesId = same ? value.seriesId : null;
+    return toAppointment({ name, phone, service, price, notes, status, duration, clientId, seriesId, source: value?.source });
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Empty name clears the slot, same as the inline input
+    onSave(fromForm());
+  };
+
+  const repeat = () => {
+    const appt = fromForm();
+    const option = REPEAT_OPTIONS.find((o) => o.key === repeatEvery) ?? REPEAT_OPTIONS[0];
+    const count = Number(repeatCount);
+    const rule: RecurrenceRule = repeatUntil
+      ? { freq: option.freq, every: option.every, until: repeatUntil, count: null }
+      : { freq: option.freq, every: option.every, until: null, count: Number.isInteger(count) && count > 0 ? count : 8 };
+    if (appt) onRepeat(appt, rule);
+  };
+
+  const inSeries = value?.seriesId != null;
+
+  const fieldClass =
+    'w-full rounded-xl bg-neutral-900/70 border border-neutral-700/70 focus:border-white/70 focus:outline-none px-3 py-2 text-sm';
+  const labelClass = 'block text-[11px] uppercase tracking-[0.14em] text-neutral-400 mb-1';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <form
+        onSubmit={submit}
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        className="w-full sm:w-[min(100%-28px,520px)] max-h-[92vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-6 space-y-3"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div className="text-[clamp(20px,4vw,28px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+            {title}
+          </div>
+          <div className="shrink-0 flex gap-2">
+            {value && (
+              <button
+                type="button"
+                onClick={onShowClient}
+                className="rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-3 py-1.5 text-[11px] uppercase tracking-[0.14em] text-neutral-300"
+              >
+                Клиент
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onShowHistory}
+              className="rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-3 py-1.5 text-[11px] uppercase tracking-[0.14em] text-neutral-300"
+            >
+              История
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Име</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} className={fieldClass} autoFocus />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Телефон</label>
+            <input type="tel" inputMode="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={fieldClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Цена</label>
+            <input inputMode="decimal" value={price} onChange={(e) => setPrice(e.target.value)} className={fieldClass} />
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Услуга</label>
+          <input list="bushi-services" value={service} onChange={(e) => setService(e.target.value)} className={fieldClass} />
+          <datalist id="bushi-services">
+            {SERVICE_SUGGESTIONS.map((sv) => (
+              <option key={sv} value={sv} />
+            ))}
+          </datalist>
+        </div>
+
+        <div>
+          <label className={labelClass}>Продължителност</label>
+          <select value={duration} onChange={(e) => setDuration(Number(e.target.value))} className={fieldClass}>
+            {durationOptions.map((m) => (
+              <option key={m} value={m} disabled={m > maxDuration}>
+                {formatDuration(m)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className={labelClass}>Бележки</label>
+          <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} className={`${fieldClass} resize-none`} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Статус</label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {APPOINTMENT_STATUSES.map((st) => (
+              <button
+                key={st}
+                type="button"
+                onClick={() => setStatus(st)}
+                className={`rounded-xl border px-2 py-2 text-xs transition ${
+                  st === status ? 'border-white bg-white text-black' : 'border-neutral-700/70 bg-neutral-900/60 text-neutral-200'
+                }`}
+              >
+                {STATUS_LABELS[st]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {inSeries && (
+          <div className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-3 space-y-2">
+            <div className="text-xs text-neutral-400">↻ Повтарящ се час. „Запази“ променя само този.</div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  const appt = fromForm();
+                  if (appt) onSaveSeries(appt);
+                }}
+                className="flex-1 rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-2 py-2 text-xs"
+              >
+                Запази за този и следващите
+              </button>
+              <button
+                type="button"
+                onClick={onEndSeries}
+                className="flex-1 rounded-xl border border-red-700/60 bg-red-950/20 px-2 py-2 text-xs text-red-200"
+              >
+                Изтрий този и следващите
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!inSeries && !!value && (
+          <div className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-3 space-y-2">
+            {!repeatOpen ? (
+              <button type="button" onClick={() => setRepeatOpen(true)} className="w-full text-left text-xs text-neutral-300">
+                ↻ Повтаряй…
+              </button>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  <select value={repeatEvery} onChange={(e) => setRepeatEvery(e.target.value)} className={`${fieldClass} col-span-3 sm:col-span-1`}>
+                    {REPEAT_OPTIONS.map((o) => (
+                      <option key={o.key} value={o.key}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    inputMode="numeric"
+                    value={repeatCount}
+                    onChange={(e) => setRepeatCount(e.target.value.replace(/\D/g, ''))}
+                    disabled={!!repeatUntil}
+                    placeholder="Пъти"
+                    aria-label="Брой пъти"
+                    className={`${fieldClass} disabled:opacity-40`}
+                  />
+                  <input
+                    type="date"
+                    value={repeatUntil}
+                    onChange={(e) => setRepeatUntil(e.target.value)}
+                    aria-label="До дата"
+                    className={fieldClass}
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={repeat}
+                  className="w-full rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-2 py-2 text-xs uppercase tracking-[0.14em]"
+                >
+                  {repeatUntil ? 'Създай серия до датата' : `Създай серия (${repeatCount || 8} пъти)`}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2 pt-1">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 rounded-2xl border border-neutral-700/70 bg-neutral-900/60 py-2.5 text-sm uppercase tracking-[0.14em]"
+          >
+            Отказ
+          </button>
+          <button type="submit" className="flex-1 rounded-2xl bg-white text-black font-semibold py-2.5 text-sm uppercase tracking-[0.14em]">
+            Запази
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// =============================================================================
+// History sheet: timeline of one slot (or a whole day) with restore
+// =============================================================================
+const HISTORY_ACTION_LABELS: Record<HistoryEntry['action'], string> = {
+  set: 'Промяна',
+  move: 'Преместен',
+  clear: 'Изтрит',
+  overwrite: 'Презаписан',
+  book: 'Онлайн',
+  restore: 'Възстановен',
+};
+
+const deviceLabel = (ua: string) => {
+  if (!ua) return '';
+  if (/iPhone/.test(ua)) return 'iPhone';
+  if (/iPad/.test(ua)) return 'iPad';
+  if (/Android/.test(ua)) return 'Android';
+  if (/Macintosh/.test(ua)) return 'Mac';
+  if (/Windows/.test(ua)) return 'Windows';
+  return 'Друго';
+};
+
+const describeAppointment = (a: Appointment | null) => {
+  if (!a) return '—';
+  if (isBlock(a)) return `⛔ ${a.name} · ${formatDuration(a.duration)}`;
+  const parts = [a.name];
+  if (a.status !== 'booked') parts.push(STATUS_LABELS[a.status]);
+  if (a.service) parts.push(a.service);
+  parts.push(formatDuration(a.duration));
+  return parts.join(' · ');
+};
+
+function HistorySheet({
+  title,
+  day,
+  barber,
+  time,
+  barberLabel,
+  current,
+  onRestore,
+  onClose,
+}: {
+  title: string;
+  day: string;
+  // null = every barber / every slot of the day
+  barber: string | null;
+  time: string | null;
+  barberLabel?: (id: string) => string;
+  current: (barber: string, time: string) => Appointment | undefined;
+  onRestore: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}) {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchHistory(day, barber, time).then((list) => {
+      if (cancelled) return;
+      if (list) setEntries(list);
+      else setFailed(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [day, barber, time]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const formatAt = (iso: string) => {
+    const d = new Date(iso);
+    if (Number.isNaN(d.getTime())) return '';
+    return `${d.getDate()} ${MONTHS[d.getMonth()]} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        className="w-full sm:w-[min(100%-28px,560px)] max-h-[92vh] flex flex-col rounded-t-3xl sm:rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-6"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="flex items-start justify-between gap-3 mb-3">
+          <div className="text-[clamp(20px,4vw,28px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+            {title}
+          </div>
+          <button type="button" onClick={onClose} className="text-neutral-400 hover:text-white text-xl leading-none" aria-label="Затвори">
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {failed && <div className="text-sm text-neutral-400">Историята не може да се зареди.</div>}
+          {!failed && !entries && <div className="text-sm text-neutral-400">Зареждане…</div>}
+          {entries && entries.length === 0 && <div className="text-sm text-neutral-400">Няма промени.</div>}
+          {entries?.map((e) => {
+            const now = current(e.barber, e.time);
+            const canRestore = !sameAppointment(now ?? null, e.old);
+            return (
+              <div key={e.id} className="rounded-2xl border border-neutral-800 bg-neutral-900/60 px-3 py-2.5">
+                <div className="flex items-center justify-between gap-2 text-[11px] text-neutral-400">
+                  <span>
+                    {formatAt(e.at)} · {HISTORY_ACTION_LABELS[e.action]}
+                    {time == null && <> · {e.time}</>}
+                    {barber == null && barberLabel && <> · {barberLabel(e.barber)}</>}
+                  </span>
+                  <span>{e.mine ? 'това устройство' : deviceLabel(e.device)}</span>
+                </div>
+                <div className="mt-1 text-sm">
+                  <span className="text-neutral-500 line-through">{describeAppointment(e.old)}</span>
+                  <span className="text-neutral-500"> → </span>
+                  <span>{describeAppointment(e.new)}</span>
+                </div>
+                {canRestore && (
+                  <button
+                    type="button"
+                    onClick={() => onRestore(e)}
+                    className="mt-2 rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-3 py-1 text-[11px] uppercase tracking-[0.14em] text-neutral-200 hover:border-white/60"
+                  >
+                    {e.old ? 'Върни предишното' : 'Изчисти'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Client profile: every linked visit, stats and directory notes
+// =============================================================================
+function ClientProfileSheet({
+  clientId,
+  dayLabel,
+  barberLabel,
+  onOpenVisit,
+  onClose,
+}: {
+  clientId: number;
+  dayLabel: (dayISO: string) => string;
+  barberLabel?: (id: string) => string;
+  onOpenVisit: (visit: ClientVisit) => void;
+  onClose: () => void;
+}) {
+  const [profile, setProfile] = useState<ClientProfile | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchClientProfile(clientId).then((p) => {
+      if (cancelled) return;
+      if (!p) return setFailed(true);
+      setProfile(p);
+      setNotes(p.client.notes);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const saveNotes = async () => {
+    if (!profile || saving) return;
+    setSaving(true);
+    const saved = await saveClient(profile.client.id, { notes });
+    setSaving(false);
+    if (saved) setProfile({ ...profile, client: saved });
+  };
+
+  // Newest first: upcoming on top, then the past
+  const visits = profile ? [...profile.visits].reverse() : [];
+  const stats = profile?.stats;
+  const statCard = 'rounded-2xl border border-neutral-800 bg-neutral-900/60 px-3 py-2';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        className="w-full sm:w-[min(100%-28px,560px)] max-h-[92vh] flex flex-col rounded-t-3xl sm:rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-6"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="flex items-start justify-between gap-3 mb-3">
+          <div className="min-w-0">
+            <div className="text-[clamp(20px,4vw,28px)] leading-none select-none truncate" style={{ fontFamily: BRAND.fontTitle }}>
+              {profile?.client.name ?? 'Клиент'}
+            </div>
+            {profile?.client.phone && <div className="mt-1 text-sm text-neutral-400 tabular-nums">{profile.client.phone}</div>}
+          </div>
+          <button type="button" onClick={onClose} className="text-neutral-400 hover:text-white text-xl leading-none" aria-label="Затвори">
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+          {failed && <div className="text-sm text-neutral-400">Профилът не може да се зареди.</div>}
+          {!failed && !profile && <div className="text-sm text-neutral-400">Зареждане…</div>}
+
+          {profile && stats && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                <div className={statCard}>
+                  <div className="text-lg">{stats.visits}</div>
+                  <div className="text-[10px] uppercase tracking-[0.12em] text-neutral-400">Посещения</div>
+                </div>
+                <div className={statCard}>
+                  <div className={`text-lg ${stats.noShows > 0 ? 'text-amber-400' : ''}`}>{stats.noShows}</div>
+                  <div className="text-[10px] uppercase tracking-[0.12em] text-neutral-400">Неявявания</div>
+                </div>
+                <div className={statCard}>
+                  <div className="text-lg">{stats.lastVisit ? stats.lastVisit.slice(5).split('-').reverse().join('.') : '—'}</div>
+                  <div className="text-[10px] uppercase tracking-[0.12em] text-neutral-400">Последно</div>
+                </div>
+                <div className={statCard}>
+                  <div className="text-lg">{stats.avgIntervalDays != null ? `${stats.avgIntervalDays} дни` : '—'}</div>
+                  <div className="text-[10px] uppercase tracking-[0.12em] text-neutral-400">На всеки</div>
+                </div>
+              </div>
+
+              <div>
+                <div className="text-[11px] uppercase tracking-[0.14em] text-neutral-400 mb-1">Бележки</div>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  onBlur={() => {
+                    if (notes !== profile.client.notes) saveNotes();
+                  }}
+                  rows={2}
+                  className="w-full rounded-xl bg-neutral-900/70 border border-neutral-700/70 focus:border-white/70 focus:outline-none px-3 py-2 text-sm resize-none"
+                />
+              </div>
+
+              <div className="space-y-2">
+                {visits.length === 0 && <div className="text-sm text-neutral-400">Няма свързани часове.</div>}
+                {visits.map((v) => {
+                  const upcoming = v.day >= profile.today;
+                  return (
+                    <button
+                      key={`${v.barber}_${v.day}_${v.time}`}
+                      type="button"
+                      onClick={() => onOpenVisit(v)}
+                      className={`w-full text-left rounded-2xl border px-3 py-2.5 transition hover:border-white/50 ${
+                        upcoming ? 'border-neutral-600 bg-neutral-900/80' : 'border-neutral-800 bg-neutral-900/40'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2 text-[11px] text-neutral-400">
+                        <span>
+                          {dayLabel(v.day)} · {v.time}
+                          {barberLabel && <> · {barberLabel(v.barber)}</>}
+                        </span>
+                        {upcoming && <span className="text-white/80">Предстои</span>}
+                      </div>
+                      <div className="mt-1 text-sm">{describeAppointment(v.appointment)}</div>
+                    </button>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Waitlist sheet: who is waiting for a slot on one day
+// =============================================================================
+function WaitlistSheet({
+  title,
+  day,
+  entries,
+  barbers,
+  defaultBarber,
+  onAdd,
+  onRemove,
+  onClose,
+}: {
+  title: string;
+  day: string;
+  entries: WaitlistEntry[];
+  // More than one: each entry can ask for a specific barber
+  barbers: Barber[];
+  defaultBarber: string | null;
+  onAdd: (fields: WaitlistFields) => Promise<boolean>;
+  onRemove: (entry: WaitlistEntry) => void;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [fromTime, setFromTime] = useState('');
+  const [toTime, setToTime] = useState('');
+  const [barber, setBarber] = useState(defaultBarber ?? '');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || saving) return;
+    setSaving(true);
+    const ok = await onAdd({
+      day,
+      barber: barber || null,
+      name: name.trim(),
+      phone: phone.trim(),
+      fromTime: fromTime || null,
+      toTime: toTime || null,
+    });
+    setSaving(false);
+    if (!ok) return;
+    setName('');
+    setPhone('');
+    setFromTime('');
+    setToTime('');
+  };
+
+  const barberLabel = (id: string | null) => (id ? barbers.find((b) => b.id === id)?.name ?? id : 'Всеки');
+  const fieldClass =
+    'w-full rounded-xl bg-neutral-900/70 border border-neutral-700/70 focus:border-white/70 focus:outline-none px-3 py-2 text-sm';
+  const labelClass = 'block text-[11px] uppercase tracking-[0.14em] text-neutral-400 mb-1';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        className="w-full sm:w-[min(100%-28px,520px)] max-h-[92vh] flex flex-col rounded-t-3xl sm:rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-6"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="flex items-start justify-between gap-3 mb-3">
+          <div className="text-[clamp(20px,4vw,28px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+            {title}
+          </div>
+          <button type="button" onClick={onClose} className="text-neutral-400 hover:text-white text-xl leading-none" aria-label="Затвори">
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {entries.length === 0 && <div className="text-sm text-neutral-400">Никой не чака за този ден.</div>}
+          {entries.map((e, i) => (
+            <div key={e.id} className="flex items-center gap-3 rounded-2xl border border-neutral-800 bg-neutral-900/60 px-3 py-2.5">
+              <div className="text-xs text-neutral-500 tabular-nums">{i + 1}.</div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm truncate">
+                  {e.name}
+                  {e.phone && <span className="text-neutral-400 tabular-nums"> · {e.phone}</span>}
+                </div>
+                <div className="text-[11px] text-neutral-400">
+                  {e.fromTime || e.toTime ? `${e.fromTime ?? '…'} – ${e.toTime ?? '…'}` : 'По всяко време'}
+                  {barbers.length > 1 && <> · {barberLabel(e.barber)}</>}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRemove(e)}
+                className="shrink-0 rounded-lg border border-neutral-700/70 px-2 py-1 text-xs text-neutral-300 hover:border-white/60"
+              >
+                Махни
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={submit} className="mt-4 space-y-3 border-t border-neutral-800 pt-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Име</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Телефон</label>
+              <input type="tel" inputMode="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+          <div className={`grid gap-3 ${barbers.length > 1 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+            <div>
+              <label className={labelClass}>От</label>
+              <input type="time" step={300} value={fromTime} onChange={(e) => setFromTime(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>До</label>
+              <input type="time" step={300} value={toTime} onChange={(e) => setToTime(e.target.value)} className={fieldClass} />
+            </div>
+            {barbers.length > 1 && (
+              <div>
+                <label className={labelClass}>Бръснар</label>
+                <select value={barber} onChange={(e) => setBarber(e.target.value)} className={fieldClass}>
+                  <option value="">Всеки</option>
+                  {barbers.map((b) => (
+                    <option key={b.id} value={b.id}>
+                      {b.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={!name.trim() || saving}
+            className="w-full rounded-2xl bg-white text-black font-semibold py-2.5 text-sm uppercase tracking-[0.14em] disabled:opacity-40"
+          >
+            Добави в списъка
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// A slot just freed up and someone on the waitlist fits it
+function WaitlistOfferSheet({
+  title,
+  entry,
+  onAccept,
+  onDismiss,
+}: {
+  title: string;
+  entry: WaitlistEntry;
+  onAccept: () => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70">
+      <div
+        className="w-full sm:w-[min(100%-28px,520px)] rounded-t-3xl sm:rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-6 space-y-3"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="text-[clamp(20px,4vw,28px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+          {title}
+        </div>
+        <div className="text-sm text-neutral-300">Освободи се час. Първият чакащ, на когото му пасва:</div>
+        <div className="rounded-2xl border border-neutral-800 bg-neutral-900/60 px-3 py-2.5">
+          <div className="text-sm">{entry.name}</div>
+          {entry.phone && (
+            <a href={`tel:${entry.phone.replace(/\s+/g, '')}`} className="text-sm text-neutral-300 tabular-nums underline">
+              {entry.phone}
+            </a>
+          )}
+        </div>
+        <div className="flex gap-2 pt-1">
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="flex-1 rounded-2xl border border-neutral-700/70 bg-neutral-900/60 py-2.5 text-sm uppercase tracking-[0.14em]"
+          >
+            Не сега
+          </button>
+          <button
+            type="button"
+            onClick={onAccept}
+            className="flex-1 rounded-2xl bg-white text-black font-semibold py-2.5 text-sm uppercase tracking-[0.14em]"
+          >
+            Запиши
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Agenda: every upcoming booking, grouped by day, loading further as it scrolls
+// =============================================================================
+type AgendaEntry = { barberId: string; dayISO: string; time: string; appt: Appointment };
+
+// Days the agenda adds per page, and how far ahead it goes at most
+const AGENDA_PAGE_DAYS = 14;
+const AGENDA_MAX_DAYS = 366;
+
+function AgendaSheet({
+  groups,
+  todayISO,
+  loading,
+  canLoadMore,
+  dayLabel,
+  barberLabel,
+  onLoadMore,
+  onOpen,
+  onArrived,
+  onCancel,
+  onMove,
+  onClose,
+}: {
+  groups: { dayISO: string; list: AgendaEntry[] }[];
+  todayISO: string;
+  // The days asked for are still being read from the server
+  loading: boolean;
+  canLoadMore: boolean;
+  dayLabel: (day: string) => string;
+  barberLabel?: (id: string) => string;
+  onLoadMore: () => void;
+  onOpen: (e: AgendaEntry) => void;
+  onArrived: (e: AgendaEntry) => void;
+  onCancel: (e: AgendaEntry) => void;
+  onMove: (e: AgendaEntry) => void;
+  onClose: () => void;
+}) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Minutes since midnight, for the "now" marker
+  const [nowMin, setNowMin] = useState(() => {
+    const d = new Date();
+    return d.getHours() * 60 + d.getMinutes();
+  });
+  useEffect(() => {
+    const t = window.setInterval(() => {
+      const d = new Date();
+      setNowMin(d.getHours() * 60 + d.getMinutes());
+    }, 30000);
+    return () => window.clearInterval(t);
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // A new observer after every page reports at once whether the end is still
+  // in sight, so short pages keep loading until the list fills the screen
+  useEffect(() => {
+    const root = listRef.current;
+    const end = endRef.current;
+    if (!root || !end || loading || !canLoadMore) return;
+    const io = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) onLoadMore();
+    }, { root, rootMargin: '0px 0px 200px 0px' });
+    io.observe(end);
+    return () => io.disconnect();
+  }, [loading, canLoadMore, onLoadMore]);
+
+  const nowMarker = (
+    <div key="now" className="flex items-center gap-2 py-1 text-[11px] uppercase tracking-[0.14em] text-red-400">
+      <span className="w-2 h-2 rounded-full bg-red-500" />
+      Сега · {minutesToTime(nowMin)}
+      <span className="flex-1 h-px bg-red-500/60" />
+    </div>
+  );
+
+  const row = (e: AgendaEntry) => {
+    const start = timeToMinutes(e.time);
+    const past = e.dayISO === todayISO && start + e.appt.duration <= nowMin;
+    const current = e.dayISO === todayISO && start <= nowMin && nowMin < start + e.appt.duration;
+    const { status } = e.appt;
+    return (
+      <div
+        key={`${e.barberId}_${e.dayISO}_${e.time}`}
+        className={`flex items-center gap-3 rounded-xl border bg-neutral-950/60 px-3 py-2 ${
+          current ? 'border-white/60' : STATUS_ROW_CLASS[status]
+        } ${past ? 'opacity-50' : ''}`}
+      >
+        <button type="button" onClick={() => onOpen(e)} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+          <div className="text-sm font-semibold tabular-nums">
+            {e.time}
+            <div className="text-[11px] font-normal text-neutral-500">– {minutesToTime(start + e.appt.duration)}</div>
+          </div>
+          <div className="min-w-0">
+            <div className={`text-sm text-neutral-200 truncate ${status === 'cancelled' ? 'line-through text-neutral-500' : ''}`}>
+              {e.appt.name}
+              {barberLabel && <span className="text-neutral-500"> · {barberLabel(e.barberId)}</span>}
+            </div>
+            <div className="text-[11px] text-neutral-500 truncate">
+              {[e.appt.service, status !== 'booked' ? STATUS_LABELS[status] : ''].filter(Boolean).join(' · ')}
+            </div>
+          </div>
+        </button>
+        {status !== 'cancelled' && (
+          <div className="shrink-0 flex gap-1.5">
+            <button
+              type="button"
+              onClick={() => onArrived(e)}
+              className={`w-8 h-8 rounded-lg border grid place-items-center text-sm transition ${
+                status === 'arrived' ? 'bg-emerald-700/40 border-emerald-600/70' : 'border-neutral-700/60 hover:border-white/60'
+              }`}
+              title={status === 'arrived' ? 'Не е дошъл' : 'Дошъл'}
+              aria-label="Дошъл"
+            >
+              ✓
+            </button>
+            <button
+              type="button"
+              onClick={() => onMove(e)}
+              className="w-8 h-8 rounded-lg border border-neutral-700/60 hover:border-white/60 grid place-items-center text-sm"
+              title="Премести"
+              aria-label="Премести"
+            >
+              ⠿
+            </button>
+            <button
+              type="button"
+              onClick={() => onCancel(e)}
+              className="w-8 h-8 rounded-lg border border-neutral-700/60 hover:border-red-600/70 grid place-items-center text-sm"
+              title="Откажи"
+              aria-label="Откажи"
+            >
+              ×
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-[min(100%-28px,860px)] max-w-2xl rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-7"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div className="text-[clamp(22px,4.2vw,32px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+            Предстоящи
+          </div>
+          <button type="button" onClick={onClose} className="text-neutral-400 hover:text-white text-xl leading-none" aria-label="Затвори">
+            ×
+          </button>
+        </div>
+
+        <div ref={listRef} className="mt-4 max-h-[66vh] overflow-y-auto pr-1 space-y-3">
+          {groups[0]?.dayISO !== todayISO && nowMarker}
+          {groups.map(({ dayISO, list }) => {
+            // Today: the marker goes before the first booking that isn't over yet
+            const upcoming = list.findIndex((e) => timeToMinutes(e.time) + e.appt.duration > nowMin);
+            const nowAt = dayISO !== todayISO ? -1 : upcoming < 0 ? list.length : upcoming;
+            return (
+              <div key={dayISO} className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-3">
+                <div className="text-sm text-neutral-200 mb-2">{dayLabel(dayISO)}</div>
+                <div className="space-y-2">
+                  {list.map((e, i) => (
+                    <React.Fragment key={`${e.barberId}_${e.time}`}>
+                      {i === nowAt && nowMarker}
+                      {row(e)}
+                    </React.Fragment>
+                  ))}
+                  {nowAt === list.length && nowMarker}
+                </div>
+              </div>
+            );
+          })}
+          {!loading && groups.length === 0 && <div className="text-neutral-400 text-sm">Няма предстоящи часове.</div>}
+          <div ref={endRef} className="py-2 text-center text-xs text-neutral-500">
+            {loading ? 'Зареждане…' : canLoadMore ? '' : 'Край на списъка'}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Block sheet: mark a span of slots or whole days as unavailable
+// =============================================================================
+// fromTime/toTime null = the whole opening hours of each day
+type BlockRange = {
+  barbers: string[];
+  fromDay: string;
+  toDay: string;
+  fromTime: string | null;
+  toTime: string | null;
+  reason: string;
+};
+
+const BLOCK_REASONS = ['Почивка', 'Отпуск', 'Затворено'];
+
+// Longest range the sheet takes at once (vacations)
+const MAX_BLOCK_DAYS = 62;
+
+function BlockSheet({
+  day,
+  barbers,
+  defaultBarber,
+  slotMinutes,
+  onBlock,
+  onUnblock,
+  onClose,
+}: {
+  day: string;
+  barbers: Barber[];
+  defaultBarber: string | null;
+  slotMinutes: number;
+  onBlock: (range: BlockRange) => void;
+  onUnblock: (range: BlockRange) => void;
+  onClose: () => void;
+}) {
+  const [reason, setReason] = useState(BLOCK_REASONS[0]);
+  const [fromDay, setFromDay] = useState(day);
+  const [toDay, setToDay] = useState(day);
+  const [wholeDay, setWholeDay] = useState(false);
+  const [fromTime, setFromTime] = useState('13:00');
+  const [toTime, setToTime] = useState(minutesToTime(timeToMinutes('13:00') + slotMinutes));
+  const [barber, setBarber] = useState(defaultBarber ?? '');
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const dayCount = fromDay && toDay ? Math.round((Date.parse(toDay) - Date.parse(fromDay)) / 86400000) + 1 : 0;
+  const error =
+    dayCount < 1
+      ? 'Крайният ден е преди началния'
+      : dayCount > MAX_BLOCK_DAYS
+        ? `Най-много ${MAX_BLOCK_DAYS} дни наведнъж`
+        : !wholeDay && (!fromTime || !toTime || fromTime >= toTime)
+          ? 'Краят трябва да е след началото'
+          : null;
+
+  const range = (): BlockRange => ({
+    barbers: barber ? [barber] : barbers.map((b) => b.id),
+    fromDay,
+    toDay,
+    fromTime: wholeDay ? null : fromTime,
+    toTime: wholeDay ? null : toTime,
+    reason: reason.trim(),
+  });
+
+  const fieldClass =
+    'w-full rounded-xl bg-neutral-900/70 border border-neutral-700/70 focus:border-white/70 focus:outline-none px-3 py-2 text-sm';
+  const labelClass = 'block text-[11px] uppercase tracking-[0.14em] text-neutral-400 mb-1';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        className="w-full sm:w-[min(100%-28px,520px)] max-h-[92vh] overflow-y-auto rounded-t-3xl sm:rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-6 space-y-3"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div className="text-[clamp(20px,4vw,28px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+            Блокирай време
+          </div>
+          <button type="button" onClick={onClose} className="text-neutral-400 hover:text-white text-xl leading-none" aria-label="Затвори">
+            ×
+          </button>
+        </div>
+
+        <div>
+          <label className={labelClass}>Причина</label>
+          <input value={reason} onChange={(e) => setReason(e.target.value)} className={fieldClass} />
+          <div className="mt-2 flex flex-wrap gap-2">
+            {BLOCK_REASONS.map((r) => (
+              <button
+                key={r}
+                type="button"
+                onClick={() => setReason(r)}
+                className={`rounded-xl border px-3 py-1 text-xs transition ${
+                  reason === r ? 'bg-white text-black border-white' : 'border-neutral-700/70 text-neutral-300 hover:border-white/60'
+                }`}
+              >
+                {r}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>От ден</label>
+            <input type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} className={fieldClass} />
+          </div>
+          <div>
+            <label className={labelClass}>До ден</label>
+            <input type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} className={fieldClass} />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-neutral-300">
+          <input type="checkbox" checked={wholeDay} onChange={(e) => setWholeDay(e.target.checked)} />
+          Цял ден
+        </label>
+
+        {!wholeDay && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>От</label>
+              <input type="time" step={300} value={fromTime} onChange={(e) => setFromTime(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>До</label>
+              <input type="time" step={300} value={toTime} onChange={(e) => setToTime(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+        )}
+
+        {barbers.length > 1 && (
+          <div>
+            <label className={labelClass}>Бръснар</label>
+            <select value={barber} onChange={(e) => setBarber(e.target.value)} className={fieldClass}>
+              <option value="">Всички</option>
+              {barbers.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        <div className="text-[11px] text-neutral-500">Записаните часове в периода остават; блокира се времето около тях.</div>
+
+        <div className="flex gap-2 pt-1">
+          <button
+            type="button"
+            disabled={!!error}
+            onClick={() => onUnblock(range())}
+            className="flex-1 rounded-2xl border border-neutral-700/70 bg-neutral-900/60 py-2.5 text-sm uppercase tracking-[0.14em] disabled:opacity-40"
+          >
+            Освободи
+          </button>
+          <button
+            type="button"
+            disabled={!!error || !reason.trim()}
+            onClick={() => onBlock(range())}
+            className="flex-1 rounded-2xl bg-white text-black font-semibold py-2.5 text-sm uppercase tracking-[0.14em] disabled:opacity-40"
+          >
+            Блокирай
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Conflict sheet: the slot changed on another device before our write landed
+// =============================================================================
+function ConflictSheet({
+  title,
+  conflict,
+  remaining,
+  onResolve,
+}: {
+  title: string;
+  conflict: { mine: Appointment | null; theirs: Appointment | null };
+  remaining: number;
+  onResolve: (keepMine: boolean) => void;
+}) {
+  const card = 'rounded-2xl border border-neutral-800 bg-neutral-900/60 px-3 py-2.5';
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70">
+      <div
+        className="w-full sm:w-[min(100%-28px,520px)] rounded-t-3xl sm:rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-6 space-y-3"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="text-[clamp(20px,4vw,28px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+          {title}
+        </div>
+        <div className="text-sm text-neutral-300">Този час беше променен на друго устройство, докато го редактирахте.</div>
+        <div className={card}>
+          <div className="text-[11px] uppercase tracking-[0.14em] text-neutral-400 mb-1">Моето</div>
+          <div className="text-sm">{describeAppointment(conflict.mine)}</div>
+        </div>
+        <div className={card}>
+          <div className="text-[11px] uppercase tracking-[0.14em] text-neutral-400 mb-1">Другото устройство</div>
+          <div className="text-sm">{describeAppointment(conflict.theirs)}</div>
+        </div>
+        {remaining > 0 && <div className="text-xs text-neutral-500">Още {remaining} конфликта</div>}
+        <div className="flex gap-2 pt-1">
+          <button
+            type="button"
+            onClick={() => onResolve(false)}
+            className="flex-1 rounded-2xl border border-neutral-700/70 bg-neutral-900/60 py-2.5 text-sm uppercase tracking-[0.14em]"
+          >
+            Вземи тяхното
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve(true)}
+            className="flex-1 rounded-2xl bg-white text-black font-semibold py-2.5 text-sm uppercase tracking-[0.14em]"
+          >
+            Запази моето
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Sync status: header pill + panel of queued writes (retry / discard)
+// =============================================================================
+function SyncIndicator({
+  online,
+  pending,
+  failed,
+  onOpen,
+}: {
+  online: boolean;
+  pending: number;
+  failed: number;
+  onOpen: () => void;
+}) {
+  const [label, dot] = !online
+    ? [pending + failed > 0 ? `Офлайн · ${pending + failed}` : 'Офлайн', 'bg-neutral-500']
+    : failed > 0
+      ? [`${failed} неизпратени`, 'bg-red-500']
+      : pending > 0
+        ? ['Синхронизиране…', 'bg-amber-400 animate-pulse']
+        : ['Синхронизирано', 'bg-emerald-500'];
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      disabled={pending + failed === 0}
+      className="inline-flex items-center gap-2 rounded-full border border-neutral-800 bg-neutral-950/80 px-3 py-1 text-[11px] uppercase tracking-[0.14em] text-neutral-300 enabled:hover:border-white/50 transition"
+      style={{ fontFamily: BRAND.fontBody }}
+    >
+      <span className={`w-1.5 h-1.5 rounded-full ${dot}`} />
+      {label}
+    </button>
+  );
+}
+
+function PendingOpsPanel({
+  ops,
+  dayLabel,
+  barberLabel,
+  onRetry,
+  onDiscard,
+  onClose,
+}: {
+  ops: [string, PendingOp][];
+  dayLabel: (dayISO: string) => string;
+  barberLabel?: (id: string) => string;
+  // key = one op, null = every op that gave up
+  onRetry: (key: string | null) => void;
+  onDiscard: (key: string) => void;
+  onClose: () => void;
+}) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const failedFirst = [...ops].sort(
+    ([, a], [, b]) => Number(b.tries >= MAX_OP_TRIES) - Number(a.tries >= MAX_OP_TRIES) || (a.day + a.time).localeCompare(b.day + b.time)
+  );
+  const anyFailed = ops.some(([, op]) => op.tries >= MAX_OP_TRIES);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        onMouseDown={(e) => e.stopPropagation()}
+        onTouchStart={(e) => e.stopPropagation()}
+        className="w-full sm:w-[min(100%-28px,560px)] max-h-[92vh] flex flex-col rounded-t-3xl sm:rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-6"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="flex items-start justify-between gap-3 mb-3">
+          <div className="text-[clamp(20px,4vw,28px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+            Неизпратени промени
+          </div>
+          <button type="button" onClick={onClose} className="text-neutral-400 hover:text-white text-xl leading-none" aria-label="Затвори">
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {ops.length === 0 && <div className="text-sm text-neutral-400">Всичко е изпратено.</div>}
+          {failedFirst.map(([key, op]) => {
+            const failed = op.tries >= MAX_OP_TRIES;
+            return (
+              <div key={key} className="rounded-2xl border border-neutral-800 bg-neutral-900/60 px-3 py-2.5">
+                <div className="flex items-center justify-between gap-2 text-[11px] text-neutral-400">
+                  <span>
+                    {dayLabel(op.day)} · {op.time}
+                    {barberLabel && op.barber && <> · {barberLabel(op.barber)}</>}
+                  </span>
+                  <span className={failed ? 'text-red-400' : ''}>{failed ? 'Спряно' : 'Изпраща се…'}</span>
+                </div>
+                <div className="mt-1 text-sm">{op.value ? describeAppointment(op.value) : 'Изтриване'}</div>
+                {op.error && <div className="mt-1 text-[11px] text-neutral-500">{op.error}</div>}
+                {failed && (
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onRetry(key)}
+                      className="rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-3 py-1 text-[11px] uppercase tracking-[0.14em] text-neutral-200 hover:border-white/60"
+                    >
+                      Опитай пак
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDiscard(key)}
+                      className="rounded-xl border border-red-900/70 bg-red-950/30 px-3 py-1 text-[11px] uppercase tracking-[0.14em] text-red-200 hover:border-red-500/70"
+                    >
+                      Откажи
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {anyFailed && (
+          <button
+            type="button"
+            onClick={() => onRetry(null)}
+            className="mt-3 rounded-2xl bg-white text-black font-semibold py-2.5 text-sm uppercase tracking-[0.14em]"
+          >
+            Опитай всички пак
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Schedule editor (opening hours, lunch breaks, closed dates, slot size)
+// =============================================================================
+const DEFAULT_DAY_HOURS: NonNullable<DayHours> = { open: '09:00', close: '19:00', breaks: [] };
+
+function ScheduleEditor({
+  schedule,
+  onSave,
+  onClose,
+}: {
+  schedule: ShopSchedule;
+  onSave: (next: ShopSchedule) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<ShopSchedule>(() => JSON.parse(JSON.stringify(schedule)));
+  const [newClosed, setNewClosed] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const setDay = (idx: number, hours: DayHours) =>
+    setDraft((d) => ({ ...d, weekly: d.weekly.map((h, i) => (i === idx ? hours : h)) }));
+
+  const addClosed = () => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newClosed)) return;
+    setDraft((d) => ({ ...d, closedDates: Array.from(new Set([...d.closedDates, newClosed])).sort() }));
+    setNewClosed('');
+  };
+
+  const submit = async () => {
+    setSaving(true);
+    setError('');
+    const ok = await onSave(draft);
+    setSaving(false);
+    if (ok) onClose();
+    else setError('Грешка при запис');
+  };
+
+  const timeClass = 'rounded-lg bg-neutral-900/70 border border-neutral-700/70 px-2 py-1 text-sm tabular-nums w-[5.5rem]';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-[min(100%-28px,860px)] max-w-2xl max-h-[92vh] overflow-y-auto rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-7 space-y-5"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="text-[clamp(22px,4.2vw,32px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+          Работно време
+        </div>
+
+        <div>
+          <div className="text-[11px] uppercase tracking-[0.14em] text-neutral-400 mb-2">Продължителност на час</div>
+          <div className="flex flex-wrap gap-2">
+            {SLOT_SIZES.map((m) => (
+              <button
+                key={m}
+                onClick={() => setDraft((d) => ({ ...d, slotMinutes: m }))}
+                className={`rounded-xl border px-3 py-1.5 text-sm ${
+                  draft.slotMinutes === m ? 'border-white bg-white text-black' : 'border-neutral-700/70 bg-neutral-900/60'
+                }`}
+              >
+                {m} мин
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {WEEKDAYS_FULL.map((label, idx) => {
+            const hours = draft.weekly[idx];
+            const brk = hours?.breaks[0];
+            return (
+              <div key={label} className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-3 flex flex-wrap items-center gap-x-3 gap-y-2">
+                <label className="flex items-center gap-2 min-w-[9rem] text-sm">
+                  <input type="checkbox" checked={!!hours} onChange={(e) => setDay(idx, e.target.checked ? { ...DEFAULT_DAY_HOURS } : null)} />
+                  {label}
+                </label>
+                {hours ? (
+                  <>
+                    <div className="flex items-center gap-1.5">
+                      <input type="time" value={hours.open} onChange={(e) => setDay(idx, { ...hours, open: e.target.value })} className={timeClass} />
+                      <span className="text-neutral-500">–</span>
+                      <input type="time" value={hours.close} onChange={(e) => setDay(idx, { ...hours, close: e.target.value })} className={timeClass} />
+                    </div>
+                    <div className="flex items-center gap-1.5 text-xs text-neutral-400">
+                      почивка
+                      <input
+                        type="time"
+                        value={brk?.start ?? ''}
+                        onChange={(e) =>
+                          setDay(idx, {
+                            ...hours,
+                            breaks: e.target.value ? [{ start: e.target.value, end: brk?.end || e.target.value }, ...hours.breaks.slice(1)] : hours.breaks.slice(1),
+                          })
+                        }
+                        className={timeClass}
+                      />
+                      <span className="text-neutral-500">–</span>
+                      <input
+                        type="time"
+                        value={brk?.end ?? ''}
+                        disabled={!brk}
+                        onChange={(e) => brk && setDay(idx, { ...hours, breaks: [{ start: brk.start, end: e.target.value }, ...hours.breaks.slice(1)] })}
+                        className={timeClass}
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <span className="text-sm text-neutral-500">Почивен ден</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div>
+          <div className="text-[11px] uppercase tracking-[0.14em] text-neutral-400 mb-2">Неработни дати</div>
+          <div className="flex gap-2">
+            <input type="date" value={newClosed} onChange={(e) => setNewClosed(e.target.value)} className="flex-1 rounded-xl bg-neutral-900/70 border border-neutral-700/70 px-3 py-2 text-sm" />
+            <button onClick={addClosed} className="rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-4 text-sm">
+              Добави
+            </button>
+          </div>
+          {draft.closedDates.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {draft.closedDates.map((d) => (
+                <button
+                  key={d}
+                  onClick={() => setDraft((x) => ({ ...x, closedDates: x.closedDates.filter((c) => c !== d) }))}
+                  className="rounded-full border border-neutral-700/70 bg-neutral-900/60 px-3 py-1 text-xs tabular-nums"
+                  title="Премахни"
+                >
+                  {d} ✕
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {error && <div className="text-xs text-red-400">{error}</div>}
+
+        <div className="flex gap-2">
+          <button onClick={onClose} className="flex-1 rounded-2xl border border-neutral-700/70 bg-neutral-900/60 py-2.5 text-sm uppercase tracking-[0.14em]">
+            Отказ
+          </button>
+          <button
+            onClick={submit}
+            disabled={saving}
+            className="flex-1 rounded-2xl bg-white text-black font-semibold py-2.5 text-sm uppercase tracking-[0.14em] disabled:opacity-60"
+          >
+            Запази
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Backups: server snapshots, download, restore (whole calendar or one day)
+// =============================================================================
+const SNAPSHOT_KIND_LABELS: Record<SnapshotInfo['kind'], string> = {
+  scheduled: 'Автоматичен',
+  manual: 'Ръчен',
+  pre_restore: 'Преди възстановяване',
+  pre_overwrite: 'Преди импорт',
+};
+
+const DIFF_PREVIEW_LIMIT = 40;
+
+function SnapshotsPanel({
+  barbers,
+  defaultBarber,
+  defaultDay,
+  onRestored,
+  onClose,
+}: {
+  barbers: Barber[];
+  defaultBarber: string | null;
+  defaultDay: string;
+  onRestored: (text: string) => void;
+  onClose: () => void;
+}) {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [target, setTarget] = useState<SnapshotInfo | null>(null);
+  const [wholeCalendar, setWholeCalendar] = useState(false);
+  const [day, setDay] = useState(defaultDay);
+  const [barber, setBarber] = useState<string | null>(defaultBarber);
+  const [preview, setPreview] = useState<StoreDiff | null>(null);
+  // Commits exactly what the preview showed (see POST /api/snapshots/:id)
+  const [confirmToken, setConfirmToken] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const list = await fetchSnapshots();
+    if (list) setSnapshots(list);
+    else setError('Списъкът не може да се зареди');
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // A preview is only valid for the scope it was made for
+  useEffect(() => {
+    setPreview(null);
+    setConfirmToken(null);
+  }, [target, wholeCalendar, day, barber]);
+
+  const scope = { barber, days: wholeCalendar ? null : [day] };
+
+  const takeNow = async () => {
+    setBusy(true);
+    setError('');
+    const ok = await createSnapshot('');
+    if (ok) await reload();
+    else setError('Грешка при създаване');
+    setBusy(false);
+  };
+
+  const runPreview = async () => {
+    if (!target) return;
+    setBusy(true);
+    setError('');
+    const result = await restoreSnapshot(target.id, scope, null);
+    if (result) {
+      setPreview(result.diff);
+      setConfirmToken(result.confirmToken);
+    } else setError('Грешка при прегледа');
+    setBusy(false);
+  };
+
+  const runRestore = async () => {
+    if (!target || !preview || !confirmToken) return;
+    setBusy(true);
+    setError('');
+    const result = await restoreSnapshot(target.id, scope, confirmToken);
+    setBusy(false);
+    if (!result) {
+      setError('Възстановяването не успя. Нищо не е променено.');
+      return;
+    }
+    if (result.stale) {
+      // Show what a restore would do now; committing it takes a fresh preview
+      setPreview(result.diff);
+      setConfirmToken(null);
+      setError('Календарът се промени след прегледа. Нищо не е променено — прегледайте отново.');
+      return;
+    }
+    const { diff } = result;
+    const n = diff.added.length + diff.changed.length + diff.removed.length;
+    onRestored(`Възстановени ${n} слота от backup #${target.id}`);
+  };
+
+  const formatAt = (iso: string) => {
+    const d = new Date(iso);
+    if (Number.isNaN(d.getTime())) return iso;
+    return `${d.getDate()} ${MONTHS[d.getMonth()]} ${d.getFullYear()} · ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  };
+
+  const barberLabel = (id: string) => barbers.find((b) => b.id === id)?.name ?? id;
+  const changes = preview ? ([] as SlotChange[]).concat(preview.added, preview.changed, preview.removed) : [];
+  const pill = (active: boolean) =>
+    `rounded-xl border px-3 py-1.5 text-sm ${active ? 'border-white bg-white text-black' : 'border-neutral-700/70 bg-neutral-900/60'}`;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-[min(100%-28px,860px)] max-w-2xl max-h-[92vh] overflow-y-auto rounded-3xl border border-neutral-800 bg-neutral-950/95 shadow-2xl px-5 py-5 sm:px-7 sm:py-7 space-y-5"
+        style={{ fontFamily: BRAND.fontBody }}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-[clamp(22px,4.2vw,32px)] leading-none select-none" style={{ fontFamily: BRAND.fontTitle }}>
+            Backup
+          </div>
+          <button
+            onClick={takeNow}
+            disabled={busy}
+            className="rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-4 py-2 text-sm disabled:opacity-60"
+          >
+            Нов backup
+          </button>
+        </div>
+
+        {error && <div className="text-xs text-red-400">{error}</div>}
+
+        {!target ? (
+          <div className="space-y-2">
+            {!snapshots && !error && <div className="text-sm text-neutral-400">Зареждане…</div>}
+            {snapshots && snapshots.length === 0 && <div className="text-sm text-neutral-400">Все още няма backup.</div>}
+            {snapshots?.map((sn) => (
+              <div key={sn.id} className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-3 flex flex-wrap items-center gap-x-3 gap-y-2">
+                <div className="flex-1 min-w-[12rem]">
+                  <div className="text-sm tabular-nums">{formatAt(sn.createdAt)}</div>
+                  <div className="text-[11px] text-neutral-400">
+                    #{sn.id} · {SNAPSHOT_KIND_LABELS[sn.kind] ?? sn.kind} · {sn.rows} записа{sn.note ? ` · ${sn.note}` : ''}
+                  </div>
+                </div>
+                <a
+                  href={`${SNAPSHOTS_ENDPOINT}/${sn.id}`}
+                  download
+                  className="rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-3 py-1.5 text-xs uppercase tracking-[0.12em]"
+                >
+                  Изтегли
+                </a>
+                <button
+                  onClick={() => setTarget(sn)}
+                  className="rounded-xl border border-neutral-700/70 bg-neutral-900/60 px-3 py-1.5 text-xs uppercase tracking-[0.12em]"
+                >
+                  Възстанови…
+                </button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm text-neutral-300">
+              От backup #{target.id} · {formatAt(target.createdAt)}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setWholeCalendar(false)} className={pill(!wholeCalendar)}>
+                Един ден
+              </button>
+              <button onClick={() => setWholeCalendar(true)} className={pill(wholeCalendar)}>
+                Целия календар
+              </button>
+              {!wholeCalendar && (
+                <input
+                  type="date"
+                  value={day}
+                  onChange={(e) => e.target.value && setDay(e.target.value)}
+                  className="rounded-xl bg-neutral-900/70 border border-neutral-700/70 px-3 py-1.5 text-sm"
+                />
+              )}
+            </div>
+
+            {barbers.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                <button onClick={() => setBarber(null)} className={pill(barber === null)}>
+                  Всички
+                </button>
+                {barbers.map((b) => (
+                  <button key={b.id} onClick={() => setBarber(b.id)} className={pill(barber === b.id)}>
+                    {b.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {preview && (
+              <div className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-3 space-y-2">
+                <div className="text-sm">
+                  <span className="text-green-400">+{preview.added.length}</span> ·{' '}
+                  <span className="text-amber-300">~{preview.changed.length}</span> ·{' '}
+                  <span className="text-red-400">−{preview.removed.length}</span>
+                </div>
+                {changes.length === 0 && <div className="text-sm text-neutral-400">Няма разлики.</div>}
+                {changes.slice(0, DIFF_PREVIEW_LIMIT).map((c) => (
+                  <div key={`${c.barber}_${c.day}_${c.time}`} className="text-xs tabular-nums">
+                    <span className="text-neutral-400">
+                      {c.day} {c.time}
+                      {barbers.length > 1 ? ` · ${barberLabel(c.barber)}` : ''}:
+                    </span>{' '}
+                    <span className="text-neutral-500 line-through">{c.before?.name ?? '—'}</span> → {c.after?.name ?? '—'}
+                  </div>
+                ))}
+                {changes.length > DIFF_PREVIEW_LIMIT && (
+                  <div className="text-xs text-neutral-500">… и още {changes.length - DIFF_PREVIEW_LIMIT}</div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setTarget(null)}
+                className="flex-1 rounded-2xl border border-neutral-700/70 bg-neutral-900/60 py-2.5 text-sm uppercase tracking-[0.14em]"
+              >
+                Назад
+              </button>
+              {!preview || !confirmToken ? (
+                <button
+                  onClick={runPreview}
+                  disabled={busy}
+                  className="flex-1 rounded-2xl bg-white text-black font-semibold py-2.5 text-sm uppercase tracking-[0.14em] disabled:opacity-60"
+                >
+                  Преглед
+                </button>
+              ) : (
+                <button
+                  onClick={runRestore}
+                  disabled={busy || changes.length === 0}
+                  className="flex-1 rounded-2xl bg-red-500 text-white font-semibold py-2.5 text-sm uppercase tracking-[0.14em] disabled:opacity-60"
+                >
+                  Възстанови
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// Barber switcher (hidden while the shop has a single chair)
+// =============================================================================
+function BarberSwitcher({
+  barbers,
+  active,
+  onChange,
+  compact = false,
+}: {
+  barbers: Barber[];
+  active: string;
+  onChange: (id: string) => void;
+  compact?: boolean;
+}) {
+  if (barbers.length < 2) return null;
+
+  const options = [{ id: ANY_BARBER, name: 'Всички' }, ...barbers];
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-1.5" style={{ fontFamily: BRAND.fontBody }}>
+      {options.map((b) => (
+        <button
+          key={b.id}
+          onClick={(e) => {
+            e.stopPropagation();
+            onChange(b.id);
+          }}
+          className={`rounded-full border transition uppercase tracking-[0.12em] ${
+            compact ? 'px-2.5 py-1 text-[10px]' : 'px-3.5 py-1.5 text-xs'
+          } ${
+            b.id === active
+              ? 'border-white text-black bg-white'
+              : 'border-neutral-700/70 text-neutral-200 bg-neutral-900/60 hover:bg-neutral-800/70'
+          }`}
+        >
+          {b.name}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// =============================================================================
+// Main Calendar Component
+// =============================================================================
+function BarberCalendarCore({ onLogout }: { onLogout: () => void }) {
+  useEffect(() => {
+    injectBrandFonts();
+    injectBushiStyles();
+  }, []);
+
+  const today = new Date();
+  const todayISO = toISODate(today);
+
+  const [viewYear, setViewYear] = useState(today.getFullYear());
+  const [viewMonth, setViewMonth] = useState(today.getMonth());
+
+  const [showYear, setShowYear] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  // The editor shows the week of selectedDate instead of the day
+  const [weekView, setWeekView] = useState(false);
+
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQ, setSearchQ] = useState('');
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [showAvail, setShowAvail] = useState(false);
+  // Agenda open = the last day it lists (grows as it scrolls), else null
+  const [agendaUntil, setAgendaUntil] = useState<string | null>(null);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+
+  const [highlight, setHighlight] = useState<{ barber?: string; day: string; time: string; ts: number } | null>(null);
+  const [pendingFocus, setPendingFocus] = useState<{ barber: string; day: string; time: string; ts: number } | null>(null);
+
+  const [stores, setStores] = useState<BarberStores>({});
+  const [barbers, setBarbers] = useState<Barber[]>([]);
+  const [remoteReady, setRemoteReady] = useState(false);
+
+  // Barber switcher: a barber id or ANY_BARBER for the combined view
+  const ACTIVE_BARBER_KEY = 'bushi_active_barber_v1';
+  const [activeBarber, setActiveBarber] = useState<string>(() => {
+    if (typeof window === 'undefined') return ANY_BARBER;
+    try {
+      return localStorage.getItem(ACTIVE_BARBER_KEY) || ANY_BARBER;
+    } catch {
+      return ANY_BARBER;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(ACTIVE_BARBER_KEY, activeBarber);
+    } catch {}
+  }, [activeBarber]);
+
+  // Drop a remembered barber that no longer exists
+  useEffect(() => {
+    if (barbers.length === 0) return;
+    if (activeBarber === ANY_BARBER) return;
+    if (!barbers.some((b) => b.id === activeBarber)) setActiveBarber(ANY_BARBER);
+  }, [barbers, activeBarber]);
+
+  const visibleBarbers = useMemo(() => {
+    if (activeBarber === ANY_BARBER) return barbers;
+    const b = barbers.find((x) => x.id === activeBarber);
+    return b ? [b] : barbers;
+  }, [barbers, activeBarber]);
 
-  const today = new Date();
-  const todayISO = toISODate(today);
+  const visibleBarberIds = useMemo(() => visibleBarbers.map((b) => b.id), [visibleBarbers]);
 
-  const [viewYear, setViewYear] = useState(today.getFullYear());
-  const [viewMonth, setViewMonth] = useState(today.getMonth());
+  const barberName = useCallback((id: string) => barbers.find((b) => b.id === id)?.name ?? id, [barbers]);
 
-  const [showYear, setShowYear] = useState(false);
-  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  // Shop schedule (cached locally so the grid is right before the first fetch)
+  const [schedule, setSchedule] = useState<ShopSchedule>(loadCachedSchedule);
+  const scheduleRef = useRef(schedule);
 
-  const [showSearch, setShowSearch] = useState(false);
-  const [searchQ, setSearchQ] = useState('');
-  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const applySchedule = useCallback((next: ShopSchedule) => {
+    scheduleRef.current = next;
+    setSchedule((prev) => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next));
+    try {
+      localStorage.setItem(SCHEDULE_CACHE_KEY, JSON.stringify(next));
+    } catch {}
+  }, []);
 
-  const [showAvail, setShowAvail] = useState(false);
+  const refreshSchedule = useCallback(async () => {
+    const next = await fetchSchedule();
+    if (next) applySchedule(next);
+  }, [applySchedule]);
 
-  const [highlight, setHighlight] = useState<{ day: string; time: string; ts: number } | null>(null);
-  const [pendingFocus, setPendingFocus] = useState<{ day: string; time: string; ts: number } | null>(null);
+  const slotsFor = useCallback((dayISO: string) => buildSlots(schedule, dayISO), [schedule]);
 
-  const [store, setStore] = useState<Store>({});
-  const [remoteReady, setRemoteReady] = useState(false);
+  // Short-lived notice at the bottom of the screen; `travel` adds an Undo/Redo button
+  const [notice, setNotice] = useState<{ text: string; ts: number; travel?: 'undo' | 'redo' } | null>(null);
+  const showNotice = useCallback(
+    (text: string, travel?: 'undo' | 'redo') => setNotice({ text, ts: Date.now(), travel }),
+    []
+  );
+
+  // Undo/redo entry point for handlers registered before `travel` exists (keyboard)
+  const travelRef = useRef<(dir: 'undo' | 'redo') => void>(() => {});
+
+  useEffect(() => {
+    if (!notice) return;
+    const t = window.setTimeout(() => setNotice(null), 4000);
+    return () => window.clearTimeout(t);
+  }, [notice]);
 
   // Keyboard inset for iPhone typing visibility
   const [keyboardInset, setKeyboardInset] = useState(0);
@@ -529,33 +3714,128 @@ function BarberCalendarCore() {
     };
   }, []);
 
-  // ===== Pending ops queue (prevents polling/realtime from wiping optimistic edits)
-  type PendingOp = { day: string; time: string; value: string | null; tries: number; nextAt: number };
-  const PENDING_OPS_KEY = 'bushi_pending_ops_v1';
+  // ===== Pending ops queue (see PendingOp), persisted per op in IndexedDB
   const pendingOpsRef = useRef<Record<string, PendingOp>>({});
+  const pendingKey = slotKey;
+
+  // Last known server version per slot (GET, realtime, PATCH replies)
+  const versionsRef = useRef<Record<string, number>>({});
+
+  // Writes the server refused because another device changed the slot first
+  type SlotConflict = { barber: string; day: string; time: string; mine: Appointment | null; theirs: Appointment | null; version: number };
+  const [conflicts, setConflicts] = useState<SlotConflict[]>([]);
+
+  // Waitlist of the loaded months (not realtime: reloaded with the month and
+  // whenever the sheet opens) and the offer shown when a slot frees up
+  type WaitOffer = { entry: WaitlistEntry; barber: string; day: string; time: string };
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [waitlistFor, setWaitlistFor] = useState<string | null>(null);
+  const [waitOffer, setWaitOffer] = useState<WaitOffer | null>(null);
+  const waitlistRef = useRef<WaitlistEntry[]>([]);
+  // entry id + slot already offered, so our own delete echoing back doesn't ask twice
+  const offeredRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    waitlistRef.current = waitlist;
+  }, [waitlist]);
 
+  const reloadWaitlist = useCallback(async () => {
+    const list = await fetchWaitlist(syncWindowFor(viewYear, viewMonth));
+    if (list) setWaitlist(list);
+  }, [viewYear, viewMonth]);
+
+  useEffect(() => {
+    reloadWaitlist();
+  }, [reloadWaitlist]);
+
+  const offerWaitlist = useCallback((barber: string, day: string, time: string) => {
+    if (day < toISODate(new Date())) return;
+    const entry = waitlistRef.current.find((e) => waitlistMatches(e, barber, day, time));
+    if (!entry) return;
+    const key = `${entry.id}@${slotKey(barber, day, time)}`;
+    if (offeredRef.current.has(key)) return;
+    offeredRef.current.add(key);
+    setWaitOffer((cur) => cur ?? { entry, barber, day, time });
+  }, []);
+  const offerWaitlistRef = useRef(offerWaitlist);
+
+  // Mirror of the queue for rendering (sync indicator, row markers, stuck-ops panel)
+  const [queueState, setQueueState] = useState<Record<string, QueueState>>({});
+  const queueRefreshRef = useRef<number | null>(null);
+  // What IndexedDB holds: key -> JSON of the op, to write only what changed
+  const persistedOpsRef = useRef<Record<string, string>>({});
+
+  // Also called from inside state updaters, so the store write and the mirror
+  // refresh happen afterwards, batched
   const persistPendingOps = useCallback(() => {
-    try {
-      localStorage.setItem(PENDING_OPS_KEY, JSON.stringify(pendingOpsRef.current));
-    } catch {}
+    if (queueRefreshRef.current != null) return;
+    queueRefreshRef.current = window.setTimeout(() => {
+      queueRefreshRef.current = null;
+      const ops = pendingOpsRef.current;
+      const changes: Record<string, PendingOp | null> = {};
+      const persisted: Record<string, string> = {};
+      for (const [k, op] of Object.entries(ops)) {
+        if (!op) continue;
+        persisted[k] = JSON.stringify(op);
+        if (persistedOpsRef.current[k] !== persisted[k]) changes[k] = op;
+      }
+      for (const k of Object.keys(persistedOpsRef.current)) if (!(k in persisted)) changes[k] = null;
+      persistedOpsRef.current = persisted;
+      if (Object.keys(changes).length > 0) savePendingOps(changes);
+
+      const next = queueStateOf(ops);
+      setQueueState((prev) => (sameQueueState(prev, next) ? prev : next));
+    }, 0);
   }, []);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
-    try {
-      const raw = localStorage.getItem(PENDING_OPS_KEY);
-      if (!raw) return;
-      const parsed = JSON.parse(raw);
-      if (parsed && typeof parsed === 'object') pendingOpsRef.current = parsed;
-    } catch {}
-  }, []);
+    let cancelled = false;
+    loadPendingOps<PendingOp>().then((stored) => {
+      if (!stored || cancelled) return;
+      const loaded: PendingOp[] = [];
+      for (const [k, op] of Object.entries(stored)) {
+        if (!op || !op.day || !op.time) continue;
+        const barber = typeof op.barber === 'string' ? op.barber : '';
+        // Older queues stored a bare name string
+        const value = op.value == null ? null : toAppointment(op.value);
+        const key = pendingKey(barber, op.day, op.time);
+        persistedOpsRef.current[k] = JSON.stringify(op);
+        // An edit made while this was loading is newer
+        if (pendingOpsRef.current[key]) continue;
+        pendingOpsRef.current[key] = { ...op, barber, value };
+        if (barber) loaded.push(pendingOpsRef.current[key]);
+      }
+      persistPendingOps();
+      // Show them even if the calendar got here first
+      if (loaded.length > 0) {
+        setStores((prev) => loaded.reduce((acc, op) => withSlot(acc, op.barber, op.day, op.time, op.value), prev));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [persistPendingOps]);
 
   const enqueuePendingOp = useCallback(
-    (day: string, time: string, value: string | null) => {
-      const key = `${day}__${time}`;
+    (barber: string, day: string, time: string, value: Appointment | null, group?: string) => {
+      const key = pendingKey(barber, day, time);
       const now = Date.now();
       const existing = pendingOpsRef.current[key];
-      pendingOpsRef.current[key] = { day, time, value, tries: existing?.tries ?? 0, nextAt: now };
+      // A queued op that never reached the server keeps the version it was based on
+      const base = existing ? existing.base : versionsRef.current[key] ?? 0;
+      // The slot may already belong to a queued batch: the two changes then go
+      // out as one (the older batch joins the new group), so neither is split.
+      // Past the server's batch limit the slot stays with the older batch.
+      let merged = group ?? existing?.group;
+      if (group && existing?.group && existing.group !== group) {
+        const ops = Object.values(pendingOpsRef.current);
+        const size = ops.filter((o) => o && (o.group === group || o.group === existing.group)).length;
+        if (size < MAX_BATCH_OPS) {
+          for (const o of ops) if (o && o.group === existing.group) o.group = group;
+        } else merged = existing.group;
+      }
+      pendingOpsRef.current[key] = { barber, day, time, value, tries: existing?.tries ?? 0, nextAt: now, base, group: merged };
       persistPendingOps();
     },
     [persistPendingOps]
@@ -567,47 +3847,103 @@ function BarberCalendarCore() {
     op.nextAt = Date.now() + delay;
   };
 
+  const [online, setOnline] = useState(true);
+  const [showQueue, setShowQueue] = useState(false);
+  // Client profile sheet (directory id)
+  const [profileFor, setProfileFor] = useState<number | null>(null);
+
   // ===== Sync throttling / debouncing (fixes GET spam)
   const cancelledSyncRef = useRef(false);
   const syncingRef = useRef(false);
   const lastSyncAtRef = useRef(0);
   const syncDebounceTimerRef = useRef<number | null>(null);
 
-  const syncFromRemoteRef = useRef<(force?: boolean) => void>(() => {});
+  const syncFromRemoteRef = useRef<(force?: boolean) => Promise<void>>(async () => {});
+
+  // Server truth without our pending ops: full syncs replace it, deltas and
+  // realtime events patch it, and the visible stores are this + pending ops.
+  const remoteBaseRef = useRef<BarberStores>({});
+  // Delta sync cursor (server time of the last read); null = next sync is full
+  const syncCursorRef = useRef<string | null>(null);
+  const lastFullSyncAtRef = useRef(0);
+  // What the next sync asks for vs what the last full sync loaded
+  const syncWindowRef = useRef<SyncWindow>(syncWindowFor(today.getFullYear(), today.getMonth()));
+  const loadedWindowRef = useRef<SyncWindow | null>(null);
+  // Same as loadedWindowRef, for what renders from it (agenda loading state)
+  const [loadedWindow, setLoadedWindow] = useState<SyncWindow | null>(null);
+
+  const applyRemoteSafely = useCallback((remote: RemoteCalendar) => {
+    let base = remote.stores;
+    if (remote.delta) {
+      base = remoteBaseRef.current;
+      for (const [barber, store] of Object.entries(remote.stores)) {
+        for (const [day, slots] of Object.entries(store)) {
+          for (const [time, appt] of Object.entries(slots)) base = withSlot(base, barber, day, time, appt);
+        }
+      }
+      for (const d of remote.deleted) {
+        base = withSlot(base, d.barber, d.day, d.time, null);
+        delete versionsRef.current[pendingKey(d.barber, d.day, d.time)];
+      }
+      Object.assign(versionsRef.current, remote.versions);
+    } else {
+      versionsRef.current = remote.versions;
+    }
+    remoteBaseRef.current = base;
+
+    // Legacy ops (no barber) belong to the default barber, same as on the server
+    const defaultBarber = remote.barbers[0]?.id;
+    if (defaultBarber) {
+      for (const [k, op] of Object.entries(pendingOpsRef.current)) {
+        if (!op || op.barber) continue;
+        delete pendingOpsRef.current[k];
+        op.barber = defaultBarber;
+        pendingOpsRef.current[pendingKey(op.barber, op.day, op.time)] = op;
+      }
+    }
 
-  const applyRemoteSafely = useCallback((remote: Store) => {
-    saveBackup(remote);
+    setBarbers((prev) =>
+      prev.length === remote.barbers.length && prev.every((b, i) => b.id === remote.barbers[i].id && b.name === remote.barbers[i].name)
+        ? prev
+        : remote.barbers
+    );
 
-    setStore(() => {
-      const merged: Store = JSON.parse(JSON.stringify(remote || {}));
+    setStores(() => {
+      let merged = base;
 
       // Apply pending ops on top of remote so it can’t erase our local changes
       for (const [k, op] of Object.entries(pendingOpsRef.current)) {
-        if (!op) continue;
-        const { day, time, value } = op;
-
-        if (value == null || String(value).trim().length === 0) {
-          if (merged[day]) {
-            delete merged[day][time];
-            if (Object.keys(merged[day]).length === 0) delete merged[day];
-          }
-        } else {
-          if (!merged[day]) merged[day] = {};
-          merged[day][time] = String(value).trim();
-        }
+        if (!op || !op.barber) continue;
+        const { barber, day, time, value } = op;
+        merged = withSlot(merged, barber, day, time, value);
 
-        const remoteVal = ((remote?.[day]?.[time] ?? '') as string).trim();
-        const expect = value == null ? '' : String(value).trim();
-        const matches = value == null ? remoteVal.length === 0 : remoteVal === expect;
-        if (matches) delete pendingOpsRef.current[k];
+        const remoteVal = base[barber]?.[day]?.[time] ?? null;
+        if (sameAppointment(remoteVal, value)) delete pendingOpsRef.current[k];
       }
 
-      try {
-        localStorage.setItem(PENDING_OPS_KEY, JSON.stringify(pendingOpsRef.current));
-      } catch {}
-
+      persistPendingOps();
       return merged;
     });
+  }, [persistPendingOps]);
+
+  // Server copy for offline starts (lib/localDb), at most every few seconds.
+  // Only days whose object changed since the last save are written.
+  const offlineSaveTimerRef = useRef<number | null>(null);
+  const persistedBaseRef = useRef<BarberStores>({});
+  const offlineBarbersRef = useRef<Barber[]>([]);
+  const saveOfflineCopy = useCallback((barbers?: Barber[]) => {
+    if (barbers) offlineBarbersRef.current = barbers;
+    if (offlineSaveTimerRef.current != null) window.clearTimeout(offlineSaveTimerRef.current);
+    offlineSaveTimerRef.current = window.setTimeout(() => {
+      offlineSaveTimerRef.current = null;
+      const base = remoteBaseRef.current;
+      const writes = changedDays(persistedBaseRef.current, base);
+      persistedBaseRef.current = base;
+      saveCalendarDays(
+        { barbers: offlineBarbersRef.current, versions: { ...versionsRef.current }, savedAt: Date.now() },
+        writes
+      );
+    }, OFFLINE_SAVE_DELAY_MS);
   }, []);
 
   const syncFromRemote = useCallback(
@@ -620,21 +3956,69 @@ function BarberCalendarCore() {
       if (syncingRef.current && !force) return;
       syncingRef.current = true;
       try {
-        const remote = await fetchRemoteStore();
+        // Deltas in between; a periodic full read heals anything a delta could miss,
+        // and moving to another month reloads the window around it
+        const range = syncWindowRef.current;
+        const loaded = loadedWindowRef.current;
+        const full =
+          !syncCursorRef.current ||
+          now - lastFullSyncAtRef.current > FULL_SYNC_EVERY_MS ||
+          !loaded ||
+          loaded.from !== range.from ||
+          loaded.to !== range.to;
+        const remote = await fetchRemoteCalendar(full ? null : syncCursorRef.current, range);
         if (!remote || cancelledSyncRef.current) return;
+        if (!remote.delta) {
+          lastFullSyncAtRef.current = now;
+          loadedWindowRef.current = range;
+          setLoadedWindow(range);
+        }
+        syncCursorRef.current = remote.cursor;
         setRemoteReady(true);
         applyRemoteSafely(remote);
+        saveOfflineCopy(remote.barbers);
       } finally {
         syncingRef.current = false;
       }
     },
-    [applyRemoteSafely]
+    [applyRemoteSafely, saveOfflineCopy]
   );
 
   useEffect(() => {
     syncFromRemoteRef.current = syncFromRemote;
   }, [syncFromRemote]);
 
+  // Offline start: show the last server copy until the first sync lands, and
+  // let edits queue up against it
+  useEffect(() => {
+    let cancelled = false;
+    loadCalendarSnapshot().then((snap) => {
+      if (!snap || cancelled || syncCursorRef.current) return;
+      persistedBaseRef.current = snap.stores;
+      offlineBarbersRef.current = snap.barbers;
+      applyRemoteSafely({ barbers: snap.barbers, stores: normalizeStores(snap.stores), versions: snap.versions, deleted: [], cursor: '', delta: false });
+      setRemoteReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyRemoteSafely]);
+
+  // While the agenda or "closest available" is open the window also covers
+  // today to the last day they show
+  useEffect(() => {
+    const view = syncWindowFor(viewYear, viewMonth);
+    const availUntil = showAvail ? addDaysISO(todayISO, AVAIL_DAYS - 1) : null;
+    const until = agendaUntil && availUntil ? (agendaUntil > availUntil ? agendaUntil : availUntil) : agendaUntil || availUntil;
+    const next = until
+      ? { from: view.from < todayISO ? view.from : todayISO, to: view.to > until ? view.to : until }
+      : view;
+    const cur = syncWindowRef.current;
+    if (cur.from === next.from && cur.to === next.to) return;
+    syncWindowRef.current = next;
+    syncFromRemoteRef.current(true);
+  }, [viewYear, viewMonth, agendaUntil, showAvail, todayISO]);
+
   const debouncedConfirmSync = useCallback((delayMs: number = 900) => {
     if (syncDebounceTimerRef.current != null) window.clearTimeout(syncDebounceTimerRef.current);
     syncDebounceTimerRef.current = window.setTimeout(() => {
@@ -651,41 +4035,153 @@ function BarberCalendarCore() {
     const entries = Object.entries(pendingOpsRef.current);
     if (entries.length === 0) return;
 
+    // A stale op: park it until the user decides
+    const park = (key: string, op: PendingOp, stale: { current: Appointment | null; version: number }) => {
+      const { current, version } = stale;
+      versionsRef.current[key] = version;
+      // Same content already there (e.g. our own earlier write): nothing to decide
+      if (sameAppointment(current, op.value)) return;
+      setConflicts((prev) => [
+        ...prev.filter((c) => pendingKey(c.barber, c.day, c.time) !== key),
+        { barber: op.barber, day: op.day, time: op.time, mine: op.value, theirs: current, version },
+      ]);
+    };
+
+    // Only a failed send counts towards MAX_OP_TRIES: resending an op the server
+    // already has (its reply got lost) must not make it look stuck
+    const failed = (key: string, op: PendingOp, error?: string) => {
+      op.error = error;
+      op.tries += 1;
+      scheduleRetry(op);
+      pendingOpsRef.current[key] = op;
+    };
+
+    const sent = (key: string, op: PendingOp, version?: number) => {
+      delete op.error;
+      // A resend (until confirmed) must be based on the version we just wrote
+      if (version != null) {
+        op.base = version;
+        if (version > 0) versionsRef.current[key] = version;
+        else delete versionsRef.current[key];
+      }
+      // PATCH ok: don’t spam GET. Let realtime / next poll confirm. We’ll do one debounced confirm.
+      op.nextAt = Date.now() + 1500;
+      pendingOpsRef.current[key] = op;
+    };
+
+    const done = new Set<string>();
     for (const [key, op0] of entries) {
       const op = op0 as PendingOp | undefined;
-      if (!op) continue;
+      if (!op || done.has(key)) continue;
       if (op.nextAt > now) continue;
-      if (op.tries >= 6) continue;
+      if (op.tries >= MAX_OP_TRIES) continue;
+
+      const group = op.group
+        ? entries
+            .filter(([k, o]) => o && o.group === op.group && !done.has(k))
+            // clears first, as queued, so the change never overlaps itself
+            .sort(([, a], [, b]) => Number(a.value != null) - Number(b.value != null))
+        : [];
+      // A batch goes out whole or waits whole: never a part of it on its own
+      if (group.some(([, o]) => o.nextAt > now || o.tries >= MAX_OP_TRIES)) {
+        for (const [k] of group) done.add(k);
+        continue;
+      }
 
-      op.tries += 1;
+      if (group.length > 1) {
+        for (const [k] of group) done.add(k);
+        const res = await sendBatch(group.map(([, o]) => o));
+
+        if (res.ok) {
+          group.forEach(([k, o], i) => sent(k, o, res.results[i]?.version));
+          persistPendingOps();
+          debouncedConfirmSync(1200);
+          continue;
+        }
+
+        const { result } = res;
+        if (!result.stale && !result.rejected) {
+          for (const [k, o] of group) failed(k, o, result.error);
+          persistPendingOps();
+          continue;
+        }
 
-      const ok = op.value == null ? await patchClearSlot(op.day, op.time) : await patchSetSlot(op.day, op.time, op.value);
+        // The slot already holds what we sent: an earlier send of this (atomic)
+        // batch went through and only its reply was lost. Done; the sync confirms.
+        const refused = res.failed != null ? group[res.failed] : undefined;
+        if (refused && result.stale && sameAppointment(result.stale.current, refused[1].value)) {
+          versionsRef.current[refused[0]] = result.stale.version;
+          for (const [k] of group) delete pendingOpsRef.current[k];
+          persistPendingOps();
+          debouncedConfirmSync(0);
+          continue;
+        }
 
-      if (!ok) {
-        scheduleRetry(op);
-        pendingOpsRef.current[key] = op;
+        // All or nothing: the whole change is dropped and the slots show the
+        // server's state again, except a stale slot which waits for the user
+        const back: SlotWrite[] = [];
+        for (const [k, o] of group) {
+          delete pendingOpsRef.current[k];
+          if (refused && k === refused[0] && result.stale) continue;
+          back.push({ barber: o.barber, day: o.day, time: o.time, value: remoteBaseRef.current[o.barber]?.[o.day]?.[o.time] ?? null });
+        }
         persistPendingOps();
+        if (refused && result.stale) park(refused[0], refused[1], result.stale);
+        setStores((prev) => back.reduce((acc, w) => withSlot(acc, w.barber, w.day, w.time, w.value), prev));
+        showNotice(refused ? refusalText(refused[1].day, refused[1].time, result.error) : 'Промяната е отказана');
+        debouncedConfirmSync(0);
         continue;
       }
 
-      // PATCH ok: don’t spam GET. Let realtime / next poll confirm. We’ll do one debounced confirm.
-      op.nextAt = Date.now() + 1500;
-      pendingOpsRef.current[key] = op;
+      const res = await sendPatch(pendingOpBody(op));
+
+      if (res.stale) {
+        // Another device got there first, or our own earlier send did (its reply
+        // got lost): park() only asks the user when the content differs
+        delete pendingOpsRef.current[key];
+        persistPendingOps();
+        park(key, op, res.stale);
+        continue;
+      }
+
+      if (res.rejected) {
+        // Server said no (e.g. overlapping booking): drop the op and pull the real state back
+        delete pendingOpsRef.current[key];
+        persistPendingOps();
+        showNotice(refusalText(op.day, op.time, res.error));
+        debouncedConfirmSync(0);
+        continue;
+      }
+
+      if (!res.ok) {
+        failed(key, op, res.error);
+        persistPendingOps();
+        continue;
+      }
+
+      sent(key, op, res.version);
       persistPendingOps();
       debouncedConfirmSync(1200);
     }
-  }, [persistPendingOps, debouncedConfirmSync]);
+  }, [persistPendingOps, debouncedConfirmSync, showNotice]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
     const t = window.setInterval(() => {
       pumpPendingOpsOnce();
     }, 1800);
-    const onOnline = () => pumpPendingOpsOnce();
+    const onOnline = () => {
+      setOnline(true);
+      pumpPendingOpsOnce();
+    };
+    const onOffline = () => setOnline(false);
+    setOnline(navigator.onLine);
     window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
     return () => {
       window.clearInterval(t);
       window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
     };
   }, [pumpPendingOpsOnce]);
 
@@ -697,66 +4193,52 @@ function BarberCalendarCore() {
     return createSupabaseClient(url, anon);
   }, []);
 
+  // Slots signalled since the last refetch, with whether each held a booking before it
+  const signalsRef = useRef<RealtimeSignal[]>([]);
+  const signalTimerRef = useRef<number | null>(null);
+
   useEffect(() => {
     if (!supabaseRealtime) return;
 
-    const channel = supabaseRealtime
-      .channel('bushi-realtime-appointments')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'appointments' }, (payload: any) => {
-        try {
-          const ev = payload?.eventType as string;
-          const newRow = payload?.new ?? null;
-          const oldRow = payload?.old ?? null;
-
-          setStore((prev) => {
-            const next: Store = { ...(prev || {}) };
-
-            const applySet = (day: string, time: string, name: string) => {
-              if (!day || !time) return;
-              if (!next[day]) next[day] = {};
-              next[day][time] = name ?? '';
-              if (next[day][time].trim().length === 0) delete next[day][time];
-              if (Object.keys(next[day]).length === 0) delete next[day];
-            };
-
-            const applyClear = (day: string, time: string) => {
-              if (!day || !time) return;
-              if (next[day]) {
-                delete next[day][time];
-                if (Object.keys(next[day]).length === 0) delete next[day];
-              }
-            };
-
-            if (ev === 'DELETE') applyClear(oldRow?.day, oldRow?.time);
-            else applySet(newRow?.day, newRow?.time, (newRow?.name ?? '') as string);
-
-            // Clear pending op if realtime matches it
-            try {
-              const day = (ev === 'DELETE' ? oldRow?.day : newRow?.day) as string;
-              const time = (ev === 'DELETE' ? oldRow?.time : newRow?.time) as string;
-              if (day && time) {
-                const key = `${day}__${time}`;
-                const op = pendingOpsRef.current[key];
-                if (op) {
-                  const expect = op.value == null ? '' : String(op.value).trim();
-                  const got = ev === 'DELETE' ? '' : String(newRow?.name ?? '').trim();
-                  if (expect === got) {
-                    delete pendingOpsRef.current[key];
-                    localStorage.setItem(PENDING_OPS_KEY, JSON.stringify(pendingOpsRef.current));
-                  }
-                }
-              }
-            } catch {}
+    // Signals carry only the slot key; the rows themselves come through the
+    // session-guarded API, so the anon key never sees a booking
+    const flushSignals = async () => {
+      signalTimerRef.current = null;
+      const batch = signalsRef.current;
+      signalsRef.current = [];
+      await syncFromRemoteRef.current(true);
 
-            saveBackup(next);
-            return next;
-          });
+      for (const s of batch) {
+        const now = remoteBaseRef.current[s.barber]?.[s.day]?.[s.time] ?? null;
 
-          // Debounced confirm — not immediate spam
-          debouncedConfirmSync(1200);
-        } catch {
-          debouncedConfirmSync(1200);
+        // A booking removed on any device may be someone's chance off the waitlist
+        if (s.op === 'delete' && s.wasBooked && !now) {
+          offerWaitlistRef.current(s.barber, s.day, s.time);
+        }
+
+        // Self-bookings from /book are announced once they've synced
+        if (s.op === 'insert' && s.source === 'online' && now?.name) {
+          showNotice(`Онлайн резервация: ${formatDayLabel(s.day)} · ${s.time} · ${now.name}`);
         }
+      }
+    };
+
+    const channel = supabaseRealtime
+      .channel('bushi-realtime-appointments')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'appointment_signals' }, (payload: any) => {
+        const row = payload?.new ?? null;
+        if (!row?.barber_id || !row?.day || !row?.time) return;
+        signalsRef.current.push({
+          barber: row.barber_id,
+          day: row.day,
+          time: row.time,
+          op: row.op,
+          source: row.source ?? null,
+          wasBooked: isBooked(remoteBaseRef.current[row.barber_id]?.[row.day]?.[row.time]),
+        });
+
+        // One refetch per burst — a batch write signals every slot it touched
+        if (signalTimerRef.current == null) signalTimerRef.current = window.setTimeout(flushSignals, 250);
       })
       .subscribe((status: string) => {
         if (status === 'SUBSCRIBED') {
@@ -766,11 +4248,14 @@ function BarberCalendarCore() {
       });
 
     return () => {
+      if (signalTimerRef.current != null) window.clearTimeout(signalTimerRef.current);
+      signalTimerRef.current = null;
+      signalsRef.current = [];
       try {
         supabaseRealtime.removeChannel(channel);
       } catch {}
     };
-  }, [supabaseRealtime, debouncedConfirmSync]);
+  }, [supabaseRealtime, showNotice]);
 
   // ===== Standard sync timers (fallback)
   const isSlotInputFocused = useCallback(() => {
@@ -786,12 +4271,15 @@ function BarberCalendarCore() {
     let interval: number | null = null;
 
     (async () => {
+      refreshSchedule();
       await syncFromRemote(true);
       interval = window.setInterval(() => syncFromRemote(false), 60000);
     })();
 
     const handleVisibility = () => {
-      if (document.visibilityState === 'visible') syncFromRemote(true);
+      if (document.visibilityState !== 'visible') return;
+      refreshSchedule();
+      syncFromRemote(true);
     };
     document.addEventListener('visibilitychange', handleVisibility);
 
@@ -800,7 +4288,7 @@ function BarberCalendarCore() {
       document.removeEventListener('visibilitychange', handleVisibility);
       if (interval != null) window.clearInterval(interval);
     };
-  }, [syncFromRemote, isSlotInputFocused]);
+  }, [syncFromRemote, refreshSchedule, isSlotInputFocused]);
 
   // ===== Editing + safe flush
   const editingRef = useRef(false);
@@ -829,7 +4317,7 @@ function BarberCalendarCore() {
   }, []);
 
   const flushActiveSlotDraft = useCallback(
-    (saveNameFn: (day: string, time: string, nameRaw: string) => void) => {
+    (saveNameFn: (barber: string, day: string, time: string, nameRaw: string) => void) => {
       if (!remoteReady) return;
       if (typeof document === 'undefined') return;
       const el = document.activeElement as HTMLInputElement | null;
@@ -837,16 +4325,17 @@ function BarberCalendarCore() {
       const id = (el as any).id as string | undefined;
       if (typeof id !== 'string' || !id.startsWith('slot_')) return;
 
+      const barber = (el.dataset?.barber || '').trim();
       const day = (el.dataset?.dayiso || '').trim();
       const time = (el.dataset?.time || '').trim();
-      if (!day || !time) return;
+      if (!barber || !day || !time) return;
 
       const orig = ((el.dataset?.orig ?? '') as string).trim();
       const now = (el.value ?? '').trim();
       if (orig === now) return;
 
       el.dataset.orig = el.value;
-      saveNameFn(day, time, el.value);
+      saveNameFn(barber, day, time, el.value);
     },
     [remoteReady]
   );
@@ -857,11 +4346,12 @@ function BarberCalendarCore() {
   useEffect(() => {
     if (typeof document === 'undefined') return;
     const prev = document.body.style.overflow;
-    if (showYear || selectedDate || showSearch || showAvail) document.body.style.overflow = 'hidden';
+    if (showYear || selectedDate || showSearch || showAvail || agendaUntil != null || showSchedule || showSnapshots || showQueue || profileFor != null)
+      document.body.style.overflow = 'hidden';
     return () => {
       document.body.style.overflow = prev;
     };
-  }, [showYear, selectedDate, showSearch, showAvail]);
+  }, [showYear, selectedDate, showSearch, showAvail, agendaUntil, showSchedule, showSnapshots, showQueue, profileFor]);
 
   useEffect(() => {
     if (!showSearch) return;
@@ -878,11 +4368,19 @@ function BarberCalendarCore() {
         if (showSearch) setShowSearch(false);
         if (showYear) setShowYear(false);
         if (showAvail) setShowAvail(false);
+        if (showSchedule) setShowSchedule(false);
         return;
       }
       const activeTyping = isTypingTarget(document.activeElement);
       if (activeTyping) return;
 
+      // Inputs keep their native text undo; everywhere else it undoes slot edits
+      if ((e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z' || e.key === 'y')) {
+        e.preventDefault();
+        travelRef.current(e.key === 'y' || e.shiftKey ? 'redo' : 'undo');
+        return;
+      }
+
       const isCtrlK = (e.ctrlKey || e.metaKey) && (e.key === 'k' || e.key === 'K');
       const isSlash = e.key === '/';
       if (isCtrlK || isSlash) {
@@ -892,7 +4390,7 @@ function BarberCalendarCore() {
     };
     window.addEventListener('keydown', onKey);
     return () => window.removeEventListener('keydown', onKey);
-  }, [showSearch, showYear, showAvail]);
+  }, [showSearch, showYear, showAvail, showSchedule]);
 
   // Armed remove
   const [armedRemove, setArmedRemove] = useState<string | null>(null);
@@ -917,7 +4415,7 @@ function BarberCalendarCore() {
     [clearArmedTimeout]
   );
 
-  const [savedPulse, setSavedPulse] = useState<{ day: string; time: string; ts: number } | null>(null);
+  const [savedPulse, setSavedPulse] = useState<{ barber: string; day: string; time: string; ts: number } | null>(null);
 
   const SNAP_EASE = 'cubic-bezier(0.25, 0.9, 0.25, 1)';
   const [panelStyle, setPanelStyle] = useState<React.CSSProperties>({});
@@ -978,66 +4476,567 @@ function BarberCalendarCore() {
   }, []);
 
   // SAVE / DELETE
+  // Latest stores for callbacks that must stay referentially stable (DayColumn's
+  // memo comparator ignores callback props, so they can't close over `stores`).
+  const storesRef = useRef<BarberStores>(stores);
+  useEffect(() => {
+    storesRef.current = stores;
+  }, [stores]);
+
+  // Optimistic local update only (no queue)
+  const applyWritesLocally = useCallback((writes: SlotWrite[]) => {
+    setStores((prev) => {
+      const next: BarberStores = { ...prev };
+      for (const { barber, day, time, value } of writes) {
+        if (next[barber] === prev[barber]) next[barber] = { ...(prev[barber] || {}) };
+        const store = next[barber];
+        store[day] = { ...(store[day] || {}) };
+        if (value == null) delete store[day][time];
+        else store[day][time] = value;
+        if (Object.keys(store[day]).length === 0) delete store[day];
+      }
+      return next;
+    });
+  }, []);
+
+  const queueCounts = useMemo(() => {
+    const all = Object.values(queueState);
+    const failed = all.filter((q) => q === 'failed').length;
+    return { pending: all.length - failed, failed };
+  }, [queueState]);
+
+  // Stuck ops panel: key = one op, null = every op that gave up
+  const retryPendingOps = useCallback(
+    (key: string | null) => {
+      // The rest of a batch goes again with it
+      const group = key ? pendingOpsRef.current[key]?.group : undefined;
+      for (const [k, op] of Object.entries(pendingOpsRef.current)) {
+        if (!op || (key ? k !== key && !(group && op.group === group) : op.tries < MAX_OP_TRIES)) continue;
+        op.tries = 0;
+        op.nextAt = Date.now();
+      }
+      persistPendingOps();
+      pumpPendingOpsOnce();
+    },
+    [persistPendingOps, pumpPendingOpsOnce]
+  );
+
+  // Drops the local edit and shows the slot as the server last had it
+  const discardPendingOp = useCallback(
+    (key: string) => {
+      const op = pendingOpsRef.current[key];
+      if (!op) return;
+      delete pendingOpsRef.current[key];
+      persistPendingOps();
+      const server = remoteBaseRef.current[op.barber]?.[op.day]?.[op.time] ?? null;
+      applyWritesLocally([{ barber: op.barber, day: op.day, time: op.time, value: server }]);
+      debouncedConfirmSync(0);
+    },
+    [persistPendingOps, applyWritesLocally, debouncedConfirmSync]
+  );
+
+  // Session undo/redo (not persisted). Undos replay through the pending-op
+  // queue like any other edit, so they survive going offline too.
+  const undoStackRef = useRef<EditStep[]>([]);
+  const redoStackRef = useRef<EditStep[]>([]);
+
+  // Single write path: optimistic update + pending-op queue.
+  // `record` = false for undo/redo replays, which manage the stacks themselves.
+  const writeSlots = useCallback(
+    (writes: SlotWrite[], pulse: boolean, record = true) => {
+      if (!remoteReady || writes.length === 0) return;
+      const chunks = batchChunks(writes);
+      if (!chunks) {
+        showNotice('Твърде много промени в един ден');
+        return;
+      }
+      clearArmedTimeout();
+
+      const current = storesRef.current;
+      const before = writes.map((w) => ({ ...w, value: current[w.barber]?.[w.day]?.[w.time] ?? null }));
+
+      applyWritesLocally(writes);
+
+      // queue + send; clears first so a multi-slot change never overlaps itself on the server,
+      // and in batches so each lands whole or not at all
+      for (const chunk of chunks) {
+        const group = chunk.length > 1 ? `${Date.now()}-${Math.random().toString(36).slice(2)}` : undefined;
+        for (const w of chunk) enqueuePendingOp(w.barber, w.day, w.time, w.value, group);
+      }
+      window.setTimeout(() => {
+        pumpPendingOpsOnce();
+      }, 0);
+
+      if (pulse) {
+        const { barber, day, time } = writes[0];
+        setSavedPulse({ barber, day, time, ts: Date.now() });
+        setTimeout(() => {
+          setSavedPulse((p) => (p && p.barber === barber && p.day === day && p.time === time ? null : p));
+        }, 900);
+      }
+
+      setArmedRemove(null);
+
+      const step: EditStep = { before, after: writes };
+      if (record && writes.some((w, i) => !sameAppointment(w.value, before[i].value))) {
+        undoStackRef.current = [...undoStackRef.current, step].slice(-UNDO_LIMIT);
+        redoStackRef.current = [];
+        showNotice(describeStep(step), 'undo');
+      }
+    },
+    [clearArmedTimeout, remoteReady, applyWritesLocally, enqueuePendingOp, pumpPendingOpsOnce, showNotice]
+  );
+
+  const writeSlot = useCallback(
+    (barber: string, day: string, time: string, appt: Appointment | null, pulse: boolean) => {
+      writeSlots([{ barber, day, time, value: appt }], pulse);
+    },
+    [writeSlots]
+  );
+
+  // Conflict sheet: "keep mine" rewrites on top of their version, "take theirs" drops my edit
+  const resolveConflict = (c: SlotConflict, keepMine: boolean) => {
+    setConflicts((prev) => prev.filter((x) => x !== c));
+    if (keepMine) writeSlots([{ barber: c.barber, day: c.day, time: c.time, value: c.mine }], true, false);
+    else applyWritesLocally([{ barber: c.barber, day: c.day, time: c.time, value: c.theirs }]);
+  };
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and the toast buttons
+  const travel = useCallback(
+    (dir: 'undo' | 'redo') => {
+      const from = dir === 'undo' ? undoStackRef : redoStackRef;
+      const to = dir === 'undo' ? redoStackRef : undoStackRef;
+      const step = from.current[from.current.length - 1];
+      if (!step) {
+        showNotice(dir === 'undo' ? 'Няма какво да се отмени' : 'Няма какво да се повтори');
+        return;
+      }
+      from.current = from.current.slice(0, -1);
+
+      // Someone (realtime, another device) changed the slot since: don't clobber it
+      const expected = dir === 'undo' ? step.after : step.before;
+      const current = storesRef.current;
+      if (expected.some((w) => !sameAppointment(current[w.barber]?.[w.day]?.[w.time] ?? null, w.value))) {
+        showNotice('Слотът е променен междувременно');
+        return;
+      }
+
+      writeSlots(dir === 'undo' ? step.before : step.after, true, false);
+      to.current = [...to.current, step].slice(-UNDO_LIMIT);
+      showNotice(
+        `${dir === 'undo' ? 'Отменено' : 'Повторено'}: ${describeStep(step)}`,
+        dir === 'undo' ? 'redo' : 'undo'
+      );
+    },
+    [writeSlots, showNotice]
+  );
+  useEffect(() => {
+    travelRef.current = travel;
+  }, [travel]);
+
+  // Inline name edit: keeps the rest of the record (phone, service, ...)
   const saveName = useCallback(
-    (day: string, time: string, nameRaw: string) => {
-      if (!remoteReady) return;
+    (barber: string, day: string, time: string, nameRaw: string) => {
       const name = nameRaw.trim();
-      clearArmedTimeout();
+      const existing = storesRef.current[barber]?.[day]?.[time];
+      // A new booking takes one slot
+      const base = existing || { duration: scheduleRef.current.slotMinutes };
+      // Typing another name unlinks the directory client and the series; a case/spacing fix doesn't
+      const same = !!existing && existing.name.toLowerCase() === name.toLowerCase();
+      const appt =
+        name === ''
+          ? null
+          : toAppointment({ ...base, name, clientId: same ? existing.clientId : null, seriesId: same ? existing.seriesId : null });
+      writeSlot(barber, day, time, appt, true);
+    },
+    [writeSlot]
+  );
+
+  const pickClient = useCallback(
+    (barber: string, day: string, time: string, client: Client) => {
+      const existing = storesRef.current[barber]?.[day]?.[time];
+      const base = existing || { duration: scheduleRef.current.slotMinutes };
+      const appt = toAppointment({ ...base, name: client.name, phone: client.phone || existing?.phone, clientId: client.id });
+      writeSlot(barber, day, time, appt, true);
+    },
+    [writeSlot]
+  );
 
-      // optimistic update
-      setStore((prev) => {
-        const next: Store = { ...prev };
-        if (!next[day]) next[day] = {};
-        if (name === '') {
-          delete next[day][time];
-          if (Object.keys(next[day]).length === 0) delete next[day];
-        } else {
-          next[day][time] = name;
+  const confirmRemove = useCallback(
+    (barber: string, day: string, time: string) => {
+      const freed = isBooked(storesRef.current[barber]?.[day]?.[time]);
+      writeSlot(barber, day, time, null, false);
+      if (freed) offerWaitlist(barber, day, time);
+    },
+    [writeSlot, offerWaitlist]
+  );
+
+  // Block sheet (range tool of the day editor): the day it was opened on
+  const [blockFor, setBlockFor] = useState<string | null>(null);
+
+  // Blocks every free stretch of the range on each open day. Bookings inside
+  // stay and are counted; a stretch longer than MAX_DURATION becomes several blocks.
+  const blockRange = (r: BlockRange) => {
+    setBlockFor(null);
+    const step = scheduleRef.current.slotMinutes;
+    const chunk = Math.floor(MAX_DURATION / step) * step;
+    const writes: SlotWrite[] = [];
+    const kept = new Set<string>();
+
+    for (let day = r.fromDay; day <= r.toDay; day = addDaysISO(day, 1)) {
+      const slots = slotsFor(day);
+      if (slots.length === 0) continue;
+      const from = r.fromTime ? timeToMinutes(r.fromTime) : timeToMinutes(slots[0]);
+      const to = r.toTime ? timeToMinutes(r.toTime) : timeToMinutes(slots[slots.length - 1]) + step;
+
+      for (const barber of r.barbers) {
+        const dayMap = storesRef.current[barber]?.[day];
+        const cover = coverMap(dayMap, slots);
+        let run: [number, number] | null = null;
+        const flush = () => {
+          const [start, end] = run ?? [0, 0];
+          for (let t = start; t < end; t += chunk) {
+            const appt = toAppointment({ kind: 'block', name: r.reason, duration: Math.min(chunk, end - t) });
+            if (appt) writes.push({ barber, day, time: minutesToTime(t), value: appt });
+          }
+          run = null;
+        };
+
+        for (const slot of slots) {
+          const t = timeToMinutes(slot);
+          if (t < from || t >= to) continue;
+          const start = cover[slot];
+          if (start) {
+            if (!isBlock(dayMap?.[start])) kept.add(`${barber}_${start}`);
+            flush();
+            continue;
+          }
+          // A cancelled booking keeps its key, so nothing can start on it
+          if (dayMap?.[slot]) {
+            flush();
+            continue;
+          }
+          if (run && run[1] === t) run[1] = Math.min(t + step, to);
+          else {
+            flush();
+            run = [t, Math.min(t + step, to)];
+          }
         }
-        saveBackup(next);
-        return next;
-      });
+        flush();
+      }
+    }
+
+    if (writes.length === 0) {
+      showNotice(kept.size > 0 ? 'Периодът е зает' : 'Няма свободно време в периода');
+      return;
+    }
+    writeSlots(writes, false);
+    if (kept.size > 0) showNotice(`Блокирано: ${writes.length} · записани остават ${kept.size}`, 'undo');
+  };
+
+  // Removes the blocks starting inside the range
+  const unblockRange = (r: BlockRange) => {
+    setBlockFor(null);
+    const writes: SlotWrite[] = [];
+    for (let day = r.fromDay; day <= r.toDay; day = addDaysISO(day, 1)) {
+      for (const barber of r.barbers) {
+        for (const [time, appt] of Object.entries(storesRef.current[barber]?.[day] || {})) {
+          if (!isBlock(appt)) continue;
+          if (r.fromTime && time < r.fromTime) continue;
+          if (r.toTime && time >= r.toTime) continue;
+          writes.push({ barber, day, time, value: null });
+        }
+      }
+    }
+    if (writes.length === 0) showNotice('Няма блокирано време в периода');
+    else writeSlots(writes, false);
+  };
+
+  // Drag-and-drop / tap-to-move: the booking picked up, if any. The ref keeps
+  // the row callbacks stable while the pick changes.
+  const [moving, setMoving] = useState<SlotRef | null>(null);
+  const movingRef = useRef<SlotRef | null>(null);
+
+  const startMove = useCallback(
+    (barber: string, day: string, time: string) => {
+      flushActiveSlotDraft(saveName);
+      movingRef.current = { barber, day, time };
+      setMoving(movingRef.current);
+    },
+    [flushActiveSlotDraft, saveName]
+  );
+
+  const cancelMove = useCallback(() => {
+    movingRef.current = null;
+    setMoving(null);
+  }, []);
+
+  const moveBooking = useCallback(
+    async (from: SlotRef, to: SlotRef) => {
+      const current = storesRef.current;
+      const src = current[from.barber]?.[from.day]?.[from.time];
+      const dst = current[to.barber]?.[to.day]?.[to.time] ?? null;
+      if (!src) return;
+
+      if (!navigator.onLine) {
+        showNotice('Преместването изисква връзка');
+        return;
+      }
+      const fromKey = slotKey(from.barber, from.day, from.time);
+      const toKey = slotKey(to.barber, to.day, to.time);
+      if (pendingOpsRef.current[fromKey] || pendingOpsRef.current[toKey]) {
+        showNotice('Изчакай промените да се изпратят');
+        return;
+      }
+      const refusal = moveRefusal(current, scheduleRef.current, from, to);
+      if (refusal) {
+        showNotice(refusal);
+        return;
+      }
+
+      const writes: SlotWrite[] = [
+        { ...from, value: dst },
+        { ...to, value: src },
+      ];
+      applyWritesLocally(writes);
+      setHighlight({ ...to, ts: Date.now() });
+
+      const res = await patchMoveSlot(from, to, !!dst, versionsRef.current[fromKey] ?? 0, versionsRef.current[toKey] ?? 0);
+      if (!res.ok) {
+        applyWritesLocally([
+          { ...from, value: src },
+          { ...to, value: dst },
+        ]);
+        showNotice(
+          res.error === 'Overlaps an existing booking'
+            ? 'Застъпва се с друг час'
+            : res.error === 'Outside opening hours'
+              ? 'Извън работното време'
+              : 'Преместването не стана, часовете са променени другаде'
+        );
+        debouncedConfirmSync(0);
+        return;
+      }
+
+      for (const [key, version] of [
+        [fromKey, res.version],
+        [toKey, res.toVersion],
+      ] as const) {
+        if (version) versionsRef.current[key] = version;
+        else delete versionsRef.current[key];
+      }
+      for (const w of writes) remoteBaseRef.current = withSlot(remoteBaseRef.current, w.barber, w.day, w.time, w.value);
+      saveOfflineCopy();
+      showNotice(`${dst ? 'Разменени' : 'Преместен'}: ${src.name} → ${to.time}`);
+      debouncedConfirmSync(1200);
+    },
+    [applyWritesLocally, showNotice, saveOfflineCopy, debouncedConfirmSync]
+  );
+
+  const dropMove = useCallback(
+    (barber: string, day: string, time: string) => {
+      const from = movingRef.current;
+      cancelMove();
+      if (!from || (from.barber === barber && from.day === day && from.time === time)) return;
+      moveBooking(from, { barber, day, time });
+    },
+    [cancelMove, moveBooking]
+  );
+
+  // Leaving the day editor drops the pick; Escape cancels it
+  useEffect(() => {
+    if (!selectedDate) cancelMove();
+  }, [selectedDate, cancelMove]);
+
+  useEffect(() => {
+    if (!moving) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') cancelMove();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [moving, cancelMove]);
+
+  const dropWaitlistEntry = async (entry: WaitlistEntry) => {
+    setWaitlist((prev) => prev.filter((e) => e.id !== entry.id));
+    if (!(await removeWaitlistEntry(entry.id))) {
+      showNotice('Списъкът на чакащите не може да се обнови');
+      reloadWaitlist();
+    }
+  };
+
+  const addToWaitlist = async (fields: WaitlistFields) => {
+    const entry = await addWaitlistEntry(fields);
+    if (!entry) {
+      showNotice('Чакащият не може да се запише');
+      return false;
+    }
+    setWaitlist((prev) => [...prev, entry]);
+    return true;
+  };
+
+  // Books the freed slot for the waiting client (if it is still free) and takes them off the list
+  const acceptWaitOffer = () => {
+    if (!waitOffer) return;
+    const { entry, barber, day, time } = waitOffer;
+    setWaitOffer(null);
+    const appt = toAppointment({ name: entry.name, phone: entry.phone, clientId: entry.clientId, duration: schedule.slotMinutes });
+    if (!appt) return;
+    const start = timeToMinutes(time);
+    const dayMap = stores[barber]?.[day];
+    if (isBooked(dayMap?.[time]) || findOverlap(dayMap, time, [start, start + appt.duration])) {
+      showNotice('Часът вече е зает');
+      return;
+    }
+    writeSlot(barber, day, time, appt, true);
+    dropWaitlistEntry(entry);
+  };
 
-      // queue + send
-      enqueuePendingOp(day, time, name === '' ? null : name);
-      window.setTimeout(() => {
-        pumpPendingOpsOnce();
-      }, 0);
+  // Entries per day for the month grid, for the barbers on screen
+  const waitCounts = useMemo(() => {
+    const out: Record<string, number> = {};
+    for (const e of waitlist) {
+      if (e.barber && !visibleBarberIds.includes(e.barber)) continue;
+      out[e.day] = (out[e.day] ?? 0) + 1;
+    }
+    return out;
+  }, [waitlist, visibleBarberIds]);
 
-      setSavedPulse({ day, time, ts: Date.now() });
-      setTimeout(() => {
-        setSavedPulse((p) => (p && p.day === day && p.time === time ? null : p));
-      }, 900);
+  // Detail sheet (phone, service, price, notes, status)
+  const [detailSlot, setDetailSlot] = useState<{ barber: string; day: string; time: string } | null>(null);
 
-      setArmedRemove(null);
+  const openDetails = useCallback(
+    (barber: string, day: string, time: string) => {
+      flushActiveSlotDraft(saveName);
+      setDetailSlot({ barber, day, time });
     },
-    [clearArmedTimeout, remoteReady, enqueuePendingOp, pumpPendingOpsOnce]
+    [flushActiveSlotDraft, saveName]
   );
 
-  const confirmRemove = useCallback(
-    (day: string, time: string) => {
-      if (!remoteReady) return;
-      clearArmedTimeout();
+  // Minutes available from `time` until the barber's next booking or closing time
+  const maxDurationAt = (barber: string, day: string, time: string) => {
+    const start = timeToMinutes(time);
+    const hours = hoursFor(schedule, day);
+    const existing = stores[barber]?.[day]?.[time];
+    // Outside opening hours (old booking) it may keep its length but not grow
+    let limit = hours && timeToMinutes(hours.open) <= start ? timeToMinutes(hours.close) : start + (existing?.duration ?? 0);
+    for (const b of hours?.breaks || []) {
+      if (timeToMinutes(b.start) >= start) limit = Math.min(limit, timeToMinutes(b.start));
+    }
+    for (const [t, a] of Object.entries(stores[barber]?.[day] || {})) {
+      if (t === time || !isBooked(a)) continue;
+      const s0 = timeToMinutes(t);
+      if (s0 > start) limit = Math.min(limit, s0);
+    }
+    return Math.max(existing?.duration ?? 0, limit - start);
+  };
 
-      setStore((prev) => {
-        const next: Store = { ...prev };
-        if (next[day]) {
-          delete next[day][time];
-          if (Object.keys(next[day]).length === 0) delete next[day];
-        }
-        saveBackup(next);
-        return next;
-      });
+  // History sheet: time null = whole day, barber null = every barber
+  const [historyFor, setHistoryFor] = useState<{ barber: string | null; day: string; time: string | null } | null>(null);
 
-      enqueuePendingOp(day, time, null);
-      window.setTimeout(() => {
-        pumpPendingOpsOnce();
-      }, 0);
+  const restoreFromHistory = (entry: HistoryEntry) => {
+    const { barber, day, time, old } = entry;
+    if (old && isBooked(old)) {
+      const start = timeToMinutes(time);
+      const hit = findOverlap(stores[barber]?.[day], time, [start, start + old.duration]);
+      if (hit) {
+        showNotice(`Застъпва се с ${hit.appt.name} (${hit.time})`);
+        return;
+      }
+    }
+    writeSlot(barber, day, time, old, true);
+    setHistoryFor(null);
+  };
 
-      setArmedRemove(null);
-    },
-    [clearArmedTimeout, remoteReady, enqueuePendingOp, pumpPendingOpsOnce]
-  );
+  // From the detail sheet: a booking not yet in the directory gets an entry
+  // (name + phone as typed) and is linked to it first
+  const showClientFor = async (barber: string, day: string, time: string) => {
+    const appt = stores[barber]?.[day]?.[time];
+    if (!appt?.name.trim()) return;
+    if (appt.clientId != null) {
+      setDetailSlot(null);
+      setProfileFor(appt.clientId);
+      return;
+    }
+    const client = await saveClient(null, { name: appt.name.trim(), phone: appt.phone });
+    if (!client) {
+      showNotice('Клиентът не може да се запише');
+      return;
+    }
+    pickClient(barber, day, time, client);
+    setDetailSlot(null);
+    setProfileFor(client.id);
+  };
+
+  // Series calls go straight to the server (no offline queue); the sync after
+  // each one brings the occurrences in
+  const [seriesBusy, setSeriesBusy] = useState(false);
+
+  const runSeries = async (call: () => Promise<SeriesResult>, done: (r: SeriesResult & { ok: true }) => string) => {
+    if (seriesBusy) return;
+    if (!navigator.onLine) {
+      showNotice('Повтарящите се часове изискват връзка');
+      return;
+    }
+    if (detailSlot && pendingOpsRef.current[slotKey(detailSlot.barber, detailSlot.day, detailSlot.time)]) {
+      showNotice('Изчакай промяната да се изпрати');
+      return;
+    }
+    setSeriesBusy(true);
+    const res = await call();
+    setSeriesBusy(false);
+    if (!res.ok) {
+      showNotice(res.skipped.length > 0 ? 'Няма свободен ден за серията' : `Грешка: ${res.error}`);
+      return;
+    }
+    setDetailSlot(null);
+    showNotice(done(res));
+    syncFromRemoteRef.current(true);
+  };
+
+  const repeatSlot = (appt: Appointment, rule: RecurrenceRule) => {
+    if (!detailSlot) return;
+    const { barber, day, time } = detailSlot;
+    runSeries(
+      () => createSeries(barber, day, time, appt, rule),
+      (r) => (r.skipped.length > 0 ? `Създадени ${r.count}, пропуснати ${r.skipped.length} (заети или почивни)` : `Създадени ${r.count} часа`)
+    );
+  };
+
+  const saveSeriesFrom = (appt: Appointment) => {
+    const seriesId = detailSlot && stores[detailSlot.barber]?.[detailSlot.day]?.[detailSlot.time]?.seriesId;
+    if (!detailSlot || seriesId == null) return;
+    runSeries(() => updateSeries(seriesId, detailSlot.day, appt), (r) => `Променени ${r.count} часа`);
+  };
+
+  const endSeriesFrom = () => {
+    const seriesId = detailSlot && stores[detailSlot.barber]?.[detailSlot.day]?.[detailSlot.time]?.seriesId;
+    if (!detailSlot || seriesId == null) return;
+    runSeries(() => endSeries(seriesId, detailSlot.day), (r) => `Изтрити ${r.count} часа`);
+  };
+
+  const openFromProfile = (v: ClientVisit) => {
+    setProfileFor(null);
+    setShowSearch(false);
+    openDay(new Date(`${v.day}T00:00:00`));
+    setHighlight({ barber: v.barber, day: v.day, time: v.time, ts: Date.now() });
+  };
+
+  const saveDetails = (appt: Appointment | null) => {
+    if (!detailSlot) return;
+    const { barber, day, time } = detailSlot;
+    // Same check the server does, so the user gets feedback before going offline-queued
+    if (appt && isBooked(appt)) {
+      const start = timeToMinutes(time);
+      const hit = findOverlap(stores[barber]?.[day], time, [start, start + appt.duration]);
+      if (hit) {
+        showNotice(`Застъпва се с ${hit.appt.name} (${hit.time})`);
+        return;
+      }
+    }
+    writeSlot(barber, day, time, appt, true);
+    setDetailSlot(null);
+  };
 
   // Day swipe logic
   const IOS_SWIPE_THRESHOLD = 70;
@@ -1064,10 +5063,11 @@ function BarberCalendarCore() {
     else el.scrollLeft = w;
   }, []);
 
+  // One step = one day, or one week in the week view
   const shiftSelectedDay = (delta: number) => {
     setSelectedDate((prev) => {
       if (!prev) return prev;
-      const next = addDays(prev, delta);
+      const next = addDays(prev, weekView ? delta * 7 : delta);
       if (next.getFullYear() !== viewYear || next.getMonth() !== viewMonth) {
         setViewYear(next.getFullYear());
         setViewMonth(next.getMonth());
@@ -1095,7 +5095,7 @@ function BarberCalendarCore() {
         });
       }, 170);
     },
-    [measureIOSDayWidth, viewMonth, viewYear, saveName, flushActiveSlotDraft]
+    [measureIOSDayWidth, viewMonth, viewYear, weekView, saveName, flushActiveSlotDraft]
   );
 
   const onIOSPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
@@ -1217,7 +5217,7 @@ function BarberCalendarCore() {
         isShiftingRef.current = false;
       }, 520);
     },
-    [centerDayScroller, viewMonth, viewYear, saveName, flushActiveSlotDraft, forcePaintKick]
+    [centerDayScroller, viewMonth, viewYear, weekView, saveName, flushActiveSlotDraft, forcePaintKick]
   );
 
   const handleDayScrollEnd = useCallback(() => {
@@ -1264,7 +5264,7 @@ function BarberCalendarCore() {
         isShiftingRef.current = false;
       });
     });
-  }, [selectedDayISO, selectedDate, centerDayScroller, clearScrollEndTimer, resetIOSTrack, forcePaintKick]);
+  }, [selectedDayISO, selectedDate, weekView, centerDayScroller, clearScrollEndTimer, resetIOSTrack, forcePaintKick]);
 
   useEffect(() => {
     setPanelStyle({});
@@ -1305,7 +5305,7 @@ function BarberCalendarCore() {
     if (!pendingFocus || !selectedDayISO) return;
     if (pendingFocus.day !== selectedDayISO) return;
 
-    const id = slotInputId(pendingFocus.day, pendingFocus.time);
+    const id = slotInputId(pendingFocus.barber, pendingFocus.day, pendingFocus.time);
     const t = window.setTimeout(() => {
       const el = document.getElementById(id) as HTMLInputElement | null;
       if (el) {
@@ -1329,33 +5329,59 @@ function BarberCalendarCore() {
       setViewYear(d.getFullYear());
       setViewMonth(d.getMonth());
     }
+    setWeekView(false);
     setSelectedDate(d);
   };
 
+  const openWeek = (d: Date) => {
+    openDay(d);
+    setWeekView(true);
+  };
+
+  // Day header in the week view (memoized WeekColumn keeps the first one it gets)
+  const openDayFromWeek = useCallback(
+    (d: Date) => {
+      flushActiveSlotDraft(saveName);
+      setViewYear(d.getFullYear());
+      setViewMonth(d.getMonth());
+      setWeekView(false);
+      setSelectedDate(d);
+    },
+    [flushActiveSlotDraft, saveName]
+  );
+
   // Closest available
-  type AvailHit = { dayISO: string; time: string };
+  // In the "any barber" view a time is free if at least one barber is free;
+  // the hit points at the first such barber so the editor can focus their row.
+  // Blocked time is never free: coverMap covers blocks like bookings.
+  type AvailHit = { dayISO: string; time: string; barberId: string };
 
+  // Only loaded days count: a day the calendar hasn't read isn't known to be free
   const closestAvail: AvailHit[] = useMemo(() => {
     const COUNT = 18;
-    const MAX_DAYS = 120;
     const out: AvailHit[] = [];
+    if (visibleBarberIds.length === 0 || !loadedWindow) return out;
 
     let cur = new Date(`${todayISO}T00:00:00`);
-    for (let i = 0; i < MAX_DAYS && out.length < COUNT; i++) {
+    for (let i = 0; i < AVAIL_DAYS && out.length < COUNT; i++) {
       const dayISO = toISODate(cur);
-      const dayMap = store[dayISO] || {};
-
-      for (const slot of DAY_SLOTS) {
-        const v = (dayMap as Record<string, string>)[slot];
-        if (!v || v.trim().length === 0) {
-          out.push({ dayISO, time: slot });
+      if (dayISO < loadedWindow.from || dayISO > loadedWindow.to) break;
+      const slots = slotsFor(dayISO);
+      const covers = visibleBarberIds.map((id) => ({ id, cover: coverMap(stores[id]?.[dayISO], slots) }));
+
+      for (const slot of slots) {
+        const freeBarber = covers.find((c) => !c.cover[slot])?.id;
+        if (freeBarber) {
+          out.push({ dayISO, time: slot, barberId: freeBarber });
           if (out.length >= COUNT) break;
         }
       }
       cur = addDays(cur, 1);
     }
     return out;
-  }, [store, todayISO]);
+  }, [stores, visibleBarberIds, slotsFor, todayISO, loadedWindow]);
+
+  const availLoading = showAvail && (!loadedWindow || loadedWindow.from > todayISO || loadedWindow.to < addDaysISO(todayISO, AVAIL_DAYS - 1));
 
   const closestGrouped = useMemo(() => {
     const m = new Map<string, AvailHit[]>();
@@ -1375,32 +5401,88 @@ function BarberCalendarCore() {
     return `${weekday} ${day} ${month} ${year}`;
   };
 
-  const openFromAvailability = (dayISOKey: string, time: string) => {
-    const d = new Date(`${dayISOKey}T00:00:00`);
+  // "2 – 8 Март 2026", or "30 Март – 5 Април 2026" across months
+  const formatWeekLabel = (start: Date) => {
+    const end = addDays(start, 6);
+    const from = start.getMonth() === end.getMonth() ? `${start.getDate()}` : `${start.getDate()} ${MONTHS[start.getMonth()]}`;
+    const year = start.getFullYear() === end.getFullYear() ? '' : ` ${start.getFullYear()}`;
+    return `${from}${year} – ${end.getDate()} ${MONTHS[end.getMonth()]} ${end.getFullYear()}`;
+  };
+
+  const openFromAvailability = (h: AvailHit) => {
+    const d = new Date(`${h.dayISO}T00:00:00`);
     setShowAvail(false);
     openDay(d);
-    setHighlight({ day: dayISOKey, time, ts: Date.now() });
-    setPendingFocus({ day: dayISOKey, time, ts: Date.now() });
+    setHighlight({ barber: h.barberId, day: h.dayISO, time: h.time, ts: Date.now() });
+    setPendingFocus({ barber: h.barberId, day: h.dayISO, time: h.time, ts: Date.now() });
   };
 
   // Search
-  type Hit = { dayISO: string; time: string; name: string };
+  type Hit = { barberId: string; dayISO: string; time: string; name: string };
+
+  // Directory entries matching the query; their profiles cover past visits too.
+  // Upcoming bookings past the loaded window come from the server, by name or
+  // by one of those clients.
+  const [clientHits, setClientHits] = useState<Client[]>([]);
+  const [upcomingHits, setUpcomingHits] = useState<ClientVisit[]>([]);
+  useEffect(() => {
+    const q = searchQ.trim();
+    if (!showSearch || q.length < CLIENT_SEARCH_MIN) {
+      setClientHits([]);
+      setUpcomingHits([]);
+      return;
+    }
+    let cancelled = false;
+    const t = window.setTimeout(async () => {
+      const found = await searchClients(q);
+      if (cancelled) return;
+      setClientHits(found || []);
+      const upcoming = await searchUpcoming(q, todayISO, (found || []).map((c) => c.id));
+      if (!cancelled) setUpcomingHits(upcoming || []);
+    }, CLIENT_SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(t);
+    };
+  }, [showSearch, searchQ, todayISO]);
 
   const hits: Hit[] = useMemo(() => {
     const q = searchQ.trim().toLowerCase();
     if (!q) return [];
     const out: Hit[] = [];
-    for (const [dayISOKey, dayMap] of Object.entries(store)) {
-      if (dayISOKey < todayISO) continue;
-      for (const [time, name] of Object.entries(dayMap || {})) {
-        const n = (name || '').trim();
-        if (!n) continue;
-        if (n.toLowerCase().includes(q)) out.push({ dayISO: dayISOKey, time, name: n });
+    const matches = (appt: Appointment) => {
+      const phone = (appt.phone || '').replace(/\s+/g, '');
+      return appt.name.toLowerCase().includes(q) || (!!phone && phone.includes(q.replace(/\s+/g, '')));
+    };
+    // Bookings linked to the same directory client match too, whatever the spelling
+    const clientIds = new Set<number>();
+    for (const barberId of visibleBarberIds) {
+      for (const dayMap of Object.values(stores[barberId] || {})) {
+        for (const appt of Object.values(dayMap || {})) if (appt?.clientId && matches(appt)) clientIds.add(appt.clientId);
       }
     }
+    for (const barberId of visibleBarberIds) {
+      for (const [dayISOKey, dayMap] of Object.entries(stores[barberId] || {})) {
+        if (dayISOKey < todayISO) continue;
+        for (const [time, appt] of Object.entries(dayMap || {})) {
+          const n = (appt?.name || '').trim();
+          // a block's name is its reason, not a client
+          if (!n || isBlock(appt)) continue;
+          if (matches(appt) || (appt.clientId != null && clientIds.has(appt.clientId)))
+            out.push({ barberId, dayISO: dayISOKey, time, name: n });
+        }
+      }
+    }
+    // Loaded days are already covered above, with pending edits on top
+    const loaded = (day: string) => !!loadedWindow && day >= loadedWindow.from && day <= loadedWindow.to;
+    const seen = new Set(out.map((h) => slotKey(h.barberId, h.dayISO, h.time)));
+    for (const v of upcomingHits) {
+      if (loaded(v.day) || !visibleBarberIds.includes(v.barber) || seen.has(slotKey(v.barber, v.day, v.time))) continue;
+      out.push({ barberId: v.barber, dayISO: v.day, time: v.time, name: v.appointment.name });
+    }
     out.sort((a, b) => (a.dayISO === b.dayISO ? a.time.localeCompare(b.time) : a.dayISO.localeCompare(b.dayISO)));
     return out;
-  }, [store, searchQ, todayISO]);
+  }, [stores, visibleBarberIds, searchQ, todayISO, upcomingHits, loadedWindow]);
 
   const groupedHits = useMemo(() => {
     const groups = new Map<string, Hit[]>();
@@ -1411,12 +5493,66 @@ function BarberCalendarCore() {
     return Array.from(groups.entries()).map(([dayISO, list]) => ({ dayISO, list }));
   }, [hits]);
 
-  const openFromSearch = (dayISOKey: string, time: string) => {
-    const d = new Date(`${dayISOKey}T00:00:00`);
+  const openFromSearch = (h: Hit) => {
+    const d = new Date(`${h.dayISO}T00:00:00`);
     setShowSearch(false);
     setSearchQ('');
     openDay(d);
-    setHighlight({ day: dayISOKey, time, ts: Date.now() });
+    setHighlight({ barber: h.barberId, day: h.dayISO, time: h.time, ts: Date.now() });
+  };
+
+  // Agenda
+  const openAgenda = () => setAgendaUntil(addDaysISO(todayISO, 2 * AGENDA_PAGE_DAYS));
+  const closeAgenda = useCallback(() => setAgendaUntil(null), []);
+
+  const agendaLast = addDaysISO(todayISO, AGENDA_MAX_DAYS);
+  const loadMoreAgenda = useCallback(
+    () => setAgendaUntil((until) => (until && until < agendaLast ? addDaysISO(until, AGENDA_PAGE_DAYS) : until)),
+    [agendaLast]
+  );
+
+  // Every booking from today to agendaUntil for the barbers on screen (blocks aren't visits)
+  const agendaGroups = useMemo(() => {
+    if (!agendaUntil) return [];
+    const out: AgendaEntry[] = [];
+    for (const barberId of visibleBarberIds) {
+      for (const [dayISO, dayMap] of Object.entries(stores[barberId] || {})) {
+        if (dayISO < todayISO || dayISO > agendaUntil) continue;
+        for (const [time, appt] of Object.entries(dayMap || {})) {
+          if (appt && !isBlock(appt)) out.push({ barberId, dayISO, time, appt });
+        }
+      }
+    }
+    out.sort((a, b) => (a.dayISO === b.dayISO ? a.time.localeCompare(b.time) : a.dayISO.localeCompare(b.dayISO)));
+    const groups = new Map<string, AgendaEntry[]>();
+    for (const e of out) {
+      if (!groups.has(e.dayISO)) groups.set(e.dayISO, []);
+      groups.get(e.dayISO)!.push(e);
+    }
+    return Array.from(groups.entries()).map(([dayISO, list]) => ({ dayISO, list }));
+  }, [stores, visibleBarberIds, todayISO, agendaUntil]);
+
+  const agendaLoading = !!agendaUntil && (!loadedWindow || loadedWindow.from > todayISO || loadedWindow.to < agendaUntil);
+
+  // Quick actions write the slot as it is now (realtime may have changed it since)
+  const setAgendaStatus = (e: AgendaEntry, status: AppointmentStatus) => {
+    const current = stores[e.barberId]?.[e.dayISO]?.[e.time];
+    if (!current) return;
+    writeSlot(e.barberId, e.dayISO, e.time, toAppointment({ ...current, status }), false);
+    if (status === 'cancelled') offerWaitlist(e.barberId, e.dayISO, e.time);
+  };
+
+  const openFromAgenda = (e: AgendaEntry) => {
+    closeAgenda();
+    openDay(new Date(`${e.dayISO}T00:00:00`));
+    setHighlight({ barber: e.barberId, day: e.dayISO, time: e.time, ts: Date.now() });
+  };
+
+  // Picks the booking up and opens its day, where the new slot is tapped
+  const moveFromAgenda = (e: AgendaEntry) => {
+    openFromAgenda(e);
+    startMove(e.barberId, e.dayISO, e.time);
+    showNotice('Избери новия час');
   };
 
   // Weekend buttons
@@ -1478,7 +5614,7 @@ function BarberCalendarCore() {
   };
 
   const onMonthTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
-    if (showYear || selectedDate || showSearch || showAvail) return;
+    if (showYear || selectedDate || showSearch || showAvail || agendaUntil != null || showSchedule || showSnapshots || showQueue || profileFor != null) return;
     monthStartX.current = e.touches[0].clientX;
     monthStartY.current = e.touches[0].clientY;
     monthDX.current = 0;
@@ -1642,27 +5778,140 @@ function BarberCalendarCore() {
   const getDayProps = useCallback(
     (date: Date, isCurrent: boolean) => {
       const iso = toISODate(date);
+      const dayData: DayData = {};
+      for (const b of visibleBarbers) dayData[b.id] = stores[b.id]?.[iso];
       return {
         key: iso,
         date,
         isCurrent,
-        dayData: store[iso],
+        barbers: visibleBarbers,
+        dayData,
+        slots: withBookedTimes(slotsFor(iso), dayData),
+        keyboardInset,
+        remoteReady,
+        queueState,
+        savedPulse,
+        armedRemove,
+        highlight,
+        startEditing,
+        stopEditing,
+        saveName,
+        pickClient,
+        armRemove,
+        confirmRemove,
+        openDetails,
+        revealFocus,
+        moving,
+        startMove,
+        cancelMove,
+        dropMove,
+      };
+    },
+    [
+      stores,
+      visibleBarbers,
+      slotsFor,
+      keyboardInset,
+      remoteReady,
+      queueState,
+      savedPulse,
+      armedRemove,
+      highlight,
+      startEditing,
+      stopEditing,
+      saveName,
+      pickClient,
+      armRemove,
+      confirmRemove,
+      openDetails,
+      revealFocus,
+      moving,
+      startMove,
+      cancelMove,
+      dropMove,
+    ]
+  );
+
+  // Week view pane for the week `date` falls in; same rows and handlers as a day
+  const getWeekProps = useCallback(
+    (date: Date, isCurrent: boolean) => {
+      const weekStart = weekStartOf(date);
+      const weekData: WeekData = {};
+      const slotsByDay: Record<string, string[]> = {};
+      for (let i = 0; i < 7; i++) {
+        const iso = toISODate(addDays(weekStart, i));
+        const dayData: DayData = {};
+        for (const b of visibleBarbers) dayData[b.id] = stores[b.id]?.[iso];
+        weekData[iso] = dayData;
+        slotsByDay[iso] = withBookedTimes(slotsFor(iso), dayData);
+      }
+      return {
+        key: toISODate(weekStart),
+        weekStart,
+        isCurrent,
+        todayISO,
+        barbers: visibleBarbers,
+        weekData,
+        slotsByDay,
         keyboardInset,
         remoteReady,
+        queueState,
         savedPulse,
         armedRemove,
         highlight,
+        openDay: openDayFromWeek,
         startEditing,
         stopEditing,
         saveName,
+        pickClient,
         armRemove,
         confirmRemove,
+        openDetails,
         revealFocus,
+        moving,
+        startMove,
+        cancelMove,
+        dropMove,
       };
     },
-    [store, keyboardInset, remoteReady, savedPulse, armedRemove, highlight, startEditing, stopEditing, saveName, armRemove, confirmRemove, revealFocus]
+    [
+      stores,
+      visibleBarbers,
+      slotsFor,
+      todayISO,
+      keyboardInset,
+      remoteReady,
+      queueState,
+      savedPulse,
+      armedRemove,
+      highlight,
+      openDayFromWeek,
+      startEditing,
+      stopEditing,
+      saveName,
+      pickClient,
+      armRemove,
+      confirmRemove,
+      openDetails,
+      revealFocus,
+      moving,
+      startMove,
+      cancelMove,
+      dropMove,
+    ]
   );
 
+  // The editor's swipe track: previous, current and next day (or week)
+  const renderPane = (offset: number) => {
+    if (!selectedDate) return null;
+    const isCurrent = offset === 0;
+    return weekView ? (
+      <WeekColumn {...getWeekProps(addDays(selectedDate, offset * 7), isCurrent)} />
+    ) : (
+      <DayColumn {...getDayProps(addDays(selectedDate, offset), isCurrent)} />
+    );
+  };
+
   return (
     <div
       className="fixed inset-0 w-full h-dvh bg-black text-white overflow-hidden"
@@ -1694,14 +5943,67 @@ function BarberCalendarCore() {
           </button>
         </div>
 
+        <div className="mt-2 md:mt-0 flex flex-wrap items-center justify-center md:justify-end gap-2">
+          <SyncIndicator
+            online={online}
+            pending={queueCounts.pending}
+            failed={queueCounts.failed}
+            onOpen={() => setShowQueue(true)}
+          />
+          {barbers.length > 1 && <BarberSwitcher barbers={barbers} active={activeBarber} onChange={setActiveBarber} />}
+        </div>
+
         {/* Weekdays */}
-        <div className="mt-[clamp(12px,2.8vw,28px)] grid grid-cols-7 gap-[clamp(6px,1.2vw,16px)] text-center" style={{ fontFamily: BRAND.fontTitle }}>
+        <div className="mt-[clamp(12px,2.8vw,28px)] grid grid-cols-[clamp(16px,2.4vw,28px)_repeat(7,minmax(0,1fr))] gap-[clamp(6px,1.2vw,16px)] text-center" style={{ fontFamily: BRAND.fontTitle }}>
+          <div aria-hidden="true" />
           {WEEKDAYS_SHORT.map((d, idx) => {
+            const isMon = idx === 0;
+            const isTue = idx === 1;
+            const isWed = idx === 2;
+            const isThu = idx === 3;
+            const isFri = idx === 4;
             const isSat = idx === 5;
             const isSun = idx === 6;
             return (
               <div key={d} className="flex flex-col items-center gap-2">
-                {isSat ? (
+                {isMon ? (
+                  <button
+                    onClick={() => {
+                      flushActiveSlotDraft(saveName);
+                      onLogout();
+                    }}
+                    className={weekendBtnClass}
+                    aria-label="Изход"
+                    title="Изход"
+                  >
+                    <span className={weekendEmojiClass}>🔒</span>
+                  </button>
+                ) : isTue ? (
+                  <button onClick={() => setShowSchedule(true)} className={weekendBtnClass} aria-label="Работно време" title="Работно време">
+                    <span className={weekendEmojiClass}>⚙️</span>
+                  </button>
+                ) : isWed ? (
+                  <button onClick={() => setShowSnapshots(true)} className={weekendBtnClass} aria-label="Backup" title="Backup">
+                    <span className={weekendEmojiClass}>💾</span>
+                  </button>
+                ) : isThu ? (
+                  <button
+                    onClick={() => {
+                      const now = new Date();
+                      const inView = now.getFullYear() === viewYear && now.getMonth() === viewMonth;
+                      openWeek(inView ? now : new Date(viewYear, viewMonth, 1));
+                    }}
+                    className={weekendBtnClass}
+                    aria-label="Седмица"
+                    title="Седмица"
+                  >
+                    <span className={weekendEmojiClass}>🗓️</span>
+                  </button>
+                ) : isFri ? (
+                  <button onClick={openAgenda} className={weekendBtnClass} aria-label="Предстоящи" title="Предстоящи">
+                    <span className={weekendEmojiClass}>📋</span>
+                  </button>
+                ) : isSat ? (
                   <button onClick={() => setShowAvail(true)} className={weekendBtnClass}>
                     <span className={weekendEmojiClass}>⏱️</span>
                   </button>
@@ -1720,65 +6022,107 @@ function BarberCalendarCore() {
 
         {/* Month grid */}
         <div
-          className="mt-[clamp(10px,2.2vw,20px)] flex-1 grid grid-cols-7 gap-[clamp(4px,2vw,16px)] overflow-visible pb-[clamp(24px,3.2vw,48px)]"
+          className="mt-[clamp(10px,2.2vw,20px)] flex-1 grid grid-cols-[clamp(16px,2.4vw,28px)_repeat(7,minmax(0,1fr))] gap-[clamp(4px,2vw,16px)] overflow-visible pb-[clamp(24px,3.2vw,48px)]"
           style={{ fontFamily: BRAND.fontNumbers, gridAutoRows: '1fr', ...monthStyle }}
           onTouchStart={onMonthTouchStart}
           onTouchMove={onMonthTouchMove}
           onTouchEnd={onMonthTouchEnd}
           onTouchCancel={onMonthTouchEnd}
         >
-          {matrix.flat().map((d) => {
-            const inMonth = d.getMonth() === viewMonth;
-            const key = toISODate(d);
-            const num = d.getDate();
-            const ratio = dayFillRatio(key, store);
-            const showBar = inMonth && ratio > 0;
-            const full = isDayFull(key, store);
-            const isToday = inMonth && key === todayISO;
-
-            const cls = [
-              'rounded-2xl flex items-center justify-center bg-neutral-900 text-white border transition cursor-pointer',
-              'h-full w-full aspect-square md:aspect-auto p-[clamp(6px,1vw,20px)] focus:outline-none',
-              !inMonth ? 'border-neutral-800 opacity-40 hover:opacity-70' : isToday ? 'border-white/70 ring-2 ring-white/20' : 'border-neutral-700 hover:border-white/60',
-            ].join(' ');
+          {matrix.flatMap((week) => [
+            // Week row gutter: opens the week view
+            <button
+              key={`w_${toISODate(week[0])}`}
+              onClick={() => {
+                if (monthBlockClickRef.current) return;
+                openWeek(week.find((d) => d.getMonth() === viewMonth) ?? week[0]);
+              }}
+              className="h-full w-full rounded-xl grid place-items-center text-[10px] md:text-xs text-neutral-500 hover:text-white hover:bg-neutral-900/70 transition tabular-nums"
+              style={{ fontFamily: BRAND.fontBody }}
+              title={`Седмица ${isoWeek(week[0])}`}
+            >
+              {isoWeek(week[0])}
+            </button>,
+            ...week.map((d) => {
+              const inMonth = d.getMonth() === viewMonth;
+              const key = toISODate(d);
+              const num = d.getDate();
+              const slots = slotsFor(key);
+              const closed = slots.length === 0;
+              const ratio = dayFillRatio(key, stores, visibleBarberIds, slots);
+              const showBar = inMonth && ratio > 0;
+              const full = isDayFull(key, stores, visibleBarberIds, slots);
+              const blockedOut = isDayBlocked(key, stores, visibleBarberIds, slots);
+              const waiting = inMonth && key >= todayISO ? waitCounts[key] ?? 0 : 0;
+              const isToday = inMonth && key === todayISO;
+
+              const cls = [
+                'relative rounded-2xl flex items-center justify-center bg-neutral-900 text-white border transition cursor-pointer',
+                'h-full w-full aspect-square md:aspect-auto p-[clamp(6px,1vw,20px)] focus:outline-none',
+                !inMonth ? 'border-neutral-800 opacity-40 hover:opacity-70' : isToday ? 'border-white/70 ring-2 ring-white/20' : 'border-neutral-700 hover:border-white/60',
+                inMonth && (closed || blockedOut) ? 'bg-neutral-950 text-neutral-500' : '',
+              ].join(' ');
 
-            return (
-              <button
-                key={key}
-                onClick={() => {
-                  if (monthBlockClickRef.current) return;
-                  openDay(d);
-                }}
-                className={cls}
-              >
-                <div className="flex flex-col items-center justify-center gap-2 w-full">
-                  <span className={`select-none text-[clamp(17px,3.5vw,32px)] ${isToday ? 'font-extrabold' : ''}`} style={{ fontFamily: BRAND.fontNumbers }}>
-                    {inMonth && full ? 'X' : num}
-                  </span>
-                  {showBar && (
-                    <div
-                      className="w-[92%] max-w-[180px] h-[10px] rounded-full overflow-hidden border"
-                      style={{
-                        borderColor: 'rgba(255,255,255,0.16)',
-                        background: 'linear-gradient(to bottom, rgba(255,255,255,0.08), rgba(255,255,255,0.03))',
-                      }}
+              return (
+                <button
+                  key={key}
+                  onClick={() => {
+                    if (monthBlockClickRef.current) return;
+                    openDay(d);
+                  }}
+                  className={cls}
+                  style={inMonth && blockedOut ? { backgroundImage: BLOCK_STRIPES } : undefined}
+                >
+                  {waiting > 0 && (
+                    <span
+                      className={`absolute top-1 right-1 md:top-2 md:right-2 min-w-[18px] h-[18px] px-1 rounded-full grid place-items-center text-[10px] font-semibold ${
+                        full ? 'bg-amber-400 text-black' : 'bg-neutral-700 text-white'
+                      }`}
+                      style={{ fontFamily: BRAND.fontBody }}
+                      title={`Чакащи: ${waiting}`}
                     >
+                      {waiting}
+                    </span>
+                  )}
+                  <div className="flex flex-col items-center justify-center gap-2 w-full">
+                    <span className={`select-none text-[clamp(17px,3.5vw,32px)] ${isToday ? 'font-extrabold' : ''}`} style={{ fontFamily: BRAND.fontNumbers }}>
+                      {inMonth && full ? 'X' : num}
+                    </span>
+                    {inMonth && closed && !showBar && (
+                      <span className="text-[10px] uppercase tracking-[0.14em] text-neutral-500" style={{ fontFamily: BRAND.fontBody }}>
+                        почивен
+                      </span>
+                    )}
+                    {inMonth && blockedOut && (
+                      <span className="text-[10px] uppercase tracking-[0.14em] text-neutral-500" style={{ fontFamily: BRAND.fontBody }}>
+                        блокиран
+                      </span>
+                    )}
+                    {showBar && (
                       <div
-                        className="h-full rounded-full"
+                        className="w-[92%] max-w-[180px] h-[10px] rounded-full overflow-hidden border"
                         style={{
-                          width: `${Math.round(ratio * 100)}%`,
-                          backgroundImage:
-                            'repeating-linear-gradient(45deg, rgba(255,255,255,0.92) 0px, rgba(255,255,255,0.92) 10px, rgba(255,255,255,0.58) 10px, rgba(255,255,255,0.58) 20px)',
-                          backgroundSize: '36px 36px',
-                          animation: 'bushiBarMove 0.9s linear infinite',
+                          borderColor: 'rgba(255,255,255,0.16)',
+                          background: 'linear-gradient(to bottom, rgba(255,255,255,0.08), rgba(255,255,255,0.03))',
                         }}
-                      />
-                    </div>
-                  )}
-                </div>
-              </button>
-            );
-          })}
+                      >
+                        <div
+                          className="h-full rounded-full"
+                          style={{
+                            width: `${Math.round(ratio * 100)}%`,
+                            backgroundImage:
+                              'repeating-linear-gradient(45deg, rgba(255,255,255,0.92) 0px, rgba(255,255,255,0.92) 10px, rgba(255,255,255,0.58) 10px, rgba(255,255,255,0.58) 20px)',
+                            backgroundSize: '36px 36px',
+                            animation: 'bushiBarMove 0.9s linear infinite',
+                          }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                </button>
+              );
+            }),
+          ])}
         </div>
       </div>
 
@@ -1810,7 +6154,7 @@ function BarberCalendarCore() {
             <div className="mt-4 max-h-[62vh] overflow-y-auto pr-1">
               {closestAvail.length === 0 ? (
                 <div className="text-neutral-400 text-sm" style={{ fontFamily: BRAND.fontBody }}>
-                  Няма свободни часове напред.
+                  {availLoading ? 'Зареждане…' : 'Няма свободни часове напред.'}
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -1823,7 +6167,7 @@ function BarberCalendarCore() {
                         {list.map((h) => (
                           <button
                             key={`${h.dayISO}_${h.time}`}
-                            onClick={() => openFromAvailability(h.dayISO, h.time)}
+                            onClick={() => openFromAvailability(h)}
                             className="rounded-xl border border-neutral-800 bg-neutral-950/60 hover:bg-neutral-900/70 px-3 py-2 text-center"
                           >
                             <div className="text-sm font-semibold tabular-nums" style={{ fontFamily: BRAND.fontBody }}>
@@ -1868,10 +6212,36 @@ function BarberCalendarCore() {
               />
             </div>
             <div className="mt-4 max-h-[58vh] overflow-y-auto pr-1">
-              {hits.length === 0 ? (
-                <div className="text-neutral-400 text-sm" style={{ fontFamily: BRAND.fontBody }}>
-                  Няма резултати.
+              {clientHits.length > 0 && (
+                <div className="mb-3 rounded-2xl border border-neutral-800 bg-neutral-900/40 p-3">
+                  <div className="text-sm text-neutral-200 mb-2" style={{ fontFamily: BRAND.fontBody }}>
+                    Клиенти
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {clientHits.map((c) => (
+                      <button
+                        key={c.id}
+                        onClick={() => {
+                          setShowSearch(false);
+                          setProfileFor(c.id);
+                        }}
+                        className="rounded-xl border border-neutral-800 bg-neutral-950/60 hover:bg-neutral-900/70 px-3 py-2 text-left"
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="text-sm text-neutral-200 truncate">{c.name}</div>
+                          {c.phone && <div className="text-xs text-neutral-500 tabular-nums">{c.phone}</div>}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
                 </div>
+              )}
+              {hits.length === 0 ? (
+                clientHits.length === 0 && (
+                  <div className="text-neutral-400 text-sm" style={{ fontFamily: BRAND.fontBody }}>
+                    Няма резултати.
+                  </div>
+                )
               ) : (
                 <div className="space-y-3">
                   {groupedHits.map(({ dayISO, list }) => (
@@ -1882,15 +6252,18 @@ function BarberCalendarCore() {
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                         {list.map((h) => (
                           <button
-                            key={`${h.dayISO}_${h.time}_${h.name}`}
-                            onClick={() => openFromSearch(h.dayISO, h.time)}
+                            key={`${h.barberId}_${h.dayISO}_${h.time}_${h.name}`}
+                            onClick={() => openFromSearch(h)}
                             className="rounded-xl border border-neutral-800 bg-neutral-950/60 hover:bg-neutral-900/70 px-3 py-2 text-left"
                           >
                             <div className="flex items-center justify-between gap-3">
                               <div className="text-sm font-semibold tabular-nums" style={{ fontFamily: BRAND.fontBody }}>
                                 {h.time}
                               </div>
-                              <div className="text-sm text-neutral-200 truncate">{h.name}</div>
+                              <div className="text-sm text-neutral-200 truncate">
+                                {h.name}
+                                {visibleBarbers.length > 1 && <span className="text-neutral-500"> · {barberName(h.barberId)}</span>}
+                              </div>
                             </div>
                           </button>
                         ))}
@@ -1904,6 +6277,24 @@ function BarberCalendarCore() {
         </div>
       )}
 
+      {/* Agenda Modal */}
+      {agendaUntil && (
+        <AgendaSheet
+          groups={agendaGroups}
+          todayISO={todayISO}
+          loading={agendaLoading}
+          canLoadMore={agendaUntil < agendaLast}
+          dayLabel={formatDayLabel}
+          barberLabel={visibleBarbers.length > 1 ? barberName : undefined}
+          onLoadMore={loadMoreAgenda}
+          onOpen={openFromAgenda}
+          onArrived={(e) => setAgendaStatus(e, e.appt.status === 'arrived' ? 'booked' : 'arrived')}
+          onCancel={(e) => setAgendaStatus(e, 'cancelled')}
+          onMove={moveFromAgenda}
+          onClose={closeAgenda}
+        />
+      )}
+
       {/* Year Modal */}
       {showYear && (
         <div
@@ -1970,9 +6361,79 @@ function BarberCalendarCore() {
             {/* Header */}
             <div className="flex-shrink-0 flex items-center justify-between cursor-pointer mb-4" onClick={animateCloseDown} title="Tap to close">
               <h3 className="text-2xl md:text-3xl font-bold" style={{ fontFamily: BRAND.fontTitle }}>
-                {WEEKDAYS_FULL[(selectedDate.getDay() + 6) % 7]} {selectedDate.getDate()} {MONTHS[selectedDate.getMonth()]} {selectedDate.getFullYear()}
+                {weekView
+                  ? formatWeekLabel(weekStartOf(selectedDate))
+                  : `${WEEKDAYS_FULL[(selectedDate.getDay() + 6) % 7]} ${selectedDate.getDate()} ${MONTHS[selectedDate.getMonth()]} ${selectedDate.getFullYear()}`}
               </h3>
-              <div className="w-10 md:w-12" />
+              <div className="flex items-center gap-2">
+                {barbers.length > 1 && (
+                  <BarberSwitcher
+                    barbers={barbers}
+                    active={activeBarber}
+                    onChange={(id) => {
+                      flushActiveSlotDraft(saveName);
+                      setActiveBarber(id);
+                    }}
+                    compact
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    flushActiveSlotDraft(saveName);
+                    setWeekView((w) => !w);
+                  }}
+                  className="h-10 md:h-12 px-3 rounded-full border border-neutral-700 bg-neutral-900/70 text-[11px] uppercase tracking-[0.14em] flex items-center justify-center hover:border-white/60"
+                  style={{ fontFamily: BRAND.fontBody }}
+                  title={weekView ? 'Към деня' : 'Към седмицата'}
+                >
+                  {weekView ? 'Ден' : 'Седмица'}
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    flushActiveSlotDraft(saveName);
+                    setHistoryFor({ barber: activeBarber === ANY_BARBER ? null : activeBarber, day: selectedDayISO, time: null });
+                  }}
+                  className="w-10 h-10 md:w-12 md:h-12 rounded-full border border-neutral-700 bg-neutral-900/70 text-lg flex items-center justify-center hover:border-white/60"
+                  title="История на деня"
+                >
+                  🕘
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    flushActiveSlotDraft(saveName);
+                    setWaitlistFor(selectedDayISO);
+                    reloadWaitlist();
+                  }}
+                  className="relative w-10 h-10 md:w-12 md:h-12 rounded-full border border-neutral-700 bg-neutral-900/70 text-lg flex items-center justify-center hover:border-white/60"
+                  title="Чакащи"
+                >
+                  ⏳
+                  {(waitCounts[selectedDayISO] ?? 0) > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full grid place-items-center bg-amber-400 text-black text-[10px] font-semibold">
+                      {waitCounts[selectedDayISO]}
+                    </span>
+                  )}
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    flushActiveSlotDraft(saveName);
+                    setBlockFor(selectedDayISO);
+                  }}
+                  disabled={!remoteReady}
+                  className="w-10 h-10 md:w-12 md:h-12 rounded-full border border-neutral-700 bg-neutral-900/70 text-lg flex items-center justify-center hover:border-white/60 disabled:opacity-40"
+                  title="Блокирай време"
+                >
+                  ⛔
+                </button>
+              </div>
             </div>
 
             {IS_IOS ? (
@@ -1987,13 +6448,13 @@ function BarberCalendarCore() {
               >
                 <div className="w-full h-full flex" style={dayTrackStyleIOS}>
                   <div className="w-full h-full flex-shrink-0" style={{ flex: '0 0 100%' }}>
-                    <DayColumn {...getDayProps(addDays(selectedDate, -1), false)} />
+                    {renderPane(-1)}
                   </div>
                   <div className="w-full h-full flex-shrink-0" style={{ flex: '0 0 100%' }}>
-                    <DayColumn {...getDayProps(selectedDate, true)} />
+                    {renderPane(0)}
                   </div>
                   <div className="w-full h-full flex-shrink-0" style={{ flex: '0 0 100%' }}>
-                    <DayColumn {...getDayProps(addDays(selectedDate, 1), false)} />
+                    {renderPane(1)}
                   </div>
                 </div>
               </div>
@@ -2009,46 +6470,275 @@ function BarberCalendarCore() {
                     WebkitTransform: 'translate3d(0,0,0)',
                   }}
                 >
-                  <DayColumn {...getDayProps(addDays(selectedDate, -1), false)} />
-                  <DayColumn {...getDayProps(selectedDate, true)} />
-                  <DayColumn {...getDayProps(addDays(selectedDate, 1), false)} />
+                  {renderPane(-1)}
+                  {renderPane(0)}
+                  {renderPane(1)}
                 </div>
               </div>
             )}
           </div>
         </div>
       )}
+
+      {/* Schedule Modal */}
+      {showSchedule && (
+        <ScheduleEditor
+          schedule={schedule}
+          onSave={async (next) => {
+            const saved = await saveRemoteSchedule(next);
+            if (saved) applySchedule(saved);
+            return !!saved;
+          }}
+          onClose={() => setShowSchedule(false)}
+        />
+      )}
+
+      {/* Backups Modal */}
+      {showSnapshots && (
+        <SnapshotsPanel
+          barbers={barbers}
+          defaultBarber={barbers.length > 1 && activeBarber !== ANY_BARBER ? activeBarber : null}
+          defaultDay={selectedDayISO || toISODate(new Date())}
+          onRestored={(text) => {
+            setShowSnapshots(false);
+            showNotice(text);
+            syncFromRemote(true);
+          }}
+          onClose={() => setShowSnapshots(false)}
+        />
+      )}
+
+      {/* Conflict Sheet (one at a time) */}
+      {showQueue && (
+        <PendingOpsPanel
+          ops={Object.entries(pendingOpsRef.current).filter(([k]) => queueState[k])}
+          dayLabel={formatDayLabel}
+          barberLabel={barbers.length > 1 ? barberName : undefined}
+          onRetry={retryPendingOps}
+          onDiscard={discardPendingOp}
+          onClose={() => setShowQueue(false)}
+        />
+      )}
+
+      {conflicts.length > 0 && (
+        <ConflictSheet
+          key={`${conflicts[0].barber}_${conflicts[0].day}_${conflicts[0].time}`}
+          title={`${formatDayLabel(conflicts[0].day)} · ${conflicts[0].time}${barbers.length > 1 ? ` · ${barberName(conflicts[0].barber)}` : ''}`}
+          conflict={conflicts[0]}
+          remaining={conflicts.length - 1}
+          onResolve={(keepMine) => resolveConflict(conflicts[0], keepMine)}
+        />
+      )}
+
+      {/* Notice */}
+      {notice && (
+        <div className="fixed inset-x-0 bottom-[max(16px,env(safe-area-inset-bottom))] z-[60] flex justify-center pointer-events-none">
+          <div
+            className="pointer-events-auto max-w-[min(100%-32px,520px)] rounded-2xl border border-neutral-700 bg-neutral-900/95 px-4 py-2.5 text-sm shadow-2xl"
+            style={{ fontFamily: BRAND.fontBody }}
+            onClick={() => setNotice(null)}
+          >
+            {notice.text}
+            {notice.travel && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  travel(notice.travel!);
+                }}
+                className="ml-3 rounded-lg border border-neutral-600 px-2 py-0.5 text-xs uppercase tracking-[0.12em] hover:border-white/70"
+              >
+                {notice.travel === 'undo' ? 'Отмени' : 'Повтори'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Appointment Detail Sheet */}
+      {detailSlot && (
+        <AppointmentSheet
+          key={`${detailSlot.barber}_${detailSlot.day}_${detailSlot.time}`}
+          title={`${formatDayLabel(detailSlot.day)} · ${detailSlot.time}${barbers.length > 1 ? ` · ${barberName(detailSlot.barber)}` : ''}`}
+          value={stores[detailSlot.barber]?.[detailSlot.day]?.[detailSlot.time]}
+          maxDuration={maxDurationAt(detailSlot.barber, detailSlot.day, detailSlot.time)}
+          slotMinutes={schedule.slotMinutes}
+          onSave={saveDetails}
+          onShowHistory={() => {
+            setHistoryFor(detailSlot);
+            setDetailSlot(null);
+          }}
+          onShowClient={() => showClientFor(detailSlot.barber, detailSlot.day, detailSlot.time)}
+          onRepeat={repeatSlot}
+          onSaveSeries={saveSeriesFrom}
+          onEndSeries={endSeriesFrom}
+          onClose={() => setDetailSlot(null)}
+        />
+      )}
+
+      {/* History Sheet */}
+      {historyFor && (
+        <HistorySheet
+          key={`${historyFor.barber}_${historyFor.day}_${historyFor.time}`}
+          title={`История · ${formatDayLabel(historyFor.day)}${historyFor.time ? ` · ${historyFor.time}` : ''}`}
+          day={historyFor.day}
+          barber={historyFor.barber}
+          time={historyFor.time}
+          barberLabel={barbers.length > 1 ? barberName : undefined}
+          current={(barber, time) => stores[barber]?.[historyFor.day]?.[time]}
+          onRestore={restoreFromHistory}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
+
+      {/* Waitlist Sheet */}
+      {waitlistFor && (
+        <WaitlistSheet
+          key={waitlistFor}
+          title={`Чакащи · ${formatDayLabel(waitlistFor)}`}
+          day={waitlistFor}
+          entries={waitlist.filter((e) => e.day === waitlistFor)}
+          barbers={barbers}
+          defaultBarber={activeBarber === ANY_BARBER ? null : activeBarber}
+          onAdd={addToWaitlist}
+          onRemove={dropWaitlistEntry}
+          onClose={() => setWaitlistFor(null)}
+        />
+      )}
+
+      {/* Block Sheet */}
+      {blockFor && (
+        <BlockSheet
+          key={blockFor}
+          day={blockFor}
+          barbers={barbers}
+          defaultBarber={activeBarber === ANY_BARBER ? null : activeBarber}
+          slotMinutes={schedule.slotMinutes}
+          onBlock={blockRange}
+          onUnblock={unblockRange}
+          onClose={() => setBlockFor(null)}
+        />
+      )}
+
+      {/* Waitlist offer for a freed slot */}
+      {waitOffer && (
+        <WaitlistOfferSheet
+          key={`${waitOffer.entry.id}_${waitOffer.day}_${waitOffer.time}`}
+          title={`${formatDayLabel(waitOffer.day)} · ${waitOffer.time}${barbers.length > 1 ? ` · ${barberName(waitOffer.barber)}` : ''}`}
+          entry={waitOffer.entry}
+          onAccept={acceptWaitOffer}
+          onDismiss={() => setWaitOffer(null)}
+        />
+      )}
+
+      {/* Client Profile Sheet */}
+      {profileFor != null && (
+        <ClientProfileSheet
+          key={profileFor}
+          clientId={profileFor}
+          dayLabel={formatDayLabel}
+          barberLabel={barbers.length > 1 ? barberName : undefined}
+          onOpenVisit={openFromProfile}
+          onClose={() => setProfileFor(null)}
+        />
+      )}
     </div>
   );
 }
 
 // =============================================================================
-// PIN wrapper
+// PIN wrapper (PIN is verified server-side; session lives in an httpOnly cookie)
 // =============================================================================
 export default function BarbershopAdminPanel() {
-  const [unlocked, setUnlocked] = useState(false);
+  const [authState, setAuthState] = useState<'checking' | 'locked' | 'unlocked'>('checking');
   const [pin, setPin] = useState('');
   const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
-    if (process.env.NODE_ENV === 'production' && localStorage.getItem('bushi_unlocked') === '1') {
-      setUnlocked(true);
-    }
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await fetch(AUTH_ENDPOINT, { method: 'GET', cache: 'no-store' });
+        const data: any = res.ok ? await res.json() : null;
+        if (data) await saveSessionExpiry(data.authenticated ? Number(data.expiresAt) || null : null);
+        if (!cancelled) setAuthState(data?.authenticated ? 'unlocked' : 'locked');
+      } catch {
+        // No network: a device whose session the server confirmed (and that has an
+        // offline copy) keeps working until that session would have expired; the
+        // server re-checks it once the network is back
+        const [snap, exp] = await Promise.all([loadCalendarSnapshot(), loadSessionExpiry()]);
+        const valid = exp != null && exp * 1000 > Date.now();
+        if (!cancelled) setAuthState(snap && valid ? 'unlocked' : 'locked');
+      }
+    })();
+
+    const onUnauthorized = () => {
+      saveSessionExpiry(null);
+      setAuthState('locked');
+    };
+    window.addEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+    };
+  }, []);
+
+  // Installed app: shell, assets and fonts from the service worker when offline
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch(() => {});
   }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (pin === PIN_CODE) {
-      setUnlocked(true);
-      setError('');
-      if (typeof window !== 'undefined') localStorage.setItem('bushi_unlocked', '1');
-    } else {
-      setError('Wrong PIN');
+    if (submitting || !pin) return;
+    setSubmitting(true);
+    try {
+      const res = await fetch(AUTH_ENDPOINT, {
+        method: 'POST',
+        cache: 'no-store',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pin }),
+      });
+      const data: any = await res.json().catch(() => null);
+
+      if (res.ok) {
+        await saveSessionExpiry(Number(data?.expiresAt) || null);
+        setAuthState('unlocked');
+        setError('');
+      } else if (res.status === 429) {
+        const mins = Math.max(1, Math.ceil(Number(data?.retryAfter || 0) / 60));
+        setError(`Too many attempts. Try again in ${mins} min.`);
+      } else if (res.status === 401) {
+        const left = Number(data?.attemptsLeft);
+        setError(Number.isFinite(left) ? `Wrong PIN (${left} attempts left)` : 'Wrong PIN');
+      } else {
+        setError('Server error, try again');
+      }
+    } catch {
+      setError('No connection');
+    } finally {
+      setPin('');
+      setSubmitting(false);
     }
   };
 
-  if (!unlocked) {
+  const handleLogout = useCallback(async () => {
+    try {
+      await fetch(AUTH_ENDPOINT, { method: 'DELETE', cache: 'no-store' });
+    } catch {}
+    await clearLocalDb();
+    setAuthState('locked');
+  }, []);
+
+  if (authState === 'checking') {
+    return <div className="fixed inset-0 bg-black" />;
+  }
+
+  if (authState === 'locked') {
     return (
       <div className="fixed inset-0 flex items-center justify-center bg-black text-white overflow-hidden">
         <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_top,_rgba(255,255,255,0.16)_0,_transparent_55%),radial-gradient(circle_at_bottom,_rgba(255,255,255,0.12)_0,_transparent_55%)]" />
@@ -2080,7 +6770,8 @@ export default function BarbershopAdminPanel() {
             )}
             <button
               type="submit"
-              className="w-full rounded-2xl bg-white text-black font-semibold py-2.5 text-sm tracking-[0.16em] uppercase hover:bg-neutral-200 transition"
+              disabled={submitting}
+              className="w-full rounded-2xl bg-white text-black font-semibold py-2.5 text-sm tracking-[0.16em] uppercase hover:bg-neutral-200 transition disabled:opacity-60"
             >
               Unlock
             </button>
@@ -2090,5 +6781,5 @@ export default function BarbershopAdminPanel() {
     );
   }
 
-  return <BarberCalendarCore />;
+  return <BarberCalendarCore onLogout={handleLogout} />;
 }
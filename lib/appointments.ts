@@ -0,0 +1,217 @@
+// Shared by the API routes and the browser: keep this file free of server-only imports.
+
+export type AppointmentStatus = "booked" | "arrived" | "no_show" | "cancelled";
+
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = ["booked", "arrived", "no_show", "cancelled"];
+
+// A block (break, vacation, closed) takes time like a booking but has no
+// client; its name is the reason
+export type AppointmentKind = "booking" | "block";
+
+// Who made the booking: the shop, or the client through /book
+export type AppointmentSource = "staff" | "online";
+
+export type Appointment = {
+  name: string;
+  phone: string;
+  service: string;
+  price: number | null;
+  notes: string;
+  status: AppointmentStatus;
+  // Minutes from the start slot; a booking blocks every slot it overlaps
+  duration: number;
+  // Entry in the client directory (clients table), if the booking is linked to one
+  clientId: number | null;
+  // Recurring series (appointment_series) this booking is an occurrence of
+  seriesId: number | null;
+  kind: AppointmentKind;
+  source: AppointmentSource;
+};
+
+// day -> time -> appointment (one barber's calendar)
+export type Store = Record<string, Record<string, Appointment>>;
+
+// Columns selected alongside barber_id/day/time wherever rows are read
+export const APPOINTMENT_COLUMNS = "name,phone,service,price,notes,status,duration,client_id,series_id,kind,source";
+
+export const DEFAULT_DURATION = 30;
+export const MAX_DURATION = 480;
+
+const MAX_LEN = { name: 120, phone: 40, service: 80, notes: 1000 };
+
+const str = (v: unknown, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : "");
+
+const toPrice = (v: unknown): number | null => {
+  if (v == null || v === "") return null;
+  const n = typeof v === "number" ? v : Number(String(v).replace(",", "."));
+  if (!Number.isFinite(n) || n < 0) return null;
+  return Math.round(n * 100) / 100;
+};
+
+// Whole 5-minute steps between 5 and MAX_DURATION
+const toDuration = (v: unknown): number => {
+  const n = typeof v === "number" ? v : Number(v);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_DURATION;
+  return Math.min(MAX_DURATION, Math.max(5, Math.round(n / 5) * 5));
+};
+
+// Positive integer ids (client_id, series_id)
+const toRefId = (v: unknown): number | null => {
+  const n = typeof v === "number" ? v : typeof v === "string" && v !== "" ? Number(v) : NaN;
+  return Number.isSafeInteger(n) && n > 0 ? n : null;
+};
+
+// Normalizes a DB row, a PATCH body or a legacy bare name string.
+// Returns null when there is no client name (= empty slot). A block keeps
+// only its reason and duration.
+export function toAppointment(raw: unknown): Appointment | null {
+  if (typeof raw === "string") raw = { name: raw };
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+
+  const name = str(r.name, MAX_LEN.name);
+  if (!name) return null;
+
+  const source: AppointmentSource = r.source === "online" ? "online" : "staff";
+  const status = APPOINTMENT_STATUSES.includes(r.status as AppointmentStatus)
+    ? (r.status as AppointmentStatus)
+    : "booked";
+
+  if (r.kind === "block") {
+    return {
+      name,
+      phone: "",
+      service: "",
+      price: null,
+      notes: "",
+      status: "booked",
+      duration: toDuration(r.duration),
+      clientId: null,
+      seriesId: null,
+      kind: "block",
+      source,
+    };
+  }
+
+  return {
+    name,
+    phone: str(r.phone, MAX_LEN.phone),
+    service: str(r.service, MAX_LEN.service),
+    price: toPrice(r.price),
+    notes: str(r.notes, MAX_LEN.notes),
+    status,
+    duration: toDuration(r.duration),
+    clientId: toRefId(r.clientId ?? r.client_id),
+    seriesId: toRefId(r.seriesId ?? r.series_id),
+    kind: "booking",
+    source,
+  };
+}
+
+// DB shape: empty optional fields are stored as NULL
+export const appointmentToRow = (a: Appointment) => ({
+  name: a.name,
+  phone: a.phone || null,
+  service: a.service || null,
+  price: a.price,
+  notes: a.notes || null,
+  status: a.status,
+  duration: a.duration,
+  client_id: a.clientId,
+  series_id: a.seriesId,
+  kind: a.kind,
+  source: a.source,
+});
+
+// A cancelled appointment stays on record but frees the slot. Blocks count:
+// they take their time like a booking does.
+export const isBooked = (a: Appointment | null | undefined) =>
+  !!a && a.name.trim().length > 0 && a.status !== "cancelled";
+
+export const isBlock = (a: Appointment | null | undefined) => !!a && a.kind === "block";
+
+export const sameAppointment = (a: Appointment | null | undefined, b: Appointment | null | undefined) => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  return (
+    a.name === b.name &&
+    a.phone === b.phone &&
+    a.service === b.service &&
+    a.price === b.price &&
+    a.notes === b.notes &&
+    a.status === b.status &&
+    a.duration === b.duration &&
+    a.clientId === b.clientId &&
+    a.seriesId === b.seriesId &&
+    a.kind === b.kind &&
+    a.source === b.source
+  );
+};
+
+// -----------------------------------------------------------------------------
+// Time ranges ("HH:MM" <-> minutes since midnight)
+// -----------------------------------------------------------------------------
+const pad2 = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+
+export const timeToMinutes = (t: string) => {
+  const [h, m] = t.split(":").map(Number);
+  return h * 60 + m;
+};
+
+export const minutesToTime = (min: number) => `${pad2(Math.floor(min / 60))}:${pad2(min % 60)}`;
+
+// Half-open [start, end) in minutes
+export const appointmentRange = (time: string, a: Appointment): [number, number] => {
+  const start = timeToMinutes(time);
+  return [start, start + a.duration];
+};
+
+export const rangesOverlap = (a: [number, number], b: [number, number]) => a[0] < b[1] && b[0] < a[1];
+
+// First booked appointment (other than the one starting at `time`) that the
+// range would collide with, or null. Pass time = null to check against all.
+export function findOverlap(
+  day: Record<string, Appointment> | undefined,
+  time: string | null,
+  range: [number, number]
+): { time: string; appt: Appointment } | null {
+  if (!day) return null;
+  for (const [t, a] of Object.entries(day)) {
+    if (t === time || !isBooked(a)) continue;
+    if (rangesOverlap(range, appointmentRange(t, a))) return { time: t, appt: a };
+  }
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Calendar diffs (restore previews, bulk imports)
+// -----------------------------------------------------------------------------
+export type SlotChange = {
+  barber: string;
+  day: string;
+  time: string;
+  before: Appointment | null;
+  after: Appointment | null;
+};
+
+export type StoreDiff = { added: SlotChange[]; changed: SlotChange[]; removed: SlotChange[] };
+
+// Both sides keyed by barber id; slots are compared field by field
+export function diffStores(before: Record<string, Store>, after: Record<string, Store>): StoreDiff {
+  const out: StoreDiff = { added: [], changed: [], removed: [] };
+  const keys = (...objs: (object | undefined)[]) => Array.from(new Set(objs.flatMap((o) => Object.keys(o || {})))).sort();
+
+  for (const barber of keys(before, after)) {
+    for (const day of keys(before[barber], after[barber])) {
+      const b = before[barber]?.[day];
+      const a = after[barber]?.[day];
+      for (const time of keys(b, a)) {
+        const change = { barber, day, time, before: b?.[time] ?? null, after: a?.[time] ?? null };
+        if (!change.before) out.added.push(change);
+        else if (!change.after) out.removed.push(change);
+        else if (!sameAppointment(change.before, change.after)) out.changed.push(change);
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { supabase } from "./db";
+import { jsonNoStore } from "./http";
+
+// -----------------------------------------------------------------------------
+// Server-side PIN auth
+// BUSHI_PINS           comma-separated list of valid PINs, e.g. "1234,5678"
+// BUSHI_SESSION_SECRET long random string used to sign the session cookie
+// -----------------------------------------------------------------------------
+const PINS = (process.env.BUSHI_PINS || "")
+  .split(",")
+  .map((p) => p.trim())
+  .filter(Boolean);
+
+const SESSION_SECRET = process.env.BUSHI_SESSION_SECRET || "";
+
+if (PINS.length === 0 || SESSION_SECRET.length < 16) {
+  throw new Error(
+    "Missing BUSHI_PINS or BUSHI_SESSION_SECRET (min 16 chars) environment variables"
+  );
+}
+
+export const SESSION_COOKIE = "bushi_session";
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 14; // 14 days
+
+export const MAX_PIN_FAILURES = 5;
+export const LOCKOUT_MINUTES = 15;
+
+export type Session = { sid: string; exp: number };
+
+const sign = (payload: string) =>
+  createHmac("sha256", SESSION_SECRET).update(payload).digest("base64url");
+
+const safeEqual = (a: string, b: string) => {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  if (ab.length !== bb.length) return false;
+  return timingSafeEqual(ab, bb);
+};
+
+export function pinMatches(pin: string) {
+  // Check every PIN so timing doesn't leak which one (or how many) exist
+  let ok = false;
+  for (const p of PINS) if (safeEqual(p, pin)) ok = true;
+  return ok;
+}
+
+// Cookie value: "<sid>.<exp>.<hmac>"
+export function createSessionToken(): { token: string; session: Session } {
+  const sid = randomBytes(12).toString("base64url");
+  const exp = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const payload = `${sid}.${exp}`;
+  return { token: `${payload}.${sign(payload)}`, session: { sid, exp } };
+}
+
+export function readSession(req: NextRequest): Session | null {
+  const raw = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!raw) return null;
+
+  const parts = raw.split(".");
+  if (parts.length !== 3) return null;
+  const [sid, expRaw, mac] = parts;
+
+  if (!safeEqual(sign(`${sid}.${expRaw}`), mac)) return null;
+
+  const exp = Number(expRaw);
+  if (!Number.isFinite(exp) || exp * 1000 < Date.now()) return null;
+
+  return { sid, exp };
+}
+
+// -----------------------------------------------------------------------------
+// Confirmation tokens: "<exp>.<hmac>" over a description of the exact action,
+// so a token from a dry run only confirms that same action, shortly after.
+// -----------------------------------------------------------------------------
+// How long a dry run's confirmToken stays valid
+export const CONFIRM_TTL_SECONDS = 300;
+
+export function createActionToken(action: string, ttlSeconds: number) {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `${exp}.${sign(`${action}.${exp}`)}`;
+}
+
+export function verifyActionToken(token: unknown, action: string) {
+  if (typeof token !== "string") return false;
+  const [expRaw, mac] = token.split(".");
+  if (!expRaw || !mac || !safeEqual(sign(`${action}.${expRaw}`), mac)) return false;
+  const exp = Number(expRaw);
+  return Number.isFinite(exp) && exp * 1000 >= Date.now();
+}
+
+// -----------------------------------------------------------------------------
+// Logout: a signed cookie stays valid until it expires, so its sid goes on a
+// denylist (`revoked_sessions`) that every guarded request checks.
+// -----------------------------------------------------------------------------
+export async function revokeSession(session: Session) {
+  const { error } = await supabase
+    .from("revoked_sessions")
+    .upsert([{ sid: session.sid, expires_at: new Date(session.exp * 1000).toISOString() }], { onConflict: "sid" });
+  if (error) console.error("revokeSession error:", error);
+  return !error;
+}
+
+// null = the check itself failed
+async function isRevoked(sid: string): Promise<boolean | null> {
+  const { data, error } = await supabase.from("revoked_sessions").select("sid").eq("sid", sid).maybeSingle();
+  if (error) {
+    console.error("isRevoked error:", error);
+    return null;
+  }
+  return !!data;
+}
+
+// A signed, unexpired session that wasn't logged out
+export async function activeSession(req: NextRequest): Promise<Session | null> {
+  const session = readSession(req);
+  if (!session) return null;
+  return (await isRevoked(session.sid)) === false ? session : null;
+}
+
+// Usage in a route handler:
+//   const denied = await requireSession(req);
+//   if (denied) return denied;
+export async function requireSession(req: NextRequest): Promise<NextResponse | null> {
+  const session = readSession(req);
+  if (!session) return jsonNoStore({ error: "Unauthorized" }, 401);
+  const revoked = await isRevoked(session.sid);
+  if (revoked == null) return jsonNoStore({ error: "Failed to check session" }, 503);
+  return revoked ? jsonNoStore({ error: "Unauthorized" }, 401) : null;
+}
+
+export function setSessionCookie(res: NextResponse, token: string) {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(res: NextResponse) {
+  res.cookies.set(SESSION_COOKIE, "", {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/",
+    maxAge: 0,
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Lockout (persisted in `auth_lockouts`, so it survives serverless cold starts)
+// -----------------------------------------------------------------------------
+// Client IP from the one header the hosting platform sets itself (Netlify by
+// default). X-Forwarded-For / X-Real-IP are not used: a client can send any
+// value there and get a fresh counter with every request.
+const CLIENT_IP_HEADER = (process.env.BUSHI_CLIENT_IP_HEADER || "x-nf-client-connection-ip").toLowerCase();
+
+export function clientKey(req: NextRequest) {
+  const ip = req.headers.get(CLIENT_IP_HEADER)?.trim() || req.ip || "unknown";
+  return `ip:${ip}`;
+}
+
+type LockoutRow = { key: string; failures: number; locked_until: string | null };
+
+// Returns seconds until unlock, or 0 if not locked
+export async function lockoutRemaining(key: string): Promise<number> {
+  const { data, error } = await supabase
+    .from("auth_lockouts")
+    .select("key,failures,locked_until")
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) {
+    console.error("auth lockout read error:", error);
+    return 0;
+  }
+
+  const row = data as LockoutRow | null;
+  if (!row?.locked_until) return 0;
+  const left = Math.ceil((new Date(row.locked_until).getTime() - Date.now()) / 1000);
+  return left > 0 ? left : 0;
+}
+
+// Counts an attempt before the PIN is checked (take_pin_attempt, one atomic
+// step). Returns how many attempts are left after this one (0 = this was the
+// last, the key is now locked), or -1 when the key is locked and the attempt
+// must be refused. A correct PIN clears the count again.
+export async function takePinAttempt(key: string): Promise<number> {
+  const { data, error } = await supabase.rpc("take_pin_attempt", {
+    p_key: key,
+    p_max: MAX_PIN_FAILURES,
+    p_lockout_seconds: LOCKOUT_MINUTES * 60,
+  });
+
+  if (error || typeof data !== "number") {
+    // Fail closed: no counter, no guessing
+    console.error("auth lockout write error:", error);
+    return -1;
+  }
+  return data;
+}
+
+export async function clearPinFailures(key: string) {
+  const { error } = await supabase.from("auth_lockouts").delete().eq("key", key);
+  if (error) console.error("auth lockout clear error:", error);
+}
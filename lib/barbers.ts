@@ -0,0 +1,43 @@
+import { supabase } from "./db";
+
+export type Barber = { id: string; name: string };
+
+export const BARBER_RE = /^[a-z0-9_-]{1,32}$/;
+
+export async function listBarbers(): Promise<Barber[]> {
+  const { data, error } = await supabase
+    .from("barbers")
+    .select("id,name")
+    .eq("active", true)
+    .order("sort", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("listBarbers error:", error);
+    return [];
+  }
+  return ((data || []) as any[]).map((b) => ({ id: String(b.id), name: String(b.name ?? b.id) }));
+}
+
+// Every barber id, inactive ones too (their old bookings still point at them)
+export async function barberIds(): Promise<Set<string>> {
+  const { data, error } = await supabase.from("barbers").select("id");
+  if (error) {
+    console.error("barberIds error:", error);
+    return new Set();
+  }
+  return new Set(((data || []) as any[]).map((b) => String(b.id)));
+}
+
+// Requests from clients that predate multi-barber support carry no barber;
+// those belong to the first (default) barber. null = malformed or no such
+// barber. Pass `known` (from barberIds) when resolving many at once.
+export async function resolveBarberId(raw: unknown, known?: Set<string>): Promise<string | null> {
+  if (raw == null || raw === "") {
+    const barbers = await listBarbers();
+    return barbers[0]?.id ?? null;
+  }
+  if (typeof raw !== "string" || !BARBER_RE.test(raw)) return null;
+  const ids = known ?? (await barberIds());
+  return ids.has(raw) ? raw : null;
+}
@@ -0,0 +1,195 @@
+import { supabase } from "./db";
+import { BARBER_RE } from "./barbers";
+import { APPOINTMENT_COLUMNS, Appointment, toAppointment } from "./appointments";
+
+// Client directory (`clients`, see migration 011). Bookings link to it through
+// appointments.client_id; the name/phone on the booking stay as typed.
+
+export type Client = {
+  id: number;
+  name: string;
+  phone: string;
+  notes: string;
+  preferredBarber: string | null;
+};
+
+export const CLIENT_COLUMNS = "id,name,phone,notes,preferred_barber";
+
+const MAX_LEN = { name: 120, phone: 40, notes: 1000 };
+
+const str = (v: unknown, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : "");
+
+// Digits only, the same as the phone_key column
+export const phoneKey = (phone: string) => phone.replace(/\D/g, "");
+
+export const toClient = (row: any): Client => ({
+  id: Number(row.id),
+  name: String(row.name ?? ""),
+  phone: String(row.phone ?? ""),
+  notes: String(row.notes ?? ""),
+  preferredBarber: row.preferred_barber ? String(row.preferred_barber) : null,
+});
+
+// Validated fields from a POST/PATCH body; only the keys present are returned.
+// null = invalid input.
+export function toClientFields(raw: unknown, requireName: boolean): Record<string, string | null> | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const out: Record<string, string | null> = {};
+
+  if ("name" in r || requireName) {
+    const name = str(r.name, MAX_LEN.name);
+    if (!name) return null;
+    out.name = name;
+  }
+  if ("phone" in r) out.phone = str(r.phone, MAX_LEN.phone) || null;
+  if ("notes" in r) out.notes = str(r.notes, MAX_LEN.notes) || null;
+  if ("preferredBarber" in r) {
+    const b = r.preferredBarber;
+    if (b != null && b !== "" && (typeof b !== "string" || !BARBER_RE.test(b))) return null;
+    out.preferred_barber = (b as string) || null;
+  }
+  return out;
+}
+
+// Name prefix / word match, or phone digits; most recently updated first
+export async function searchClients(query: string, limit = 10) {
+  const q = query.trim().slice(0, MAX_LEN.name);
+  let req = supabase.from("clients").select(CLIENT_COLUMNS);
+
+  if (q) {
+    const digits = phoneKey(q);
+    // ilike wildcards and PostgREST separators in the text are matched literally
+    const safe = q.replace(/[\\%_]/g, (c) => `\\${c}`).replace(/[,()]/g, " ");
+    const filters = [`name.ilike.${safe}%`, `name.ilike.% ${safe}%`];
+    if (digits.length >= 3) filters.push(`phone_key.like.%${digits}%`);
+    req = req.or(filters.join(","));
+  }
+
+  const { data, error } = await req.order("updated_at", { ascending: false }).limit(limit);
+  return { clients: ((data || []) as any[]).map(toClient), error };
+}
+
+export async function getClient(id: number) {
+  const { data, error } = await supabase.from("clients").select(CLIENT_COLUMNS).eq("id", id).maybeSingle();
+  return { client: data ? toClient(data) : null, error };
+}
+
+export async function insertClient(fields: Record<string, string | null>) {
+  const { data, error } = await supabase.from("clients").insert([fields]).select(CLIENT_COLUMNS).single();
+  return { client: data ? toClient(data) : null, error };
+}
+
+export async function updateClient(id: number, fields: Record<string, string | null>) {
+  const { data, error } = await supabase
+    .from("clients")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select(CLIENT_COLUMNS)
+    .maybeSingle();
+  return { client: data ? toClient(data) : null, error };
+}
+
+// Case and spacing don't make a different person
+const nameKey = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Public bookings: anyone can type any phone number, so a booking is only
+// linked to an existing client when the name matches as well (newest such
+// client first). Otherwise a new client is created next to any others with
+// that number; staff can relink the booking if it's the same person.
+export async function findOrCreateClientByPhone(name: string, phone: string) {
+  const key = phoneKey(phone);
+  if (key) {
+    const { data, error } = await supabase
+      .from("clients")
+      .select(CLIENT_COLUMNS)
+      .eq("phone_key", key)
+      .order("updated_at", { ascending: false })
+      .limit(50);
+    if (error) return { client: null, error };
+    const same = ((data || []) as any[]).map(toClient).find((c) => nameKey(c.name) === nameKey(name));
+    if (same) return { client: same, error: null };
+  }
+  return insertClient({ name, phone: phone || null });
+}
+
+// -----------------------------------------------------------------------------
+// Profile: every booking linked to a client, and what they add up to
+// -----------------------------------------------------------------------------
+export type ClientVisit = { barber: string; day: string; time: string; appointment: Appointment };
+
+export type ClientStats = {
+  // Bookings before today the client came to (no no-shows or cancellations)
+  visits: number;
+  // Linked bookings from today on that weren't cancelled
+  upcoming: number;
+  noShows: number;
+  cancelled: number;
+  // Last day the client actually came (not a no-show), null if never
+  lastVisit: string | null;
+  // Mean days between consecutive visits; null with fewer than two
+  avgIntervalDays: number | null;
+};
+
+// Oldest first
+export async function loadClientVisits(clientId: number) {
+  const PAGE = 1000;
+  const visits: ClientVisit[] = [];
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from("appointments")
+      .select(`barber_id,day,time,${APPOINTMENT_COLUMNS}`)
+      .eq("client_id", clientId)
+      .order("day", { ascending: true })
+      .order("time", { ascending: true })
+      .range(from, from + PAGE - 1);
+
+    if (error) return { visits: null, error };
+    for (const row of (data || []) as any[]) {
+      const appointment = toAppointment(row);
+      if (appointment) visits.push({ barber: row.barber_id, day: row.day, time: row.time, appointment });
+    }
+    if ((data || []).length < PAGE) break;
+    from += PAGE;
+    if (from > 50000) break;
+  }
+  return { visits, error: null };
+}
+
+const dayNumber = (dayISO: string) => {
+  const [y, m, d] = dayISO.split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / 86400000;
+};
+
+// visits oldest first; today = shop-local YYYY-MM-DD
+export function clientStats(visits: ClientVisit[], today: string): ClientStats {
+  const stats: ClientStats = { visits: 0, upcoming: 0, noShows: 0, cancelled: 0, lastVisit: null, avgIntervalDays: null };
+  const attended: string[] = [];
+
+  for (const v of visits) {
+    const status = v.appointment.status;
+    if (status === "cancelled") {
+      stats.cancelled += 1;
+      continue;
+    }
+    if (v.day >= today) {
+      stats.upcoming += 1;
+      continue;
+    }
+    if (status === "no_show") {
+      stats.noShows += 1;
+      continue;
+    }
+    stats.visits += 1;
+    if (attended[attended.length - 1] !== v.day) attended.push(v.day);
+  }
+
+  if (attended.length > 0) stats.lastVisit = attended[attended.length - 1];
+  if (attended.length > 1) {
+    const span = dayNumber(attended[attended.length - 1]) - dayNumber(attended[0]);
+    stats.avgIntervalDays = Math.round(span / (attended.length - 1));
+  }
+  return stats;
+}
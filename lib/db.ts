@@ -0,0 +1,15 @@
+import { createClient } from "@supabase/supabase-js";
+
+// IMPORTANT: these env names must match Netlify + .env.local
+const SUPABASE_URL = process.env.SUPABASE_URL!;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  throw new Error(
+    "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variables"
+  );
+}
+
+// Service-role client: bypasses RLS, so it must only ever be used behind
+// requireSession() (see lib/auth.ts) or in deliberately public routes.
+export const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { supabase } from "./db";
+import { readSession } from "./auth";
+import { Appointment, sameAppointment, toAppointment } from "./appointments";
+
+// Append-only audit log (`appointment_history`). Every write path records what
+// the slot held before and after, and which session/device did it.
+
+export type HistoryAction = "set" | "clear" | "overwrite" | "book" | "restore" | "move";
+
+export type HistoryChange = {
+  barber: string;
+  day: string;
+  time: string;
+  action: HistoryAction;
+  old: Appointment | null;
+  new: Appointment | null;
+};
+
+export type HistoryEntry = HistoryChange & {
+  id: number;
+  at: string;
+  device: string;
+  // Made from the session asking for the history
+  mine: boolean;
+};
+
+export type Actor = { session: string | null; device: string };
+
+export function actorFrom(req: NextRequest): Actor {
+  return {
+    session: readSession(req)?.sid ?? null,
+    device: (req.headers.get("user-agent") || "").slice(0, 200),
+  };
+}
+
+// Never fails the write it describes; a lost audit row is logged instead.
+// Changes that didn't change anything are skipped.
+export async function recordHistory(actor: Actor, changes: HistoryChange[]) {
+  const rows = changes
+    .filter((c) => !sameAppointment(c.old, c.new))
+    .map((c) => ({
+      barber_id: c.barber,
+      day: c.day,
+      time: c.time,
+      action: c.action,
+      old_value: c.old,
+      new_value: c.new,
+      session_id: actor.session,
+      device: actor.device || null,
+    }));
+
+  const CHUNK = 500;
+  for (let i = 0; i < rows.length; i += CHUNK) {
+    const { error } = await supabase.from("appointment_history").insert(rows.slice(i, i + CHUNK));
+    if (error) console.error("recordHistory error:", error);
+  }
+}
+
+const HISTORY_ACTIONS: HistoryAction[] = ["set", "clear", "overwrite", "book", "restore", "move"];
+
+export function toHistoryEntry(row: any, sid: string | null): HistoryEntry | null {
+  if (!row || typeof row !== "object" || !HISTORY_ACTIONS.includes(row.action)) return null;
+  return {
+    id: Number(row.id),
+    barber: String(row.barber_id ?? ""),
+    day: String(row.day ?? ""),
+    time: String(row.time ?? ""),
+    action: row.action as HistoryAction,
+    old: toAppointment(row.old_value),
+    new: toAppointment(row.new_value),
+    at: String(row.created_at ?? ""),
+    device: String(row.device ?? ""),
+    mine: !!sid && row.session_id === sid,
+  };
+}
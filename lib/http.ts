@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+
+export const jsonNoStore = (data: any, status = 200) =>
+  NextResponse.json(data, {
+    status,
+    headers: {
+      "Cache-Control": "no-store, no-cache, must-revalidate, proxy-revalidate",
+      Pragma: "no-cache",
+      Expires: "0",
+    },
+  });
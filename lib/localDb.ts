@@ -0,0 +1,244 @@
+// Browser-only: the device's copy of the calendar and of the pending-op queue
+// in IndexedDB, so the installed app can start (and take edits) offline.
+// Records are small on purpose — one per barber/day and one per queued op — so
+// an edit rewrites a few entries instead of the whole calendar.
+// Every call resolves to null / false instead of throwing — private mode and
+// old browsers simply run without the cache.
+
+import type { Appointment, Store } from "./appointments";
+
+const DB_NAME = "bushi";
+const DB_VERSION = 2;
+
+// meta: CALENDAR_KEY -> CalendarMeta, SESSION_KEY -> session expiry
+// days: dayKey(barber, day) -> DayRecord (server copy, no pending edits)
+// ops:  slot key -> queued write, as the page's PendingOp
+const META = "meta";
+const DAYS = "days";
+const OPS = "ops";
+const CALENDAR_KEY = "calendar";
+const SESSION_KEY = "session";
+
+// localStorage keys used before this module existed; imported once, then removed
+const LEGACY_BACKUP_KEY = "bushi_store_backup_v1";
+const LEGACY_OPS_KEY = "bushi_pending_ops_v1";
+
+type CalendarMeta = {
+  barbers: { id: string; name: string }[];
+  // slotKey -> row version
+  versions: Record<string, number>;
+  savedAt: number;
+};
+
+type DayRecord = { barber: string; day: string; slots: Record<string, Appointment> };
+
+// What the last server read returned (no pending edits layered on top)
+export type CalendarSnapshot = CalendarMeta & { stores: Record<string, Store> };
+
+// slots null = the day is empty / gone
+export type DayWrite = { barber: string; day: string; slots: Record<string, Appointment> | null };
+
+const dayKey = (barber: string, day: string) => `${barber}__${day}`;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(null);
+    try {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        for (const name of [META, DAYS, OPS]) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        }
+        // v1 kept the whole calendar in one meta record; it is rebuilt on the next sync
+        req.transaction?.objectStore(META).delete(CALENDAR_KEY);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null);
+      req.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  }).then(async (db) => {
+    if (db) await migrateLocalStorage(db);
+    return db;
+  });
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<boolean> {
+  return new Promise((resolve) => {
+    tx.oncomplete = () => resolve(true);
+    tx.onerror = () => resolve(false);
+    tx.onabort = () => resolve(false);
+  });
+}
+
+function getAll<T>(db: IDBDatabase, store: string): Promise<{ key: IDBValidKey; value: T }[] | null> {
+  return new Promise((resolve) => {
+    try {
+      const out: { key: IDBValidKey; value: T }[] = [];
+      const req = db.transaction(store, "readonly").objectStore(store).openCursor();
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor) return resolve(out);
+        out.push({ key: cursor.key, value: cursor.value as T });
+        cursor.continue();
+      };
+      req.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+// Imports the old localStorage copies. The backup held the calendar with
+// pending edits already applied — good enough as a first offline copy, the
+// next sync replaces it. Keys are removed only once the import committed.
+async function migrateLocalStorage(db: IDBDatabase) {
+  if (typeof localStorage === "undefined") return;
+  let backup: any = null;
+  let ops: any = null;
+  try {
+    backup = JSON.parse(localStorage.getItem(LEGACY_BACKUP_KEY) || "null");
+    ops = JSON.parse(localStorage.getItem(LEGACY_OPS_KEY) || "null");
+  } catch {}
+  if (!backup && !ops) return;
+
+  try {
+    const tx = db.transaction([DAYS, OPS], "readwrite");
+    const stores = backup?.data;
+    if (stores && typeof stores === "object") {
+      for (const [barber, days] of Object.entries(stores as Record<string, any>)) {
+        for (const [day, slots] of Object.entries((days || {}) as Record<string, any>)) {
+          if (slots && typeof slots === "object") tx.objectStore(DAYS).put({ barber, day, slots }, dayKey(barber, day));
+        }
+      }
+    }
+    if (ops && typeof ops === "object") {
+      for (const [key, op] of Object.entries(ops as Record<string, any>)) {
+        if (op && typeof op === "object") tx.objectStore(OPS).put(op, key);
+      }
+    }
+    if (!(await done(tx))) return;
+    localStorage.removeItem(LEGACY_BACKUP_KEY);
+    localStorage.removeItem(LEGACY_OPS_KEY);
+  } catch {}
+}
+
+export async function loadCalendarSnapshot(): Promise<CalendarSnapshot | null> {
+  const db = await openDb();
+  if (!db) return null;
+
+  const meta = await new Promise<CalendarMeta | null>((resolve) => {
+    try {
+      const req = db.transaction(META, "readonly").objectStore(META).get(CALENDAR_KEY);
+      req.onsuccess = () => resolve((req.result as CalendarMeta | undefined) ?? null);
+      req.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+  const days = await getAll<DayRecord>(db, DAYS);
+  if (!days || (!meta && days.length === 0)) return null;
+
+  const stores: Record<string, Store> = {};
+  for (const { value } of days) {
+    if (!value?.barber || !value.day || !value.slots) continue;
+    if (!stores[value.barber]) stores[value.barber] = {};
+    stores[value.barber][value.day] = value.slots;
+  }
+  // Migrated data comes without barbers/versions: unknown versions count as 0
+  const barbers = meta?.barbers ?? Object.keys(stores).map((id) => ({ id, name: id }));
+  return { barbers, versions: meta?.versions ?? {}, savedAt: meta?.savedAt ?? 0, stores };
+}
+
+// Writes only the given days (plus the small meta record)
+export async function saveCalendarDays(meta: CalendarMeta, writes: DayWrite[]): Promise<boolean> {
+  const db = await openDb();
+  if (!db) return false;
+  try {
+    const tx = db.transaction([META, DAYS], "readwrite");
+    tx.objectStore(META).put(meta, CALENDAR_KEY);
+    const days = tx.objectStore(DAYS);
+    for (const w of writes) {
+      if (w.slots && Object.keys(w.slots).length > 0) days.put({ barber: w.barber, day: w.day, slots: w.slots }, dayKey(w.barber, w.day));
+      else days.delete(dayKey(w.barber, w.day));
+    }
+    return await done(tx);
+  } catch {
+    return false;
+  }
+}
+
+// Expiry (unix seconds) of the session the server last confirmed on this
+// device; offline starts are only allowed before it. null forgets it.
+export async function saveSessionExpiry(exp: number | null): Promise<boolean> {
+  const db = await openDb();
+  if (!db) return false;
+  try {
+    const tx = db.transaction(META, "readwrite");
+    if (exp == null) tx.objectStore(META).delete(SESSION_KEY);
+    else tx.objectStore(META).put(exp, SESSION_KEY);
+    return await done(tx);
+  } catch {
+    return false;
+  }
+}
+
+export async function loadSessionExpiry(): Promise<number | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise<number | null>((resolve) => {
+    try {
+      const req = db.transaction(META, "readonly").objectStore(META).get(SESSION_KEY);
+      req.onsuccess = () => resolve(typeof req.result === "number" ? req.result : null);
+      req.onerror = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+export async function loadPendingOps<T>(): Promise<Record<string, T> | null> {
+  const db = await openDb();
+  if (!db) return null;
+  const rows = await getAll<T>(db, OPS);
+  if (!rows) return null;
+  const out: Record<string, T> = {};
+  for (const { key, value } of rows) out[String(key)] = value;
+  return out;
+}
+
+// key -> op to store, or null to remove it
+export async function savePendingOps<T>(changes: Record<string, T | null>): Promise<boolean> {
+  const db = await openDb();
+  if (!db) return false;
+  try {
+    const tx = db.transaction(OPS, "readwrite");
+    const ops = tx.objectStore(OPS);
+    for (const [key, op] of Object.entries(changes)) {
+      if (op == null) ops.delete(key);
+      else ops.put(op, key);
+    }
+    return await done(tx);
+  } catch {
+    return false;
+  }
+}
+
+// On logout: the calendar copy and session expiry go; queued edits stay and are sent after the next login
+export async function clearLocalDb(): Promise<boolean> {
+  const db = await openDb();
+  if (!db) return false;
+  try {
+    const tx = db.transaction([META, DAYS], "readwrite");
+    for (const name of [META, DAYS]) tx.objectStore(name).clear();
+    return await done(tx);
+  } catch {
+    return false;
+  }
+}
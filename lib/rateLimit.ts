@@ -0,0 +1,18 @@
+import { supabase } from "./db";
+
+// Fixed-window counter kept in Postgres (hit_rate_limit), so limits hold across
+// serverless instances. Returns true while the caller is within `max` hits.
+export async function hitRateLimit(key: string, windowSeconds: number, max: number): Promise<boolean> {
+  const { data, error } = await supabase.rpc("hit_rate_limit", {
+    p_key: key,
+    p_window_seconds: windowSeconds,
+    p_max: max,
+  });
+
+  if (error) {
+    // Fail closed: a public endpoint shouldn't become unlimited when the DB hiccups
+    console.error("hitRateLimit error:", error);
+    return false;
+  }
+  return data === true;
+}
@@ -0,0 +1,145 @@
+// Shop opening hours. Shared by the API routes and the browser: keep this file
+// free of server-only imports.
+
+import { Appointment, findOverlap, rangesOverlap, timeToMinutes, minutesToTime } from "./appointments";
+
+export type TimeRange = { start: string; end: string };
+
+// null = closed that day
+export type DayHours = { open: string; close: string; breaks: TimeRange[] } | null;
+
+export type ShopSchedule = {
+  slotMinutes: number;
+  // index 0 = Monday ... 6 = Sunday (same order as the month grid)
+  weekly: DayHours[];
+  // "YYYY-MM-DD" holidays / closed dates
+  closedDates: string[];
+};
+
+export const SLOT_SIZES = [15, 20, 30, 45, 60];
+
+// What the shop used before the schedule was configurable: every day 08–22, 30 min slots
+export const DEFAULT_SCHEDULE: ShopSchedule = {
+  slotMinutes: 30,
+  weekly: Array.from({ length: 7 }, () => ({ open: "08:00", close: "22:00", breaks: [] })),
+  closedDates: [],
+};
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const validRange = (start: unknown, end: unknown): start is string =>
+  typeof start === "string" &&
+  typeof end === "string" &&
+  TIME_RE.test(start) &&
+  TIME_RE.test(end) &&
+  timeToMinutes(start) < timeToMinutes(end);
+
+function toDayHours(raw: unknown): DayHours {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (!validRange(r.open, r.close)) return null;
+
+  const breaks: TimeRange[] = [];
+  if (Array.isArray(r.breaks)) {
+    for (const b of r.breaks) {
+      if (!b || typeof b !== "object") continue;
+      const { start, end } = b as Record<string, unknown>;
+      if (validRange(start, end)) breaks.push({ start, end: end as string });
+    }
+  }
+  breaks.sort((a, b) => a.start.localeCompare(b.start));
+  return { open: r.open as string, close: r.close as string, breaks };
+}
+
+// Returns null when the payload is not a schedule at all
+export function toSchedule(raw: unknown): ShopSchedule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  if (!Array.isArray(r.weekly) || r.weekly.length !== 7) return null;
+
+  const slotMinutes = SLOT_SIZES.includes(Number(r.slotMinutes)) ? Number(r.slotMinutes) : DEFAULT_SCHEDULE.slotMinutes;
+  const closedDates = Array.isArray(r.closedDates)
+    ? Array.from(new Set(r.closedDates.filter((d): d is string => typeof d === "string" && DAY_RE.test(d)))).sort()
+    : [];
+
+  return { slotMinutes, weekly: r.weekly.map(toDayHours), closedDates };
+}
+
+// Monday = 0, independent of the runtime's timezone
+export const weekdayIndex = (dayISO: string) => {
+  const [y, m, d] = dayISO.split("-").map(Number);
+  return (new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7;
+};
+
+export function hoursFor(schedule: ShopSchedule, dayISO: string): DayHours {
+  if (schedule.closedDates.includes(dayISO)) return null;
+  return schedule.weekly[weekdayIndex(dayISO)] ?? null;
+}
+
+// Bookable slot start times for a day: inside opening hours, a full slot
+// before closing, and not starting inside a break.
+export function buildSlots(schedule: ShopSchedule, dayISO: string): string[] {
+  const hours = hoursFor(schedule, dayISO);
+  if (!hours) return [];
+
+  const out: string[] = [];
+  const close = timeToMinutes(hours.close);
+  const step = schedule.slotMinutes;
+  const breaks = hours.breaks.map((b) => [timeToMinutes(b.start), timeToMinutes(b.end)] as [number, number]);
+
+  for (let t = timeToMinutes(hours.open); t + step <= close; t += step) {
+    if (breaks.some(([b0, b1]) => t >= b0 && t < b1)) continue;
+    out.push(minutesToTime(t));
+  }
+  return out;
+}
+
+// Server-side guard: the whole booking must fit in opening hours and miss every break
+export function isWithinHours(schedule: ShopSchedule, dayISO: string, time: string, duration: number) {
+  const hours = hoursFor(schedule, dayISO);
+  if (!hours) return false;
+
+  const range: [number, number] = [timeToMinutes(time), timeToMinutes(time) + duration];
+  if (range[0] < timeToMinutes(hours.open) || range[1] > timeToMinutes(hours.close)) return false;
+  return !hours.breaks.some((b) => rangesOverlap(range, [timeToMinutes(b.start), timeToMinutes(b.end)]));
+}
+
+// Slots where a new booking of `duration` minutes fits: inside opening hours and
+// clear of every live booking of that barber.
+export function freeSlots(
+  schedule: ShopSchedule,
+  dayISO: string,
+  day: Record<string, Appointment> | undefined,
+  duration: number = schedule.slotMinutes
+): string[] {
+  return buildSlots(schedule, dayISO).filter((time) => {
+    if (!isWithinHours(schedule, dayISO, time, duration)) return false;
+    const start = timeToMinutes(time);
+    return !findOverlap(day, null, [start, start + duration]);
+  });
+}
+
+export const addDaysISO = (dayISO: string, delta: number) => {
+  const [y, m, d] = dayISO.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d + delta));
+  return dt.toISOString().slice(0, 10);
+};
+
+// Current date and minutes since midnight in the shop's time zone (the server runs in UTC)
+export function zonedNow(timeZone: string, at: Date = new Date()) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    dayISO: `${get("year")}-${get("month")}-${get("day")}`,
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
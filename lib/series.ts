@@ -0,0 +1,137 @@
+import { supabase } from "./db";
+import { APPOINTMENT_COLUMNS, Appointment, toAppointment } from "./appointments";
+
+// Recurring bookings (`appointment_series`, see migration 012). The series row
+// only holds the rule; each occurrence is a normal appointment with series_id.
+
+export type RecurrenceFreq = "weekly" | "monthly";
+
+export type RecurrenceRule = {
+  freq: RecurrenceFreq;
+  // Every N weeks / months
+  every: number;
+  // Last day (inclusive) or number of occurrences; one of the two is set
+  until: string | null;
+  count: number | null;
+};
+
+export type Series = RecurrenceRule & { id: number; barber: string; time: string; startDay: string };
+
+export const SERIES_COLUMNS = "id,barber_id,time,start_day,freq,every,until_day,occurrences";
+
+// Hard limits, whatever the rule says
+export const MAX_OCCURRENCES = 104;
+export const MAX_SERIES_DAYS = 366;
+const MAX_EVERY = 12;
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const toSeries = (row: any): Series => ({
+  id: Number(row.id),
+  barber: String(row.barber_id ?? ""),
+  time: String(row.time ?? ""),
+  startDay: String(row.start_day ?? ""),
+  freq: row.freq === "monthly" ? "monthly" : "weekly",
+  every: Number(row.every ?? 1),
+  until: row.until_day ? String(row.until_day) : null,
+  count: row.occurrences != null ? Number(row.occurrences) : null,
+});
+
+// null = invalid rule. Needs an end: `until` (YYYY-MM-DD) or `count`.
+export function toRecurrenceRule(raw: unknown): RecurrenceRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+
+  if (r.freq !== "weekly" && r.freq !== "monthly") return null;
+  const every = r.every == null ? 1 : Number(r.every);
+  if (!Number.isInteger(every) || every < 1 || every > MAX_EVERY) return null;
+
+  const until = typeof r.until === "string" && r.until ? r.until : null;
+  if (until && !DAY_RE.test(until)) return null;
+  const count = r.count == null || r.count === "" ? null : Number(r.count);
+  if (count != null && (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES)) return null;
+  if (!until && count == null) return null;
+
+  return { freq: r.freq, every, until, count };
+}
+
+const utcDate = (dayISO: string) => {
+  const [y, m, d] = dayISO.split("-").map(Number);
+  return { y, m: m - 1, d };
+};
+const toISO = (dt: Date) => dt.toISOString().slice(0, 10);
+
+// Occurrence days from startDay (included), oldest first. Monthly series keep
+// the day of month and skip months that don't have it (the 31st, Feb 29).
+export function expandRule(startDay: string, rule: RecurrenceRule): string[] {
+  const { y, m, d } = utcDate(startDay);
+  const last = toISO(new Date(Date.UTC(y, m, d + MAX_SERIES_DAYS)));
+  const end = rule.until && rule.until < last ? rule.until : last;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  const out: string[] = [];
+  for (let i = 0; out.length < limit; i++) {
+    const dt =
+      rule.freq === "weekly"
+        ? new Date(Date.UTC(y, m, d + i * 7 * rule.every))
+        : new Date(Date.UTC(y, m + i * rule.every, d));
+    const day = toISO(dt);
+    if (day > end) break;
+    if (rule.freq === "monthly" && dt.getUTCDate() !== d) continue;
+    out.push(day);
+  }
+  return out;
+}
+
+export async function getSeries(id: number) {
+  const { data, error } = await supabase.from("appointment_series").select(SERIES_COLUMNS).eq("id", id).maybeSingle();
+  return { series: data ? toSeries(data) : null, error };
+}
+
+export type Occurrence = { barber: string; day: string; time: string; version: number; appointment: Appointment };
+
+// A series' occurrences from `fromDay` on (all of them when null), oldest first
+export async function loadOccurrences(seriesId: number, fromDay: string | null) {
+  let q = supabase
+    .from("appointments")
+    .select(`barber_id,day,time,version,${APPOINTMENT_COLUMNS}`)
+    .eq("series_id", seriesId);
+  if (fromDay) q = q.gte("day", fromDay);
+
+  const { data, error } = await q.order("day", { ascending: true }).limit(MAX_OCCURRENCES * 2);
+  if (error) return { occurrences: null, error };
+
+  const occurrences: Occurrence[] = [];
+  for (const row of (data || []) as any[]) {
+    const appointment = toAppointment(row);
+    if (appointment) {
+      occurrences.push({ barber: row.barber_id, day: row.day, time: row.time, version: Number(row.version ?? 0), appointment });
+    }
+  }
+  return { occurrences, error: null };
+}
+
+// Bookings of one barber on the given days: day -> time -> appointment, and
+// their versions (day -> time -> version) for the writes that follow
+export async function loadBarberDays(barber: string, days: string[]) {
+  const out: Record<string, Record<string, Appointment>> = {};
+  const versions: Record<string, Record<string, number>> = {};
+  if (days.length === 0) return { days: out, versions, error: null };
+
+  const { data, error } = await supabase
+    .from("appointments")
+    .select(`day,time,version,${APPOINTMENT_COLUMNS}`)
+    .eq("barber_id", barber)
+    .in("day", days);
+  if (error) return { days: null, versions: null, error };
+
+  for (const row of (data || []) as any[]) {
+    const appt = toAppointment(row);
+    if (!appt) continue;
+    if (!out[row.day]) out[row.day] = {};
+    out[row.day][row.time] = appt;
+    if (!versions[row.day]) versions[row.day] = {};
+    versions[row.day][row.time] = Number(row.version ?? 0);
+  }
+  return { days: out, versions, error: null };
+}
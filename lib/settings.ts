@@ -0,0 +1,32 @@
+import { supabase } from "./db";
+import { DEFAULT_SCHEDULE, ShopSchedule, toSchedule } from "./schedule";
+
+// Used wherever "now" matters on the server (public booking lead time)
+export const SHOP_TIME_ZONE = process.env.BUSHI_TIME_ZONE || "Europe/Sofia";
+
+// Key/value rows in `shop_settings` (value is jsonb)
+const SCHEDULE_KEY = "schedule";
+
+// The default only stands in when no schedule was ever saved (first run). A
+// failed read is an error: write paths must refuse (503) rather than check
+// bookings against hours that may not be the shop's.
+export async function loadSchedule(): Promise<{ schedule: ShopSchedule | null; error: unknown }> {
+  const { data, error } = await supabase
+    .from("shop_settings")
+    .select("value")
+    .eq("key", SCHEDULE_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.error("loadSchedule error:", error);
+    return { schedule: null, error };
+  }
+  return { schedule: toSchedule((data as any)?.value) ?? DEFAULT_SCHEDULE, error: null };
+}
+
+export async function saveSchedule(schedule: ShopSchedule) {
+  const { error } = await supabase
+    .from("shop_settings")
+    .upsert([{ key: SCHEDULE_KEY, value: schedule, updated_at: new Date().toISOString() }], { onConflict: "key" });
+  return { error };
+}
@@ -0,0 +1,134 @@
+import { createHash } from "crypto";
+import { supabase } from "./db";
+import { APPOINTMENT_COLUMNS, Store, appointmentToRow, toAppointment } from "./appointments";
+
+// Server-side backups of the appointments table (`appointment_snapshots`, see
+// migration 008). Each snapshot holds every row as JSON; restores go through
+// the replace_appointments() function so they are all-or-nothing.
+
+export type SnapshotKind = "scheduled" | "manual" | "pre_restore" | "pre_overwrite";
+
+export type SnapshotInfo = {
+  id: number;
+  createdAt: string;
+  kind: SnapshotKind;
+  note: string;
+  rows: number;
+};
+
+// barber -> Store
+export type Calendars = Record<string, Store>;
+
+// Which part of the table a restore / import touches; null = everything
+export type Scope = { barber: string | null; days: string[] | null };
+
+const toInfo = (row: any): SnapshotInfo => ({
+  id: Number(row.id),
+  createdAt: String(row.created_at ?? ""),
+  kind: row.kind as SnapshotKind,
+  note: String(row.note ?? ""),
+  rows: Number(row.row_count ?? 0),
+});
+
+function rowsToCalendars(rows: any[], scope: Scope): Calendars {
+  const out: Calendars = {};
+  for (const row of rows) {
+    const barber = row?.barber_id as string;
+    const day = row?.day as string;
+    const time = row?.time as string;
+    const appt = toAppointment(row);
+    if (!barber || !day || !time || !appt) continue;
+    if (scope.barber && barber !== scope.barber) continue;
+    if (scope.days && !scope.days.includes(day)) continue;
+
+    if (!out[barber]) out[barber] = {};
+    if (!out[barber][day]) out[barber][day] = {};
+    out[barber][day][time] = appt;
+  }
+  return out;
+}
+
+export async function listSnapshots(limit = 100) {
+  const { data, error } = await supabase
+    .from("appointment_snapshots")
+    .select("id,created_at,kind,note,row_count")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  return { snapshots: ((data || []) as any[]).map(toInfo), error };
+}
+
+export async function takeSnapshot(kind: SnapshotKind, note?: string) {
+  const { data, error } = await supabase.rpc("take_appointment_snapshot", { p_kind: kind, p_note: note || null });
+  return { id: error ? null : Number(data), error };
+}
+
+export async function loadSnapshot(id: number, scope: Scope = { barber: null, days: null }) {
+  const { data, error } = await supabase
+    .from("appointment_snapshots")
+    .select("id,created_at,kind,note,row_count,rows")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error || !data) return { info: null, calendars: null, error };
+  const rows = Array.isArray((data as any).rows) ? ((data as any).rows as any[]) : [];
+  return { info: toInfo(data), calendars: rowsToCalendars(rows, scope), error: null };
+}
+
+// Live appointments in scope, paged (select() stops at 1000 rows)
+export async function loadCalendars(scope: Scope) {
+  const PAGE = 1000;
+  const rows: any[] = [];
+  let from = 0;
+
+  while (true) {
+    let q = supabase.from("appointments").select(`barber_id,day,time,${APPOINTMENT_COLUMNS}`);
+    if (scope.barber) q = q.eq("barber_id", scope.barber);
+    if (scope.days) q = q.in("day", scope.days);
+
+    const { data, error } = await q
+      .order("barber_id", { ascending: true })
+      .order("day", { ascending: true })
+      .order("time", { ascending: true })
+      .range(from, from + PAGE - 1);
+
+    if (error) return { calendars: null, error };
+    rows.push(...((data || []) as any[]));
+    if ((data || []).length < PAGE) break;
+    from += PAGE;
+    if (from > 50000) break;
+  }
+  return { calendars: rowsToCalendars(rows, scope), error: null };
+}
+
+// Order-independent fingerprint, e.g. to tell whether data changed since a dry run
+export function digestCalendars(calendars: Calendars) {
+  const hash = createHash("sha256");
+  for (const barber of Object.keys(calendars).sort()) {
+    const store = calendars[barber];
+    for (const day of Object.keys(store).sort()) {
+      for (const time of Object.keys(store[day]).sort()) {
+        hash.update(JSON.stringify([barber, day, time, store[day][time]]));
+      }
+    }
+  }
+  return hash.digest("base64url");
+}
+
+// Atomically replaces everything in scope with `calendars`
+export async function replaceAppointments(scope: Scope, calendars: Calendars) {
+  const rows: Record<string, unknown>[] = [];
+  for (const [barber, store] of Object.entries(calendars)) {
+    for (const [day, slots] of Object.entries(store)) {
+      for (const [time, appt] of Object.entries(slots)) {
+        rows.push({ barber_id: barber, day, time, ...appointmentToRow(appt) });
+      }
+    }
+  }
+
+  const { data, error } = await supabase.rpc("replace_appointments", {
+    p_barber: scope.barber,
+    p_days: scope.days,
+    p_rows: rows,
+  });
+  return { count: error ? 0 : Number(data), error };
+}
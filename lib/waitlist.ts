@@ -0,0 +1,92 @@
+import { supabase } from "./db";
+import { BARBER_RE } from "./barbers";
+
+// Per-day waitlist (`waitlist`, see migration 013). Entries are removed once
+// the client got a slot (or gave up); nothing here books anything.
+
+export type WaitlistEntry = {
+  id: number;
+  day: string;
+  // null = any barber
+  barber: string | null;
+  name: string;
+  phone: string;
+  // Preferred start times, inclusive; null = open-ended
+  fromTime: string | null;
+  toTime: string | null;
+  notes: string;
+  clientId: number | null;
+  createdAt: string;
+};
+
+export const WAITLIST_COLUMNS = "id,day,barber_id,name,phone,from_time,to_time,notes,client_id,created_at";
+
+const MAX_LEN = { name: 120, phone: 40, notes: 1000 };
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^\d{2}:\d{2}$/;
+
+const str = (v: unknown, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : "");
+
+export const toWaitlistEntry = (row: any): WaitlistEntry => ({
+  id: Number(row.id),
+  day: String(row.day ?? ""),
+  barber: row.barber_id ? String(row.barber_id) : null,
+  name: String(row.name ?? ""),
+  phone: String(row.phone ?? ""),
+  fromTime: row.from_time ? String(row.from_time) : null,
+  toTime: row.to_time ? String(row.to_time) : null,
+  notes: String(row.notes ?? ""),
+  clientId: row.client_id != null ? Number(row.client_id) : null,
+  createdAt: String(row.created_at ?? ""),
+});
+
+// Row for a POST body; null = invalid input
+export function toWaitlistRow(raw: unknown): Record<string, string | number | null> | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+
+  const name = str(r.name, MAX_LEN.name);
+  if (!name || typeof r.day !== "string" || !DAY_RE.test(r.day)) return null;
+
+  const time = (v: unknown) => (v == null || v === "" ? null : typeof v === "string" && TIME_RE.test(v) ? v : undefined);
+  const fromTime = time(r.fromTime);
+  const toTime = time(r.toTime);
+  if (fromTime === undefined || toTime === undefined || (fromTime && toTime && fromTime > toTime)) return null;
+
+  const barber = r.barber == null || r.barber === "" ? null : r.barber;
+  if (barber != null && (typeof barber !== "string" || !BARBER_RE.test(barber))) return null;
+
+  const clientId = r.clientId == null || r.clientId === "" ? null : Number(r.clientId);
+  if (clientId != null && (!Number.isSafeInteger(clientId) || clientId <= 0)) return null;
+
+  return {
+    day: r.day,
+    barber_id: barber,
+    name,
+    phone: str(r.phone, MAX_LEN.phone) || null,
+    from_time: fromTime,
+    to_time: toTime,
+    notes: str(r.notes, MAX_LEN.notes) || null,
+    client_id: clientId,
+  };
+}
+
+// Oldest first, so the first match for a slot is whoever asked first
+export async function listWaitlist(fromDay: string | null, toDay: string | null) {
+  let q = supabase.from("waitlist").select(WAITLIST_COLUMNS);
+  if (fromDay) q = q.gte("day", fromDay);
+  if (toDay) q = q.lte("day", toDay);
+  const { data, error } = await q.order("day", { ascending: true }).order("created_at", { ascending: true }).limit(2000);
+  return { entries: ((data || []) as any[]).map(toWaitlistEntry), error };
+}
+
+export async function insertWaitlistEntry(row: Record<string, string | number | null>) {
+  const { data, error } = await supabase.from("waitlist").insert([row]).select(WAITLIST_COLUMNS).single();
+  return { entry: data ? toWaitlistEntry(data) : null, error };
+}
+
+export async function deleteWaitlistEntry(id: number) {
+  const { data, error } = await supabase.from("waitlist").delete().eq("id", id).select("id");
+  return { deleted: (data || []).length > 0, error };
+}
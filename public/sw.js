@@ -0,0 +1,78 @@
+// Bushi service worker: keeps the app shell, static assets and fonts available
+// offline. Calendar data never goes through here — /api/* is always network,
+// and the page keeps its own copy in IndexedDB (lib/localDb.ts).
+
+const VERSION = 'bushi-v2';
+const SHELL_CACHE = `${VERSION}-shell`;
+const ASSET_CACHE = `${VERSION}-assets`;
+const FONT_CACHE = `${VERSION}-fonts`;
+
+const SHELL_URLS = ['/', '/site.webmanifest', '/bushii-logo.png', '/razor.png', '/tick-green.png', '/bushi-icon-192.png'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => !k.startsWith(VERSION)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first, cached copy when offline (pages: the shell must stay current)
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const res = await fetch(request);
+    if (res.ok) cache.put(fallbackUrl || request, res.clone());
+    return res;
+  } catch (e) {
+    const hit = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (hit) return hit;
+    throw e;
+  }
+}
+
+// Cache first (hashed build files, images, font files never change under a URL)
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const hit = await cache.match(request);
+  if (hit) return hit;
+  const res = await fetch(request);
+  if (res.ok || res.type === 'opaque') cache.put(request, res.clone());
+  return res;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === 'https://fonts.googleapis.com' || url.origin === 'https://fonts.gstatic.com') {
+    event.respondWith(url.origin === 'https://fonts.gstatic.com' ? cacheFirst(request, FONT_CACHE) : networkFirst(request, FONT_CACHE));
+    return;
+  }
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    // The admin calendar is a single page; other pages (/book) are cached as visited
+    event.respondWith(networkFirst(request, SHELL_CACHE, url.pathname === '/' ? '/' : undefined));
+    return;
+  }
+  if (url.pathname.endsWith('.webmanifest')) {
+    // Name, icons and colours change without the URL changing
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+    return;
+  }
+  if (url.pathname.startsWith('/_next/static/') || /\.(png|svg|ico)$/.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+  }
+});
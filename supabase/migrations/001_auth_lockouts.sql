@@ -0,0 +1,10 @@
+-- PIN lockout counters used by /api/auth (see lib/auth.ts).
+-- Only the service-role key touches this table; RLS stays on with no policies.
+create table if not exists public.auth_lockouts (
+  key text primary key,
+  failures integer not null default 0,
+  locked_until timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.auth_lockouts enable row level security;
@@ -0,0 +1,27 @@
+-- Multi-barber support: every appointment belongs to a barber's chair.
+create table if not exists public.barbers (
+  id text primary key check (id ~ '^[a-z0-9_-]{1,32}$'),
+  name text not null,
+  sort integer not null default 0,
+  active boolean not null default true
+);
+
+alter table public.barbers enable row level security;
+
+insert into public.barbers (id, name, sort)
+values ('bushi', 'Bushi', 0)
+on conflict (id) do nothing;
+
+-- Existing rows are the single chair we had so far
+alter table public.appointments
+  add column if not exists barber_id text not null default 'bushi'
+  references public.barbers (id) on update cascade;
+
+-- A slot is now unique per barber, not per shop
+alter table public.appointments drop constraint if exists appointments_day_time_key;
+drop index if exists appointments_day_time_key;
+create unique index if not exists appointments_barber_day_time_key
+  on public.appointments (barber_id, day, time);
+
+-- Realtime DELETE payloads must carry barber_id/day/time, not just the PK
+alter table public.appointments replica identity full;
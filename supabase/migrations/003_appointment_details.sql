@@ -0,0 +1,8 @@
+-- Structured appointment records: the slot is no longer just a free-text name.
+alter table public.appointments
+  add column if not exists phone text,
+  add column if not exists service text,
+  add column if not exists price numeric(10, 2) check (price is null or price >= 0),
+  add column if not exists notes text,
+  add column if not exists status text not null default 'booked'
+    check (status in ('booked', 'arrived', 'no_show', 'cancelled'));
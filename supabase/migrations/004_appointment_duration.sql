@@ -0,0 +1,22 @@
+-- Variable-length services: a booking starts at `time` and lasts `duration` minutes.
+alter table public.appointments
+  add column if not exists duration integer not null default 30
+    check (duration between 5 and 480);
+
+-- "HH:MM" as minutes since midnight, so ranges can be compared in SQL
+alter table public.appointments
+  add column if not exists start_min integer
+    generated always as (split_part(time, ':', 1)::int * 60 + split_part(time, ':', 2)::int) stored;
+
+-- Atomic overlap guard: no two live bookings of one barber may share a minute.
+-- The API checks first to return a friendly 409; this catches races.
+create extension if not exists btree_gist;
+
+alter table public.appointments drop constraint if exists appointments_no_overlap;
+alter table public.appointments
+  add constraint appointments_no_overlap
+  exclude using gist (
+    barber_id with =,
+    day with =,
+    int4range(start_min, start_min + duration) with &&
+  ) where (status <> 'cancelled');
@@ -0,0 +1,9 @@
+-- Shop-wide settings as key/value JSON (currently only "schedule": opening
+-- hours, breaks, closed dates and slot size; see lib/schedule.ts).
+create table if not exists public.shop_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.shop_settings enable row level security;
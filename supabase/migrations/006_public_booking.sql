@@ -0,0 +1,37 @@
+-- Public self-booking (/book, /api/book)
+
+-- Where a booking came from, so staff can tell online bookings apart
+alter table public.appointments
+  add column if not exists source text not null default 'staff'
+    check (source in ('staff', 'online'));
+
+-- Fixed-window rate limiting shared by all serverless instances
+create table if not exists public.rate_limits (
+  key text primary key,
+  window_start timestamptz not null,
+  hits integer not null
+);
+
+alter table public.rate_limits enable row level security;
+
+create or replace function public.hit_rate_limit(p_key text, p_window_seconds integer, p_max integer)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_hits integer;
+begin
+  insert into rate_limits as r (key, window_start, hits)
+  values (p_key, now(), 1)
+  on conflict (key) do update set
+    hits = case when r.window_start < now() - make_interval(secs => p_window_seconds) then 1 else r.hits + 1 end,
+    window_start = case when r.window_start < now() - make_interval(secs => p_window_seconds) then now() else r.window_start end
+  returning hits into v_hits;
+
+  return v_hits <= p_max;
+end;
+$$;
+
+revoke all on function public.hit_rate_limit(text, integer, integer) from public, anon, authenticated;
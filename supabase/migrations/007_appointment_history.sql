@@ -0,0 +1,35 @@
+-- Append-only audit log of every change to `appointments` made through the API.
+-- old_value / new_value are the full appointment records (null = empty slot).
+create table if not exists public.appointment_history (
+  id bigint generated always as identity primary key,
+  barber_id text not null,
+  day text not null,
+  time text not null,
+  action text not null check (action in ('set', 'clear', 'overwrite', 'book')),
+  old_value jsonb,
+  new_value jsonb,
+  -- session id from the signed cookie (null for public bookings)
+  session_id text,
+  device text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists appointment_history_slot_idx
+  on public.appointment_history (day, barber_id, time, created_at desc);
+
+alter table public.appointment_history enable row level security;
+
+-- History is never rewritten, not even by the service role
+create or replace function public.appointment_history_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'appointment_history is append-only';
+end;
+$$;
+
+drop trigger if exists appointment_history_no_update on public.appointment_history;
+create trigger appointment_history_no_update
+  before update or delete on public.appointment_history
+  for each statement execute function public.appointment_history_append_only();
@@ -0,0 +1,86 @@
+-- Server-side snapshots of the whole appointments table, taken nightly
+-- (pg_cron), on demand (/api/snapshots) and before every restore / bulk overwrite.
+create table if not exists public.appointment_snapshots (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  kind text not null check (kind in ('scheduled', 'manual', 'pre_restore', 'pre_overwrite')),
+  note text,
+  row_count integer not null,
+  rows jsonb not null
+);
+
+create index if not exists appointment_snapshots_created_idx
+  on public.appointment_snapshots (created_at desc);
+
+alter table public.appointment_snapshots enable row level security;
+
+-- Keeps the last 60 scheduled snapshots; the other kinds stay until deleted by hand
+create or replace function public.take_appointment_snapshot(p_kind text, p_note text default null)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id bigint;
+begin
+  insert into appointment_snapshots (kind, note, row_count, rows)
+  select p_kind, p_note, count(*),
+         coalesce(jsonb_agg(to_jsonb(a) - 'start_min' order by a.barber_id, a.day, a.time), '[]'::jsonb)
+  from appointments a
+  returning id into v_id;
+
+  delete from appointment_snapshots
+  where kind = 'scheduled'
+    and id not in (
+      select id from appointment_snapshots where kind = 'scheduled' order by created_at desc limit 60
+    );
+
+  return v_id;
+end;
+$$;
+
+-- Replaces every appointment in scope (one barber or all, some days or all)
+-- with p_rows in a single transaction: either all of it happens or nothing.
+-- Rows outside the scope are ignored.
+create or replace function public.replace_appointments(p_barber text, p_days text[], p_rows jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  delete from appointments
+  where (p_barber is null or barber_id = p_barber)
+    and (p_days is null or day::text = any (p_days));
+
+  insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, source)
+  select r.barber_id, r.day, r.time, r.name, r.phone, r.service, r.price, r.notes,
+         coalesce(r.status, 'booked'), coalesce(r.duration, 30), coalesce(r.source, 'staff')
+  from jsonb_populate_recordset(null::appointments, p_rows) r
+  where (p_barber is null or r.barber_id = p_barber)
+    and (p_days is null or r.day::text = any (p_days));
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.take_appointment_snapshot(text, text) from public, anon, authenticated;
+revoke all on function public.replace_appointments(text, text[], jsonb) from public, anon, authenticated;
+
+-- Restores show up in the audit log too
+alter table public.appointment_history drop constraint if exists appointment_history_action_check;
+alter table public.appointment_history
+  add constraint appointment_history_action_check
+  check (action in ('set', 'clear', 'overwrite', 'book', 'restore'));
+
+-- Nightly snapshot at 02:00 UTC (pg_cron is available on Supabase)
+create extension if not exists pg_cron;
+select cron.schedule(
+  'bushi-nightly-snapshot',
+  '0 2 * * *',
+  $$select public.take_appointment_snapshot('scheduled')$$
+);
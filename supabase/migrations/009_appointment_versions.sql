@@ -0,0 +1,24 @@
+-- Optimistic concurrency: every write gives the row a new version from one
+-- shared sequence, so a slot that was deleted and re-created never gets back a
+-- version a client may still hold. An empty slot counts as version 0.
+create sequence if not exists public.appointment_version_seq;
+
+alter table public.appointments
+  add column if not exists version bigint not null default nextval('public.appointment_version_seq'),
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.appointments_bump_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version := nextval('public.appointment_version_seq');
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_bump_version on public.appointments;
+create trigger appointments_bump_version
+  before update on public.appointments
+  for each row execute function public.appointments_bump_version();
@@ -0,0 +1,49 @@
+-- Delta sync (GET /api/appointments?since=...): deleted slots leave a tombstone
+-- so clients that only fetch changes learn about removals too. A tombstone only
+-- exists while its slot is empty; re-booking the slot removes it.
+create table if not exists public.appointment_tombstones (
+  barber_id text not null,
+  day text not null,
+  time text not null,
+  deleted_at timestamptz not null default now(),
+  primary key (barber_id, day, time)
+);
+
+create index if not exists appointment_tombstones_deleted_idx
+  on public.appointment_tombstones (deleted_at);
+
+alter table public.appointment_tombstones enable row level security;
+
+create or replace function public.appointments_track_tombstones()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' or (tg_op = 'UPDATE' and (old.barber_id, old.day, old.time) is distinct from (new.barber_id, new.day, new.time)) then
+    insert into appointment_tombstones (barber_id, day, time)
+    values (old.barber_id, old.day::text, old.time)
+    on conflict (barber_id, day, time) do update set deleted_at = now();
+  end if;
+
+  if tg_op = 'DELETE' then
+    return old;
+  end if;
+
+  delete from appointment_tombstones
+  where barber_id = new.barber_id and day = new.day::text and time = new.time;
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_track_tombstones on public.appointments;
+create trigger appointments_track_tombstones
+  after insert or update or delete on public.appointments
+  for each row execute function public.appointments_track_tombstones();
+
+-- Clients older than this do a full sync instead (see TOMBSTONE_DAYS in the API)
+create extension if not exists pg_cron;
+select cron.schedule(
+  'bushi-tombstone-cleanup',
+  '30 2 * * *',
+  $$delete from public.appointment_tombstones where deleted_at < now() - interval '90 days'$$
+);
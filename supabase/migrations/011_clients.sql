@@ -0,0 +1,53 @@
+-- Client directory: one row per person, bookings point at it so search and
+-- history work per client rather than per spelling of the name.
+create table if not exists public.clients (
+  id bigint generated always as identity primary key,
+  name text not null check (length(btrim(name)) > 0),
+  phone text,
+  -- digits only, for matching "0888 123 456" against "+359888123456" style input
+  phone_key text generated always as (nullif(regexp_replace(coalesce(phone, ''), '\D', '', 'g'), '')) stored,
+  notes text,
+  preferred_barber text references public.barbers (id) on update cascade on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists clients_name_idx on public.clients (lower(name) text_pattern_ops);
+create index if not exists clients_phone_key_idx on public.clients (phone_key);
+
+alter table public.clients enable row level security;
+
+alter table public.appointments
+  add column if not exists client_id bigint references public.clients (id) on delete set null;
+
+create index if not exists appointments_client_idx on public.appointments (client_id);
+
+-- Restores and bulk imports keep the link
+create or replace function public.replace_appointments(p_barber text, p_days text[], p_rows jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  delete from appointments
+  where (p_barber is null or barber_id = p_barber)
+    and (p_days is null or day::text = any (p_days));
+
+  insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, source, client_id)
+  select r.barber_id, r.day, r.time, r.name, r.phone, r.service, r.price, r.notes,
+         coalesce(r.status, 'booked'), coalesce(r.duration, 30), coalesce(r.source, 'staff'),
+         -- a snapshot can predate a client that was deleted since
+         (select c.id from clients c where c.id = r.client_id)
+  from jsonb_populate_recordset(null::appointments, p_rows) r
+  where (p_barber is null or r.barber_id = p_barber)
+    and (p_days is null or r.day::text = any (p_days));
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.replace_appointments(text, text[], jsonb) from public, anon, authenticated;
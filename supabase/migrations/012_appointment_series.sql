@@ -0,0 +1,53 @@
+-- Recurring bookings: a series is the rule; its occurrences are ordinary
+-- appointment rows (materialized up front by /api/series) pointing back at it,
+-- so every read path, overlap check and history entry keeps working unchanged.
+create table if not exists public.appointment_series (
+  id bigint generated always as identity primary key,
+  barber_id text not null references public.barbers (id) on update cascade on delete cascade,
+  time text not null,
+  start_day date not null,
+  freq text not null check (freq in ('weekly', 'monthly')),
+  every integer not null default 1 check (every between 1 and 12),
+  -- at most one of the two; the API always stores the resolved end day too
+  until_day date,
+  occurrences integer check (occurrences between 1 and 104),
+  created_at timestamptz not null default now()
+);
+
+alter table public.appointment_series enable row level security;
+
+alter table public.appointments
+  add column if not exists series_id bigint references public.appointment_series (id) on delete set null;
+
+create index if not exists appointments_series_idx on public.appointments (series_id, day);
+
+-- Restores and bulk imports keep both links
+create or replace function public.replace_appointments(p_barber text, p_days text[], p_rows jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  delete from appointments
+  where (p_barber is null or barber_id = p_barber)
+    and (p_days is null or day::text = any (p_days));
+
+  insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, source, client_id, series_id)
+  select r.barber_id, r.day, r.time, r.name, r.phone, r.service, r.price, r.notes,
+         coalesce(r.status, 'booked'), coalesce(r.duration, 30), coalesce(r.source, 'staff'),
+         -- a snapshot can predate a client / series that was deleted since
+         (select c.id from clients c where c.id = r.client_id),
+         (select s.id from appointment_series s where s.id = r.series_id)
+  from jsonb_populate_recordset(null::appointments, p_rows) r
+  where (p_barber is null or r.barber_id = p_barber)
+    and (p_days is null or r.day::text = any (p_days));
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.replace_appointments(text, text[], jsonb) from public, anon, authenticated;
@@ -0,0 +1,28 @@
+-- Waitlist: clients who want a slot on a day that is already full. When a slot
+-- frees up the admin app offers it to the first matching entry.
+create table if not exists public.waitlist (
+  id bigint generated always as identity primary key,
+  day date not null,
+  -- null = any barber
+  barber_id text references public.barbers (id) on update cascade on delete set null,
+  name text not null check (length(btrim(name)) > 0),
+  phone text,
+  -- preferred start times, inclusive "HH:MM"; null = no limit on that side
+  from_time text,
+  to_time text,
+  notes text,
+  client_id bigint references public.clients (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists waitlist_day_idx on public.waitlist (day, created_at);
+
+alter table public.waitlist enable row level security;
+
+-- Entries for days that are over are of no use
+create extension if not exists pg_cron;
+select cron.schedule(
+  'bushi-waitlist-cleanup',
+  '45 2 * * *',
+  $$delete from public.waitlist where day < current_date - 7$$
+);
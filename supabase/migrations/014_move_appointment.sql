@@ -0,0 +1,80 @@
+-- Drag-and-drop rescheduling: PATCH /api/appointments { op: "move" | "swap" }.
+-- Both slots change in one transaction, so an interrupted move never leaves a
+-- booking cleared in one place and missing from the other.
+--
+-- Returns { status: "ok", from_version, to_version } (0 = that slot is now
+-- empty), or { status: "missing" | "stale" | "taken" } without changing anything.
+-- Expected versions are optional (null = don't check); 0 = "the slot was empty".
+-- A swap goes delete target / move source / re-insert target, since two live
+-- bookings can't pass through each other under appointments_no_overlap.
+create or replace function public.move_appointment(
+  p_barber appointments.barber_id%type,
+  p_day appointments.day%type,
+  p_time appointments.time%type,
+  p_to_barber appointments.barber_id%type,
+  p_to_day appointments.day%type,
+  p_to_time appointments.time%type,
+  p_swap boolean,
+  p_expected bigint,
+  p_expected_to bigint
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_src appointments%rowtype;
+  v_dst appointments%rowtype;
+  v_has_dst boolean;
+  v_from_version bigint := 0;
+  v_to_version bigint;
+begin
+  select * into v_src from appointments
+  where barber_id = p_barber and day = p_day and time = p_time
+  for update;
+  if not found then
+    return jsonb_build_object('status', 'missing');
+  end if;
+  if p_expected is not null and v_src.version <> p_expected then
+    return jsonb_build_object('status', 'stale');
+  end if;
+
+  select * into v_dst from appointments
+  where barber_id = p_to_barber and day = p_to_day and time = p_to_time
+  for update;
+  v_has_dst := found;
+
+  if p_expected_to is not null and coalesce(case when v_has_dst then v_dst.version end, 0) <> p_expected_to then
+    return jsonb_build_object('status', 'stale');
+  end if;
+  if v_has_dst and not p_swap then
+    return jsonb_build_object('status', 'taken');
+  end if;
+
+  if v_has_dst then
+    delete from appointments where barber_id = p_to_barber and day = p_to_day and time = p_to_time;
+  end if;
+
+  update appointments
+  set barber_id = p_to_barber, day = p_to_day, time = p_to_time
+  where barber_id = p_barber and day = p_day and time = p_time
+  returning version into v_to_version;
+
+  if v_has_dst then
+    insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, source, client_id, series_id)
+    values (p_barber, p_day, p_time, v_dst.name, v_dst.phone, v_dst.service, v_dst.price, v_dst.notes,
+            v_dst.status, v_dst.duration, v_dst.source, v_dst.client_id, v_dst.series_id)
+    returning version into v_from_version;
+  end if;
+
+  return jsonb_build_object('status', 'ok', 'from_version', v_from_version, 'to_version', v_to_version);
+end;
+$$;
+
+revoke all on function public.move_appointment from public, anon, authenticated;
+
+alter table public.appointment_history drop constraint if exists appointment_history_action_check;
+alter table public.appointment_history
+  add constraint appointment_history_action_check
+  check (action in ('set', 'clear', 'overwrite', 'book', 'restore', 'move'));
@@ -0,0 +1,95 @@
+-- Batch writes: PATCH /api/appointments { ops: [...] }. The ops are applied in
+-- order in one transaction; if any of them fails, none of them stays.
+--
+-- p_ops is what the route builds from the request, one object per op:
+--   { op: "set", row: { barber_id, day, time, name, ... }, expected }
+--   { op: "clear", row: { barber_id, day, time }, expected }
+--   { op: "move" | "swap", row: { barber_id, day, time }, to: { barber_id, day, time },
+--     expected, expected_to }
+-- Expected versions work as in move_appointment (null = don't check, 0 = empty).
+--
+-- Returns { status: "ok", results: [{ version, to_version? }] } (version 0 =
+-- the slot is now empty), or { status, failed } with the index of the op that
+-- failed: "stale" | "missing" | "taken" | "overlap" | "unknown_client".
+create or replace function public.apply_appointment_batch(p_ops jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_op jsonb;
+  v_i integer := 0;
+  v_status text;
+  v_row appointments%rowtype;
+  v_to appointments%rowtype;
+  v_cur bigint;
+  v_version bigint;
+  v_move jsonb;
+  v_results jsonb := '[]'::jsonb;
+begin
+  -- Everything in this block is rolled back when it ends in an exception
+  begin
+    for v_op in select value from jsonb_array_elements(p_ops) loop
+      v_row := jsonb_populate_record(null::appointments, v_op->'row');
+
+      if v_op->>'op' in ('move', 'swap') then
+        v_to := jsonb_populate_record(null::appointments, v_op->'to');
+        v_move := move_appointment(
+          v_row.barber_id, v_row.day, v_row.time,
+          v_to.barber_id, v_to.day, v_to.time,
+          v_op->>'op' = 'swap',
+          (v_op->>'expected')::bigint,
+          (v_op->>'expected_to')::bigint
+        );
+        if v_move->>'status' <> 'ok' then
+          v_status := v_move->>'status';
+          raise exception 'batch op refused';
+        end if;
+        v_results := v_results || jsonb_build_array(jsonb_build_object(
+          'version', v_move->'from_version', 'to_version', v_move->'to_version'));
+      else
+        select version into v_cur from appointments
+        where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time
+        for update;
+        if (v_op->>'expected') is not null and coalesce(v_cur, 0) <> (v_op->>'expected')::bigint then
+          v_status := 'stale';
+          raise exception 'batch op refused';
+        end if;
+
+        v_version := 0;
+        if v_op->>'op' = 'clear' then
+          delete from appointments
+          where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time;
+        elsif v_cur is null then
+          insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, client_id, series_id)
+          values (v_row.barber_id, v_row.day, v_row.time, v_row.name, v_row.phone, v_row.service, v_row.price,
+                  v_row.notes, coalesce(v_row.status, 'booked'), coalesce(v_row.duration, 30), v_row.client_id, v_row.series_id)
+          returning version into v_version;
+        else
+          update appointments
+          set name = v_row.name, phone = v_row.phone, service = v_row.service, price = v_row.price,
+              notes = v_row.notes, status = coalesce(v_row.status, 'booked'), duration = coalesce(v_row.duration, 30),
+              client_id = v_row.client_id, series_id = v_row.series_id
+          where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time
+          returning version into v_version;
+        end if;
+        v_results := v_results || jsonb_build_array(jsonb_build_object('version', v_version));
+      end if;
+
+      v_i := v_i + 1;
+    end loop;
+  exception
+    when raise_exception then
+      return jsonb_build_object('status', v_status, 'failed', v_i);
+    when exclusion_violation then
+      return jsonb_build_object('status', 'overlap', 'failed', v_i);
+    when foreign_key_violation then
+      return jsonb_build_object('status', 'unknown_client', 'failed', v_i);
+  end;
+
+  return jsonb_build_object('status', 'ok', 'results', v_results);
+end;
+$$;
+
+revoke all on function public.apply_appointment_batch from public, anon, authenticated;
@@ -0,0 +1,195 @@
+-- Blocked time (breaks, vacation, closed): a row of kind 'block' takes its
+-- time like a booking, so appointments_no_overlap and the booking page keep
+-- clients out of it, but it is no client: `name` holds the reason and the
+-- client fields stay empty.
+alter table public.appointments
+  add column if not exists kind text not null default 'booking';
+
+alter table public.appointments drop constraint if exists appointments_kind_check;
+alter table public.appointments
+  add constraint appointments_kind_check
+  check (kind in ('booking', 'block') and (kind = 'booking' or (client_id is null and series_id is null)));
+
+-- Functions that copy whole rows carry the kind along
+
+create or replace function public.replace_appointments(p_barber text, p_days text[], p_rows jsonb)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  delete from appointments
+  where (p_barber is null or barber_id = p_barber)
+    and (p_days is null or day::text = any (p_days));
+
+  insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, source, client_id, series_id, kind)
+  select r.barber_id, r.day, r.time, r.name, r.phone, r.service, r.price, r.notes,
+         coalesce(r.status, 'booked'), coalesce(r.duration, 30), coalesce(r.source, 'staff'),
+         -- a snapshot can predate a client / series that was deleted since
+         (select c.id from clients c where c.id = r.client_id),
+         (select s.id from appointment_series s where s.id = r.series_id),
+         coalesce(r.kind, 'booking')
+  from jsonb_populate_recordset(null::appointments, p_rows) r
+  where (p_barber is null or r.barber_id = p_barber)
+    and (p_days is null or r.day::text = any (p_days));
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.replace_appointments(text, text[], jsonb) from public, anon, authenticated;
+
+create or replace function public.move_appointment(
+  p_barber appointments.barber_id%type,
+  p_day appointments.day%type,
+  p_time appointments.time%type,
+  p_to_barber appointments.barber_id%type,
+  p_to_day appointments.day%type,
+  p_to_time appointments.time%type,
+  p_swap boolean,
+  p_expected bigint,
+  p_expected_to bigint
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_src appointments%rowtype;
+  v_dst appointments%rowtype;
+  v_has_dst boolean;
+  v_from_version bigint := 0;
+  v_to_version bigint;
+begin
+  select * into v_src from appointments
+  where barber_id = p_barber and day = p_day and time = p_time
+  for update;
+  if not found then
+    return jsonb_build_object('status', 'missing');
+  end if;
+  if p_expected is not null and v_src.version <> p_expected then
+    return jsonb_build_object('status', 'stale');
+  end if;
+
+  select * into v_dst from appointments
+  where barber_id = p_to_barber and day = p_to_day and time = p_to_time
+  for update;
+  v_has_dst := found;
+
+  if p_expected_to is not null and coalesce(case when v_has_dst then v_dst.version end, 0) <> p_expected_to then
+    return jsonb_build_object('status', 'stale');
+  end if;
+  if v_has_dst and not p_swap then
+    return jsonb_build_object('status', 'taken');
+  end if;
+
+  if v_has_dst then
+    delete from appointments where barber_id = p_to_barber and day = p_to_day and time = p_to_time;
+  end if;
+
+  update appointments
+  set barber_id = p_to_barber, day = p_to_day, time = p_to_time
+  where barber_id = p_barber and day = p_day and time = p_time
+  returning version into v_to_version;
+
+  if v_has_dst then
+    insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, source, client_id, series_id, kind)
+    values (p_barber, p_day, p_time, v_dst.name, v_dst.phone, v_dst.service, v_dst.price, v_dst.notes,
+            v_dst.status, v_dst.duration, v_dst.source, v_dst.client_id, v_dst.series_id, v_dst.kind)
+    returning version into v_from_version;
+  end if;
+
+  return jsonb_build_object('status', 'ok', 'from_version', v_from_version, 'to_version', v_to_version);
+end;
+$$;
+
+revoke all on function public.move_appointment from public, anon, authenticated;
+
+create or replace function public.apply_appointment_batch(p_ops jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_op jsonb;
+  v_i integer := 0;
+  v_status text;
+  v_row appointments%rowtype;
+  v_to appointments%rowtype;
+  v_cur bigint;
+  v_version bigint;
+  v_move jsonb;
+  v_results jsonb := '[]'::jsonb;
+begin
+  -- Everything in this block is rolled back when it ends in an exception
+  begin
+    for v_op in select value from jsonb_array_elements(p_ops) loop
+      v_row := jsonb_populate_record(null::appointments, v_op->'row');
+
+      if v_op->>'op' in ('move', 'swap') then
+        v_to := jsonb_populate_record(null::appointments, v_op->'to');
+        v_move := move_appointment(
+          v_row.barber_id, v_row.day, v_row.time,
+          v_to.barber_id, v_to.day, v_to.time,
+          v_op->>'op' = 'swap',
+          (v_op->>'expected')::bigint,
+          (v_op->>'expected_to')::bigint
+        );
+        if v_move->>'status' <> 'ok' then
+          v_status := v_move->>'status';
+          raise exception 'batch op refused';
+        end if;
+        v_results := v_results || jsonb_build_array(jsonb_build_object(
+          'version', v_move->'from_version', 'to_version', v_move->'to_version'));
+      else
+        select version into v_cur from appointments
+        where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time
+        for update;
+        if (v_op->>'expected') is not null and coalesce(v_cur, 0) <> (v_op->>'expected')::bigint then
+          v_status := 'stale';
+          raise exception 'batch op refused';
+        end if;
+
+        v_version := 0;
+        if v_op->>'op' = 'clear' then
+          delete from appointments
+          where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time;
+        elsif v_cur is null then
+          insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, client_id, series_id, kind)
+          values (v_row.barber_id, v_row.day, v_row.time, v_row.name, v_row.phone, v_row.service, v_row.price,
+                  v_row.notes, coalesce(v_row.status, 'booked'), coalesce(v_row.duration, 30), v_row.client_id, v_row.series_id,
+                  coalesce(v_row.kind, 'booking'))
+          returning version into v_version;
+        else
+          update appointments
+          set name = v_row.name, phone = v_row.phone, service = v_row.service, price = v_row.price,
+              notes = v_row.notes, status = coalesce(v_row.status, 'booked'), duration = coalesce(v_row.duration, 30),
+              client_id = v_row.client_id, series_id = v_row.series_id, kind = coalesce(v_row.kind, 'booking')
+          where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time
+          returning version into v_version;
+        end if;
+        v_results := v_results || jsonb_build_array(jsonb_build_object('version', v_version));
+      end if;
+
+      v_i := v_i + 1;
+    end loop;
+  exception
+    when raise_exception then
+      return jsonb_build_object('status', v_status, 'failed', v_i);
+    when exclusion_violation then
+      return jsonb_build_object('status', 'overlap', 'failed', v_i);
+    when foreign_key_violation then
+      return jsonb_build_object('status', 'unknown_client', 'failed', v_i);
+  end;
+
+  return jsonb_build_object('status', 'ok', 'results', v_results);
+end;
+$$;
+
+revoke all on function public.apply_appointment_batch from public, anon, authenticated;
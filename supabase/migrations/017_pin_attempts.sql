@@ -0,0 +1,36 @@
+-- PIN attempts counted in one statement (see lib/auth.ts takePinAttempt).
+-- The attempt is taken before the PIN is compared, so parallel requests can't
+-- all slip in under the limit between a read and a write.
+create or replace function public.take_pin_attempt(p_key text, p_max integer, p_lockout_seconds integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row auth_lockouts%rowtype;
+  v_failures integer;
+begin
+  -- Creates or locks the row; concurrent attempts on the same key wait here
+  insert into auth_lockouts as l (key, failures, locked_until, updated_at)
+  values (p_key, 0, null, now())
+  on conflict (key) do update set updated_at = now()
+  returning * into v_row;
+
+  if v_row.locked_until is not null and v_row.locked_until > now() then
+    return -1;
+  end if;
+
+  -- A finished lockout starts a fresh count
+  v_failures := case when v_row.locked_until is not null then 0 else v_row.failures end + 1;
+
+  update auth_lockouts
+  set failures = case when v_failures >= p_max then 0 else v_failures end,
+      locked_until = case when v_failures >= p_max then now() + make_interval(secs => p_lockout_seconds) end
+  where key = p_key;
+
+  return p_max - v_failures;
+end;
+$$;
+
+revoke all on function public.take_pin_attempt(text, integer, integer) from public, anon, authenticated;
@@ -0,0 +1,77 @@
+-- Realtime without the data: the browser's anon key must not read bookings.
+-- `appointments` gets RLS with no policies (only the service role behind the
+-- session-guarded API reads it) and leaves the realtime publication. Instead
+-- every change drops a signal here that carries only the slot key; the app
+-- answers it with a delta sync through /api/appointments.
+alter table public.appointments enable row level security;
+alter table public.appointments replica identity default;
+
+create table if not exists public.appointment_signals (
+  id bigint generated always as identity primary key,
+  barber_id text not null,
+  day text not null,
+  time text not null,
+  -- insert | update | delete | move (the slot a moved booking left)
+  op text not null check (op in ('insert', 'update', 'delete', 'move')),
+  -- 'online' for /book bookings, so the app can announce them
+  source text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.appointment_signals enable row level security;
+
+drop policy if exists appointment_signals_read on public.appointment_signals;
+create policy appointment_signals_read on public.appointment_signals
+  for select to anon, authenticated using (true);
+
+create or replace function public.appointments_signal()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    insert into appointment_signals (barber_id, day, time, op, source)
+    values (old.barber_id, old.day::text, old.time, 'delete', old.source);
+    return old;
+  end if;
+
+  if tg_op = 'UPDATE' and (old.barber_id, old.day, old.time) is distinct from (new.barber_id, new.day, new.time) then
+    insert into appointment_signals (barber_id, day, time, op, source)
+    values (old.barber_id, old.day::text, old.time, 'move', old.source);
+  end if;
+
+  insert into appointment_signals (barber_id, day, time, op, source)
+  values (new.barber_id, new.day::text, new.time, lower(tg_op), new.source);
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_signal on public.appointments;
+create trigger appointments_signal
+  after insert or update or delete on public.appointments
+  for each row execute function public.appointments_signal();
+
+do $$
+begin
+  if exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'appointments'
+  ) then
+    alter publication supabase_realtime drop table public.appointments;
+  end if;
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'appointment_signals'
+  ) then
+    alter publication supabase_realtime add table public.appointment_signals;
+  end if;
+end;
+$$;
+
+-- Signals are only useful while they're being delivered
+create extension if not exists pg_cron;
+select cron.schedule(
+  'bushi-signal-cleanup',
+  '15 * * * *',
+  $$delete from public.appointment_signals where created_at < now() - interval '1 hour'$$
+);
@@ -0,0 +1,176 @@
+-- Series writes in one transaction each (/api/series and /api/series/:id): a
+-- series and its occurrences land together or not at all, and nothing booked
+-- after the route's checks is overwritten. Occurrences are passed as
+--   [{ row: { barber_id, day, time, name, ... }, expected }]
+-- with expected = the slot version the route saw (0 = it was empty).
+
+-- Returns { status: "ok", series, results: [{ day, version }] }, or
+-- { status: "taken", days } listing every occurrence whose slot changed or
+-- now overlaps a booking, or { status: "unknown_client" }.
+create or replace function public.create_appointment_series(p_series jsonb, p_rows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_series appointment_series%rowtype;
+  v_item jsonb;
+  v_row appointments%rowtype;
+  v_cur bigint;
+  v_version bigint;
+  v_taken jsonb := '[]'::jsonb;
+  v_results jsonb := '[]'::jsonb;
+begin
+  -- Everything in this block is rolled back when it ends in an exception
+  begin
+    v_series := jsonb_populate_record(null::appointment_series, p_series);
+    insert into appointment_series (barber_id, time, start_day, freq, every, until_day, occurrences)
+    values (v_series.barber_id, v_series.time, v_series.start_day, v_series.freq, v_series.every,
+            v_series.until_day, v_series.occurrences)
+    returning * into v_series;
+
+    for v_item in select value from jsonb_array_elements(p_rows) loop
+      v_row := jsonb_populate_record(null::appointments, v_item->'row');
+
+      select version into v_cur from appointments
+      where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time
+      for update;
+      if coalesce(v_cur, 0) <> coalesce((v_item->>'expected')::bigint, 0) then
+        v_taken := v_taken || jsonb_build_array(v_row.day::text);
+        continue;
+      end if;
+
+      -- Per occurrence, so every clash gets reported, not just the first
+      begin
+        if v_cur is null then
+          insert into appointments (barber_id, day, time, name, phone, service, price, notes, status, duration, source, client_id, series_id, kind)
+          values (v_row.barber_id, v_row.day, v_row.time, v_row.name, v_row.phone, v_row.service, v_row.price,
+                  v_row.notes, coalesce(v_row.status, 'booked'), coalesce(v_row.duration, 30), coalesce(v_row.source, 'staff'),
+                  v_row.client_id, v_series.id, coalesce(v_row.kind, 'booking'))
+          returning version into v_version;
+        else
+          update appointments
+          set name = v_row.name, phone = v_row.phone, service = v_row.service, price = v_row.price,
+              notes = v_row.notes, status = coalesce(v_row.status, 'booked'), duration = coalesce(v_row.duration, 30),
+              client_id = v_row.client_id, series_id = v_series.id, kind = coalesce(v_row.kind, 'booking')
+          where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time
+          returning version into v_version;
+        end if;
+        v_results := v_results || jsonb_build_array(jsonb_build_object('day', v_row.day::text, 'version', v_version));
+      exception
+        when exclusion_violation or unique_violation then
+          v_taken := v_taken || jsonb_build_array(v_row.day::text);
+      end;
+    end loop;
+
+    if jsonb_array_length(v_taken) > 0 then
+      raise exception 'series refused';
+    end if;
+  exception
+    when raise_exception then
+      return jsonb_build_object('status', 'taken', 'days', v_taken);
+    when foreign_key_violation then
+      return jsonb_build_object('status', 'unknown_client');
+  end;
+
+  return jsonb_build_object('status', 'ok', 'series', to_jsonb(v_series), 'results', v_results);
+end;
+$$;
+
+revoke all on function public.create_appointment_series(jsonb, jsonb) from public, anon, authenticated;
+
+-- Rewrites existing occurrences, each only if it still has the expected version.
+-- Returns { status: "ok", results: [{ barber, day, version }] }, or
+-- { status: "conflict", conflicts: [{ day, time, reason: "stale" | "overlap" }] }
+-- for every occurrence that can't be written, or { status: "unknown_client" }.
+create or replace function public.update_series_occurrences(p_rows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item jsonb;
+  v_row appointments%rowtype;
+  v_version bigint;
+  v_conflicts jsonb := '[]'::jsonb;
+  v_results jsonb := '[]'::jsonb;
+begin
+  begin
+    for v_item in select value from jsonb_array_elements(p_rows) loop
+      v_row := jsonb_populate_record(null::appointments, v_item->'row');
+
+      begin
+        update appointments
+        set name = v_row.name, phone = v_row.phone, service = v_row.service, price = v_row.price,
+            notes = v_row.notes, status = coalesce(v_row.status, 'booked'), duration = coalesce(v_row.duration, 30),
+            client_id = v_row.client_id, series_id = v_row.series_id
+        where barber_id = v_row.barber_id and day = v_row.day and time = v_row.time
+          and version = (v_item->>'expected')::bigint
+        returning version into v_version;
+
+        if not found then
+          v_conflicts := v_conflicts || jsonb_build_array(jsonb_build_object(
+            'day', v_row.day::text, 'time', v_row.time, 'reason', 'stale'));
+        else
+          v_results := v_results || jsonb_build_array(jsonb_build_object(
+            'barber', v_row.barber_id, 'day', v_row.day::text, 'version', v_version));
+        end if;
+      exception
+        when exclusion_violation then
+          v_conflicts := v_conflicts || jsonb_build_array(jsonb_build_object(
+            'day', v_row.day::text, 'time', v_row.time, 'reason', 'overlap'));
+      end;
+    end loop;
+
+    if jsonb_array_length(v_conflicts) > 0 then
+      raise exception 'series update refused';
+    end if;
+  exception
+    when raise_exception then
+      return jsonb_build_object('status', 'conflict', 'conflicts', v_conflicts);
+    when foreign_key_violation then
+      return jsonb_build_object('status', 'unknown_client');
+  end;
+
+  return jsonb_build_object('status', 'ok', 'results', v_results);
+end;
+$$;
+
+revoke all on function public.update_series_occurrences(jsonb) from public, anon, authenticated;
+
+-- Ends a series: removes its occurrences from p_from on and moves its end
+-- before that day (from the first day on, the series goes too).
+-- Returns { status: "ok", removed: [appointment rows] } or { status: "missing" }.
+create or replace function public.end_appointment_series(p_series bigint, p_from date)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_start date;
+  v_removed jsonb;
+begin
+  select start_day into v_start from appointment_series where id = p_series for update;
+  if not found then
+    return jsonb_build_object('status', 'missing');
+  end if;
+
+  with gone as (
+    delete from appointments where series_id = p_series and day >= p_from returning *
+  )
+  select coalesce(jsonb_agg(to_jsonb(gone) order by gone.day, gone.time), '[]'::jsonb) into v_removed from gone;
+
+  if p_from <= v_start then
+    delete from appointment_series where id = p_series;
+  else
+    update appointment_series set until_day = p_from - 1 where id = p_series;
+  end if;
+
+  return jsonb_build_object('status', 'ok', 'removed', v_removed);
+end;
+$$;
+
+revoke all on function public.end_appointment_series(bigint, date) from public, anon, authenticated;
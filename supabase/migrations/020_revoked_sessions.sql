@@ -0,0 +1,18 @@
+-- Signed-out sessions (DELETE /api/auth). The cookie is signed, not stored, so
+-- logging out puts its sid here and requireSession (lib/auth.ts) refuses it
+-- until it would have expired anyway. Only the service-role key touches this
+-- table; RLS stays on with no policies.
+create table if not exists public.revoked_sessions (
+  sid text primary key,
+  expires_at timestamptz not null
+);
+
+alter table public.revoked_sessions enable row level security;
+
+-- An expired cookie is refused by its own signature; the row is no longer needed
+create extension if not exists pg_cron;
+select cron.schedule(
+  'bushi-revoked-session-cleanup',
+  '0 3 * * *',
+  $$delete from public.revoked_sessions where expires_at < now()$$
+);